@@ -0,0 +1,93 @@
+import { type TableMetadata } from 'kysely';
+
+import { getCastOnlyType, parseParameterType } from './BigQueryParameters';
+
+/**
+ * BigQuery column types by table name and column name.
+ *
+ * Example:
+ * ```
+ * {
+ *   'dataset.users': { id: 'INT64', email: 'STRING', tags: 'ARRAY<STRING>' },
+ * }
+ * ```
+ */
+export type BigQueryColumnTypeMap = Record<string, Record<string, string>>;
+
+/**
+ * Registry of known column types, used to type null parameters by the column
+ * they are compared with or assigned to.
+ */
+export class BigQueryColumnTypes {
+  readonly #tables = new Map<string, Map<string, string>>();
+
+  constructor(columnTypes: BigQueryColumnTypeMap = {}) {
+    this.registerColumnTypes(columnTypes);
+  }
+
+  /**
+   * Number of tables with registered column types.
+   */
+  get size(): number {
+    return this.#tables.size;
+  }
+
+  /**
+   * Registers column types for tables.
+   * Columns already registered for a table are replaced.
+   * @param columnTypes - Column types by table name (e.g., 'dataset.table') and column name
+   * @throws Error if a type is not a valid parameter type
+   */
+  registerColumnTypes(columnTypes: BigQueryColumnTypeMap): void {
+    for (const [tableName, columns] of Object.entries(columnTypes)) {
+      for (const [columnName, type] of Object.entries(columns)) {
+        if (getCastOnlyType(type) === undefined) {
+          parseParameterType(type);
+        }
+        this.#register(tableName, columnName, type);
+      }
+    }
+  }
+
+  /**
+   * Registers the column types of introspected tables.
+   * @param tables - Tables from `BigQueryIntrospector.getTables()`
+   */
+  registerTables(tables: readonly TableMetadata[]): void {
+    for (const table of tables) {
+      const tableName = table.schema ? `${table.schema}.${table.name}` : table.name;
+      for (const column of table.columns) {
+        /*
+         * Skip types that are neither parameter types nor cast in SQL (e.g.
+         * RANGE<INT64>); nulls for those columns keep the default type
+         */
+        try {
+          if (getCastOnlyType(column.dataType) === undefined) {
+            parseParameterType(column.dataType);
+          }
+        } catch {
+          continue;
+        }
+        this.#register(tableName, column.name, column.dataType);
+      }
+    }
+  }
+
+  /**
+   * Returns the type of a column, if it is known.
+   * @param tableName - Full table name (e.g., 'dataset.table')
+   * @param columnName - Column name
+   */
+  getColumnType(tableName: string, columnName: string): string | undefined {
+    return this.#tables.get(tableName)?.get(columnName);
+  }
+
+  #register(tableName: string, columnName: string, type: string): void {
+    let columns = this.#tables.get(tableName);
+    if (!columns) {
+      columns = new Map();
+      this.#tables.set(tableName, columns);
+    }
+    columns.set(columnName, type);
+  }
+}
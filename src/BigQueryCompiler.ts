@@ -1,19 +1,92 @@
 import {
+  AliasNode,
+  AndNode,
+  BinaryOperationNode,
   type ColumnDefinitionNode,
+  ColumnNode,
+  type ColumnUpdateNode,
+  type CompiledQuery,
   type DeleteQueryNode,
   type ForeignKeyConstraintNode,
   type FunctionNode,
-  type IdentifierNode,
+  type HavingNode,
+  IdentifierNode,
+  InsertQueryNode,
+  JoinNode,
+  MatchedNode,
+  MergeQueryNode,
   MysqlQueryCompiler,
+  OperationNodeTransformer,
   type OperationNode,
+  OperatorNode,
   type PrimaryKeyConstraintNode,
+  type PrimitiveValueListNode,
+  type QueryId,
   type RawNode,
-  type SetOperationNode,
-  type TableNode,
+  ReferenceNode,
+  type RootOperationNode,
+  SelectionNode,
+  type SelectModifierNode,
+  SelectQueryNode,
+  SetOperationNode,
+  TableNode,
   type UniqueConstraintNode,
-  type UpdateQueryNode,
+  UpdateQueryNode,
+  ValueListNode,
+  ValueNode,
+  ValuesNode,
+  WhenNode,
 } from 'kysely';
 
+import { type BigQueryColumnTypes } from './BigQueryColumnTypes';
+import { isGeoJsonGeometry } from './BigQueryGeoJson';
+import { BigQueryIntervalValue } from './BigQueryInterval';
+import { copyQueryJobOptions } from './BigQueryJobOptionsPlugin';
+import {
+  BigQueryNamedParameter,
+  BigQueryTypedParameter,
+  bq,
+  getCastOnlyType,
+  getExactValueType,
+  getParameterType,
+  parseParameterType,
+} from './BigQueryParameters';
+import { BigQueryRangeValue } from './BigQueryRange';
+
+/**
+ * Options for BigQueryCompiler.
+ */
+export interface BigQueryCompilerOptions {
+  /**
+   * Emit `@p0`, `@p1`, ... placeholders instead of positional `?`.
+   * Parameters created with `bq.named()` are emitted under their own name.
+   */
+  namedParameters?: boolean | undefined;
+
+  /**
+   * Known column types. Null parameters compared with or assigned to one of
+   * these columns are sent with the column's type instead of `STRING`, and
+   * nulls and strings for INTERVAL and RANGE columns are cast to the type.
+   */
+  columnTypes?: BigQueryColumnTypes | undefined;
+
+  /**
+   * Key columns by table name. Upserts rewritten into MERGE match existing
+   * rows on these columns when `onConflict()` names none, as with
+   * `onDuplicateKeyUpdate()`.
+   */
+  primaryKeys?: Record<string, string[]> | undefined;
+}
+
+/* End modifiers added by `qualify()`, compiled as the QUALIFY clause */
+const QUALIFY_PATTERN = /^\s*qualify\s+/i;
+
+/* Alias of the rows of an upsert in the MERGE it is rewritten into, as in PostgreSQL's ON CONFLICT */
+const UPSERT_SOURCE = 'excluded';
+
+/* MySQL's VALUES(column) in raw SQL of an upsert's updates */
+const VALUES_FUNCTION_PATTERN = /\bvalues\s*\(/i;
+
 /**
  * Query compiler for BigQuery dialect.
  *
@@ -22,10 +95,427 @@ import {
  */
 export class BigQueryCompiler extends MysqlQueryCompiler {
   readonly #defaultProject: string | undefined;
+  readonly #namedParameters: boolean;
+  readonly #namedValues = new Map<string, unknown>();
+  readonly #columnTypes: BigQueryColumnTypes | undefined;
+  readonly #primaryKeys: Record<string, string[]>;
+
+  /* Tables in scope of each enclosing query, keyed by the names they can be referenced by */
+  readonly #scopes: Map<string, string>[] = [];
+
+  /* Type of the column the value being compiled is compared with or assigned to */
+  #valueType: string | undefined;
+
+  /* Types of the columns of the insert being compiled, by position */
+  #insertColumnTypes: (string | undefined)[] | undefined;
+
+  /* Target table of the MERGE being compiled, which its INSERT and UPDATE actions write to */
+  #mergeTarget: OperationNode | undefined;
+
+  /* QUALIFY conditions of select queries, keyed by the HAVING clause they are compiled in */
+  readonly #qualifyClauses = new WeakMap<
+    HavingNode,
+    { having: HavingNode | undefined; filtered: boolean; conditions: RawNode[] }
+  >();
 
-  constructor(defaultProject?: string) {
+  /* Types of the columns the values of rewritten upserts are inserted into */
+  readonly #upsertValueTypes = new WeakMap<OperationNode, string>();
+
+  constructor(defaultProject?: string, options: BigQueryCompilerOptions = {}) {
     super();
     this.#defaultProject = defaultProject;
+    this.#namedParameters = options.namedParameters ?? false;
+    this.#columnTypes = options.columnTypes;
+    this.#primaryKeys = options.primaryKeys ?? {};
+  }
+
+  override compileQuery(node: RootOperationNode, queryId: QueryId): CompiledQuery {
+    this.#namedValues.clear();
+    this.#scopes.length = 0;
+    this.#valueType = undefined;
+    this.#insertColumnTypes = undefined;
+    this.#mergeTarget = undefined;
+    if (node.kind === 'InsertQueryNode' && (node.onConflict || node.onDuplicateKey)) {
+      const merge = this.#upsertToMerge(node);
+      copyQueryJobOptions(node, merge);
+      return super.compileQuery(merge, queryId);
+    }
+    return super.compileQuery(node, queryId);
+  }
+
+  /**
+   * Rewrites an insert with `onConflict()` or `onDuplicateKeyUpdate()`, which
+   * BigQuery does not support, into a MERGE. The rows become a `union all`
+   * source named `excluded`, matched with the target table on the key
+   * columns. Updates can refer to the inserted values as `excluded.column`;
+   * unqualified columns refer to the target table.
+   * @throws Error if the key columns are unknown or not inserted, or the
+   *   insert has no rows of values
+   */
+  #upsertToMerge(node: InsertQueryNode): MergeQueryNode {
+    const into = node.into as TableNode;
+    const tableName = getTableName(into);
+    const target = TableNode.create(into.table.identifier.name);
+    const source = TableNode.create(UPSERT_SOURCE);
+    const columns = (node.columns ?? []).map((column) => column.column.name);
+
+    const keys = this.#upsertKeys(node, tableName);
+    for (const key of keys) {
+      if (!columns.includes(key)) {
+        throw new Error(`Upsert into "${tableName}" does not insert its key column "${key}".`);
+      }
+    }
+    const on = keys
+      .map<OperationNode>((key) =>
+        BinaryOperationNode.create(
+          ReferenceNode.create(ColumnNode.create(key), target),
+          OperatorNode.create('='),
+          ReferenceNode.create(ColumnNode.create(key), source),
+        ),
+      )
+      .reduce((left, right) => AndNode.create(left, right));
+
+    const whens: WhenNode[] = [];
+    const updates = node.onDuplicateKey?.updates ?? node.onConflict?.updates;
+    if (updates?.length && !node.onConflict?.doNothing) {
+      const qualifier = new UpsertTargetTransformer(target, source);
+      const updateWhere = node.onConflict?.updateWhere?.where;
+      const matched = MatchedNode.create(false);
+      whens.push(
+        WhenNode.cloneWithResult(
+          WhenNode.create(
+            updateWhere ? AndNode.create(matched, qualifier.transformNode(updateWhere)) : matched,
+          ),
+          UpdateQueryNode.cloneWithUpdates(
+            UpdateQueryNode.createWithoutTable(),
+            updates.map((update) => qualifier.transformNode(update)),
+          ),
+        ),
+      );
+    }
+    whens.push(
+      WhenNode.cloneWithResult(
+        WhenNode.create(MatchedNode.create(true)),
+        InsertQueryNode.cloneWith(InsertQueryNode.createWithoutInto(), {
+          columns: node.columns ?? [],
+          values: ValuesNode.create([
+            ValueListNode.create(
+              columns.map((column) => ReferenceNode.create(ColumnNode.create(column), source)),
+            ),
+          ]),
+        }),
+      ),
+    );
+
+    return {
+      ...MergeQueryNode.create(
+        AliasNode.create(into, IdentifierNode.create(target.table.identifier.name)),
+      ),
+      using: JoinNode.createWithOn('Using', this.#upsertSource(node, tableName, columns), on),
+      whens,
+    };
+  }
+
+  /**
+   * Returns the columns an upsert matches existing rows on: the conflict
+   * columns of `onConflict()`, or the table's registered primary key.
+   */
+  #upsertKeys(node: InsertQueryNode, tableName: string): string[] {
+    const onConflict = node.onConflict;
+    if (onConflict?.constraint || onConflict?.indexExpression || onConflict?.indexWhere) {
+      throw new Error(
+        'BigQuery upserts can only match rows on conflict columns. Use onConflict((oc) => oc.columns([...])).',
+      );
+    }
+    if (onConflict?.columns?.length) {
+      return onConflict.columns.map((column) => column.column.name);
+    }
+    const keys = this.#primaryKeys[tableName];
+    if (!keys?.length) {
+      throw new Error(
+        `Cannot upsert into "${tableName}" without its key columns. Register them in the primaryKeys dialect option, or name them with onConflict((oc) => oc.columns([...])).`,
+      );
+    }
+    return keys;
+  }
+
+  /**
+   * Builds the source of a rewritten upsert: a `select ... union all select
+   * ...` of its rows, with the values named after the inserted columns.
+   */
+  #upsertSource(node: InsertQueryNode, tableName: string, columns: string[]): AliasNode {
+    if (node.values?.kind !== 'ValuesNode') {
+      throw new Error(
+        'BigQuery upserts need rows of values. Use mergeInto() to upsert the rows of a query.',
+      );
+    }
+
+    const rows = (node.values as ValuesNode).values.map((row) =>
+      row.kind === 'PrimitiveValueListNode'
+        ? row.values.map((value) => ValueNode.create(value))
+        : row.values,
+    );
+    const selects = rows.map((values) => {
+      const selections = values.map((value, i) => {
+        const column = columns[i] as string;
+        if (value.kind === 'DefaultInsertValueNode') {
+          throw new Error(`Every row of an upsert into "${tableName}" must set "${column}".`);
+        }
+        /*
+         * Untyped nulls would be sent as STRING, which the other rows of the
+         * union do not match, so they take the type of the column's values
+         */
+        const type =
+          this.#columnTypes?.getColumnType(tableName, column) ??
+          (isNullValue(value) ? inferColumnValueType(rows.map((row) => row[i])) : undefined);
+        if (type !== undefined && value.kind === 'ValueNode') {
+          this.#upsertValueTypes.set(value, type);
+        }
+        return SelectionNode.create(AliasNode.create(value, IdentifierNode.create(column)));
+      });
+      return SelectQueryNode.cloneWithSelections(SelectQueryNode.create(), selections);
+    });
+
+    const [first, ...rest] = selects as [SelectQueryNode, ...SelectQueryNode[]];
+    const union = rest.length
+      ? SelectQueryNode.cloneWithSetOperations(
+          first,
+          rest.map((select) => SetOperationNode.create('union', select, true)),
+        )
+      : first;
+    return AliasNode.create(union, IdentifierNode.create(UPSERT_SOURCE));
+  }
+
+  protected override appendValue(parameter: unknown): void {
+    /* The client cannot send INTERVAL and RANGE parameters; cast them in SQL */
+    const castType = this.#valueType === undefined ? undefined : getCastOnlyType(this.#valueType);
+    if (castType !== undefined && (parameter === null || typeof parameter === 'string')) {
+      this.append('CAST(');
+      if (parameter === null) {
+        this.append('NULL');
+      } else {
+        super.appendValue(parameter);
+      }
+      this.append(` AS ${castType})`);
+      return;
+    }
+
+    if (parameter instanceof BigQueryIntervalValue) {
+      this.append('CAST(');
+      super.appendValue(parameter.toString());
+      this.append(' AS INTERVAL)');
+      return;
+    }
+
+    if (parameter instanceof BigQueryRangeValue) {
+      this.append('RANGE(');
+      super.appendValue(new BigQueryTypedParameter(parameter.start, parameter.elementType));
+      this.append(', ');
+      super.appendValue(new BigQueryTypedParameter(parameter.end, parameter.elementType));
+      this.append(')');
+      return;
+    }
+
+    if (parameter === null && this.#valueType !== undefined) {
+      super.appendValue(new BigQueryTypedParameter(null, this.#valueType));
+      return;
+    }
+
+    const typed = this.#withColumnType(parameter);
+    if (typed !== undefined) {
+      super.appendValue(typed);
+      return;
+    }
+
+    if (!(parameter instanceof BigQueryNamedParameter)) {
+      super.appendValue(parameter);
+      return;
+    }
+
+    if (!this.#namedParameters) {
+      super.appendValue(parameter.value);
+      return;
+    }
+
+    /* Every occurrence of a name refers to the parameter added first */
+    if (!this.#namedValues.has(parameter.name)) {
+      this.#namedValues.set(parameter.name, parameter.value);
+      this.addParameter(parameter);
+    } else if (!Object.is(this.#namedValues.get(parameter.name), parameter.value)) {
+      throw new Error(`Named parameter "@${parameter.name}" is used with different values.`);
+    }
+    this.append(`@${parameter.name}`);
+  }
+
+  /**
+   * Types a value by the column it is used with, where the type inferred from
+   * the value would be wrong: a Date would be sent as TIMESTAMP, which DATE,
+   * DATETIME and TIME columns reject, and WKT or GeoJSON as STRING or STRUCT.
+   */
+  #withColumnType(parameter: unknown): BigQueryTypedParameter | undefined {
+    if (this.#valueType === undefined) {
+      return undefined;
+    }
+    if (parameter instanceof Date) {
+      const type = parseParameterType(this.#valueType);
+      return type === 'DATE' || type === 'DATETIME' || type === 'TIME'
+        ? new BigQueryTypedParameter(parameter, type)
+        : undefined;
+    }
+    if (typeof parameter === 'string' || isGeoJsonGeometry(parameter)) {
+      return parseParameterType(this.#valueType) === 'GEOGRAPHY'
+        ? bq.geography(parameter)
+        : undefined;
+    }
+    return undefined;
+  }
+
+  protected override getCurrentParameterPlaceholder(): string {
+    if (this.#namedParameters) {
+      return `@p${this.numParameters - 1}`;
+    }
+    return super.getCurrentParameterPlaceholder();
+  }
+
+  protected override visitValue(node: ValueNode): void {
+    const type = this.#upsertValueTypes.get(node);
+    if (type === undefined) {
+      super.visitValue(node);
+      return;
+    }
+    this.#withValueType(type, () => super.visitValue(node));
+  }
+
+  protected override visitSelectQuery(node: SelectQueryNode): void {
+    const modifiers = node.endModifiers ?? [];
+    const conditions = modifiers
+      .map(getQualifyCondition)
+      .filter((condition): condition is RawNode => condition !== undefined);
+    if (conditions.length > 0) {
+      /*
+       * Kysely adds end modifiers after ORDER BY and LIMIT; QUALIFY goes after
+       * HAVING, so it is compiled with the HAVING clause
+       */
+      const having = { kind: 'HavingNode', having: node.having?.having } as HavingNode;
+      this.#qualifyClauses.set(having, {
+        having: node.having,
+        filtered: Boolean(node.where || node.groupBy || node.having),
+        conditions,
+      });
+      node = {
+        ...node,
+        having,
+        endModifiers: modifiers.filter((modifier) => !getQualifyCondition(modifier)),
+      };
+    }
+
+    this.#withScope(
+      [...(node.from?.froms ?? []), ...(node.joins ?? []).map((join) => join.table)],
+      () => super.visitSelectQuery(node),
+    );
+  }
+
+  protected override visitHaving(node: HavingNode): void {
+    const clause = this.#qualifyClauses.get(node);
+    if (!clause) {
+      super.visitHaving(node);
+      return;
+    }
+
+    if (clause.having) {
+      super.visitHaving(clause.having);
+      this.append(' ');
+    } else if (!clause.filtered) {
+      /* BigQuery requires WHERE, GROUP BY or HAVING with QUALIFY */
+      this.append('where true ');
+    }
+    this.append('qualify ');
+    clause.conditions.forEach((condition, i) => {
+      const [first = '', ...rest] = condition.sqlFragments;
+      const raw = { ...condition, sqlFragments: [first.replace(QUALIFY_PATTERN, ''), ...rest] };
+      /* Conditions are wrapped, unless they already are, to keep their precedence under AND */
+      const wrap =
+        clause.conditions.length > 1 &&
+        !(
+          raw.sqlFragments.every((fragment) => fragment.trim() === '') &&
+          raw.parameters.length === 1 &&
+          raw.parameters[0]?.kind === 'ParensNode'
+        );
+      this.append(i > 0 ? ' and ' : '');
+      this.append(wrap ? '(' : '');
+      this.visitNode(raw);
+      this.append(wrap ? ')' : '');
+    });
+  }
+
+  protected override visitInsertQuery(node: InsertQueryNode): void {
+    const mergeAction = this.parentNode?.kind === 'WhenNode';
+    if (mergeAction && isEmptyInsert(node)) {
+      /* An insert without columns in MERGE inserts the source row as is */
+      this.append('insert row');
+      return;
+    }
+
+    this.#withScope([mergeAction ? this.#mergeTarget : node.into], () => {
+      const previous = this.#insertColumnTypes;
+      this.#insertColumnTypes = node.columns?.map((column) => this.#columnType(column));
+      try {
+        super.visitInsertQuery(node);
+      } finally {
+        this.#insertColumnTypes = previous;
+      }
+    });
+  }
+
+  protected override visitValueList(node: ValueListNode): void {
+    const types = this.#rowColumnTypes();
+    if (!types) {
+      super.visitValueList(node);
+      return;
+    }
+
+    this.append('(');
+    node.values.forEach((value, i) => {
+      if (i > 0) {
+        this.append(', ');
+      }
+      this.#withValueType(value.kind === 'ValueNode' ? types[i] : undefined, () =>
+        this.visitNode(value),
+      );
+    });
+    this.append(')');
+  }
+
+  protected override visitPrimitiveValueList(node: PrimitiveValueListNode): void {
+    const types = this.#rowColumnTypes();
+    if (!types) {
+      super.visitPrimitiveValueList(node);
+      return;
+    }
+
+    this.append('(');
+    node.values.forEach((value, i) => {
+      if (i > 0) {
+        this.append(', ');
+      }
+      this.#withValueType(types[i], () => this.appendValue(value));
+    });
+    this.append(')');
+  }
+
+  protected override visitColumnUpdate(node: ColumnUpdateNode): void {
+    const type = node.value.kind === 'ValueNode' ? this.#columnType(node.column) : undefined;
+    this.#withValueType(type, () => super.visitColumnUpdate(node));
+  }
+
+  protected override visitBinaryOperation(node: BinaryOperationNode): void {
+    let type: string | undefined;
+    if (isValueNode(node.rightOperand)) {
+      type = this.#columnType(node.leftOperand);
+    } else if (isValueNode(node.leftOperand)) {
+      type = this.#columnType(node.rightOperand);
+    }
+    this.#withValueType(type, () => super.visitBinaryOperation(node));
   }
 
   protected override visitSetOperation(node: SetOperationNode): void {
@@ -85,30 +575,62 @@ export class BigQueryCompiler extends MysqlQueryCompiler {
     super.visitFunction(node);
   }
 
+  protected override visitMergeQuery(node: MergeQueryNode): void {
+    const previous = this.#mergeTarget;
+    this.#mergeTarget = node.into;
+    try {
+      this.#withScope([node.into, node.using?.table], () =>
+        super.visitMergeQuery({ ...node, whens: removeDoNothing(node.whens ?? []) }),
+      );
+    } finally {
+      this.#mergeTarget = previous;
+    }
+  }
+
   protected override visitUpdateQuery(node: UpdateQueryNode): void {
-    if (node.where === null || node.where === undefined) {
-      /*
-       * BigQuery requires WHERE clause for UPDATE statements
-       * Add WHERE TRUE to allow the query to execute
-       */
-      super.visitUpdateQuery(node);
-      this.append(' where true');
+    if (this.parentNode?.kind === 'WhenNode') {
+      /* An UPDATE action of a MERGE has no WHERE; the WHEN clause selects the rows */
+      this.#withScope([this.#mergeTarget], () => super.visitUpdateQuery(node));
       return;
     }
-    super.visitUpdateQuery(node);
+
+    const tables = [
+      node.table,
+      ...(node.from?.froms ?? []),
+      ...(node.joins ?? []).map((join) => join.table),
+    ];
+    this.#withScope(tables, () => {
+      if (node.where === null || node.where === undefined) {
+        /*
+         * BigQuery requires WHERE clause for UPDATE statements
+         * Add WHERE TRUE to allow the query to execute
+         */
+        super.visitUpdateQuery(node);
+        this.append(' where true');
+        return;
+      }
+      super.visitUpdateQuery(node);
+    });
   }
 
   protected override visitDeleteQuery(node: DeleteQueryNode): void {
-    if (node.where === null || node.where === undefined) {
-      /*
-       * BigQuery requires WHERE clause for DELETE statements
-       * Add WHERE TRUE to allow the query to execute
-       */
+    const tables = [
+      ...node.from.froms,
+      ...(node.using?.tables ?? []),
+      ...(node.joins ?? []).map((join) => join.table),
+    ];
+    this.#withScope(tables, () => {
+      if (node.where === null || node.where === undefined) {
+        /*
+         * BigQuery requires WHERE clause for DELETE statements
+         * Add WHERE TRUE to allow the query to execute
+         */
+        super.visitDeleteQuery(node);
+        this.append(' where true');
+        return;
+      }
       super.visitDeleteQuery(node);
-      this.append(' where true');
-      return;
-    }
-    super.visitDeleteQuery(node);
+    });
   }
 
   protected override visitTable(node: TableNode): void {
@@ -284,4 +806,299 @@ export class BigQueryCompiler extends MysqlQueryCompiler {
     /* BigQuery requires NOT ENFORCED for all constraints */
     this.append(' not enforced');
   }
+
+  /**
+   * Runs a visit with the tables of a query in scope, so column references
+   * inside it can be resolved to their table.
+   */
+  #withScope(tables: ReadonlyArray<OperationNode | undefined>, visit: () => void): void {
+    if (!this.#columnTypes?.size) {
+      visit();
+      return;
+    }
+
+    const scope = new Map<string, string>();
+    for (const table of tables) {
+      if (table?.kind === 'TableNode') {
+        const name = getTableName(table as TableNode);
+        scope.set(name, name);
+        scope.set((table as TableNode).table.identifier.name, name);
+      } else if (table?.kind === 'AliasNode') {
+        const { node, alias } = table as AliasNode;
+        if (node.kind === 'TableNode' && alias.kind === 'IdentifierNode') {
+          scope.set((alias as IdentifierNode).name, getTableName(node as TableNode));
+        }
+      }
+    }
+
+    this.#scopes.push(scope);
+    try {
+      visit();
+    } finally {
+      this.#scopes.pop();
+    }
+  }
+
+  /**
+   * Runs a visit with the type that null values in it are sent with.
+   */
+  #withValueType(type: string | undefined, visit: () => void): void {
+    const previous = this.#valueType;
+    this.#valueType = type;
+    try {
+      visit();
+    } finally {
+      this.#valueType = previous;
+    }
+  }
+
+  /**
+   * Returns the registered type of a column reference, resolving unqualified
+   * columns against the tables in scope, innermost query first.
+   */
+  #columnType(node: OperationNode): string | undefined {
+    const columnTypes = this.#columnTypes;
+    if (!columnTypes?.size) {
+      return undefined;
+    }
+
+    let column: OperationNode = node;
+    let table: TableNode | undefined;
+    if (node.kind === 'ReferenceNode') {
+      ({ column, table } = node as ReferenceNode);
+    }
+    if (column.kind !== 'ColumnNode') {
+      return undefined;
+    }
+    const columnName = (column as ColumnNode).column.name;
+
+    if (table) {
+      const tableName = getTableName(table);
+      for (let i = this.#scopes.length - 1; i >= 0; i--) {
+        const scopedTable = this.#scopes[i]?.get(tableName);
+        if (scopedTable !== undefined) {
+          return columnTypes.getColumnType(scopedTable, columnName);
+        }
+      }
+      return columnTypes.getColumnType(tableName, columnName);
+    }
+
+    for (let i = this.#scopes.length - 1; i >= 0; i--) {
+      const types = new Set<string>();
+      for (const scopedTable of new Set(this.#scopes[i]?.values())) {
+        const type = columnTypes.getColumnType(scopedTable, columnName);
+        if (type !== undefined) {
+          types.add(type);
+        }
+      }
+      if (types.size > 0) {
+        /* Ambiguous when tables in the same scope disagree on the type */
+        return types.size === 1 ? [...types][0] : undefined;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the column types for a row of insert values, when compiling one.
+   */
+  #rowColumnTypes(): (string | undefined)[] | undefined {
+    return this.parentNode?.kind === 'ValuesNode' ? this.#insertColumnTypes : undefined;
+  }
+}
+
+/**
+ * Qualifies the unqualified column references of an upsert's updates with the
+ * target table, which they refer to in ON CONFLICT and ON DUPLICATE KEY
+ * UPDATE. In MERGE they would be ambiguous with the columns of the source.
+ * MySQL's `VALUES(column)` becomes a reference to the column of the source.
+ */
+class UpsertTargetTransformer extends OperationNodeTransformer {
+  readonly #table: TableNode;
+  readonly #source: TableNode;
+
+  constructor(table: TableNode, source: TableNode) {
+    super();
+    this.#table = table;
+    this.#source = source;
+  }
+
+  protected override transformNodeImpl<T extends OperationNode>(node: T, queryId?: QueryId): T {
+    const func = node as OperationNode as FunctionNode;
+    if (func.kind === 'FunctionNode' && func.func.toLowerCase() === 'values') {
+      const [column, ...rest] = func.arguments;
+      const name = column && !rest.length ? getUnqualifiedColumn(column) : undefined;
+      if (!name) {
+        throw new Error(
+          `BigQuery upserts only support VALUES() of a single column. Refer to the inserted values as ${UPSERT_SOURCE}.column instead.`,
+        );
+      }
+      /* A reference replaces the function, so the node is no longer of its kind */
+      return ReferenceNode.create(name, this.#source) as OperationNode as T;
+    }
+    return super.transformNodeImpl(node, queryId);
+  }
+
+  protected override transformReference(node: ReferenceNode): ReferenceNode {
+    if (node.table || node.column.kind !== 'ColumnNode') {
+      return node;
+    }
+    return ReferenceNode.create(node.column, this.#table);
+  }
+
+  protected override transformRaw(node: RawNode): RawNode {
+    if (node.sqlFragments.some((fragment) => VALUES_FUNCTION_PATTERN.test(fragment))) {
+      throw new Error(
+        `BigQuery upserts do not support VALUES() in raw SQL. Refer to the inserted values as ${UPSERT_SOURCE}.column instead.`,
+      );
+    }
+    return super.transformRaw(node);
+  }
+
+  protected override transformSelectQuery(node: SelectQueryNode): SelectQueryNode {
+    /* Columns of subqueries refer to their own tables */
+    return node;
+  }
+}
+
+/**
+ * Returns the column of an unqualified column reference, e.g. the argument
+ * of `VALUES(name)`.
+ */
+function getUnqualifiedColumn(node: OperationNode): ColumnNode | undefined {
+  if (node.kind === 'ColumnNode') {
+    return node as ColumnNode;
+  }
+  const reference = node as ReferenceNode;
+  return node.kind === 'ReferenceNode' && !reference.table && reference.column.kind === 'ColumnNode'
+    ? reference.column
+    : undefined;
+}
+
+/**
+ * Returns the dotted name of a table (e.g., 'dataset.table').
+ */
+function getTableName(node: TableNode): string {
+  const { schema, identifier } = node.table;
+  return schema ? `${schema.name}.${identifier.name}` : identifier.name;
+}
+
+/**
+ * Whether an insert has no columns, as built by `thenInsertValues({})`.
+ */
+function isEmptyInsert(node: InsertQueryNode): boolean {
+  const rows = node.values?.kind === 'ValuesNode' ? (node.values as ValuesNode).values : [];
+  return (node.columns ?? []).length === 0 && rows.length === 1 && rows[0]?.values.length === 0;
+}
+
+/**
+ * Returns the MATCHED condition of a WHEN clause of a MERGE, e.g.
+ * `not matched` for `WHEN NOT MATCHED AND x > 1`.
+ */
+function getMatchedNode(condition: OperationNode): MatchedNode | undefined {
+  if (condition.kind === 'MatchedNode') {
+    return condition as MatchedNode;
+  }
+  if (condition.kind === 'AndNode') {
+    return getMatchedNode((condition as AndNode).left);
+  }
+  return undefined;
+}
+
+/**
+ * Removes `then do nothing` clauses from a MERGE, which BigQuery does not
+ * support. A row takes the first WHEN clause it matches, so leaving out a
+ * DO NOTHING clause only keeps the result when no clause of the same kind
+ * follows it.
+ * @throws Error if a clause of the same kind follows a DO NOTHING clause, or
+ *   no other clause remains
+ */
+function removeDoNothing(whens: ReadonlyArray<WhenNode>): WhenNode[] {
+  const kindOf = (when: WhenNode) => {
+    const matched = getMatchedNode(when.condition);
+    return matched ? `${matched.not}:${matched.bySource}` : undefined;
+  };
+  const isDoNothing = (when: WhenNode) =>
+    when.result?.kind === 'RawNode' &&
+    (when.result as RawNode).sqlFragments.join('').trim().toLowerCase() === 'do nothing';
+
+  const remaining = whens.filter((when, i) => {
+    if (!isDoNothing(when)) {
+      return true;
+    }
+    const kind = kindOf(when);
+    if (whens.slice(i + 1).some((later) => !isDoNothing(later) && kindOf(later) === kind)) {
+      throw new Error(
+        'BigQuery MERGE does not support DO NOTHING. Leave out the clause, or add its condition negated to the later WHEN clauses of the same kind.',
+      );
+    }
+    return false;
+  });
+  if (remaining.length === 0 && whens.length > 0) {
+    throw new Error('BigQuery MERGE needs at least one WHEN clause other than DO NOTHING.');
+  }
+  return remaining;
+}
+
+/**
+ * Returns the QUALIFY condition of an end modifier of a select query, as added
+ * by `qualify()` or `modifyEnd(sql\`qualify ...\`)`.
+ */
+function getQualifyCondition(node: SelectModifierNode): RawNode | undefined {
+  const raw = node.rawModifier;
+  return raw?.kind === 'RawNode' && QUALIFY_PATTERN.test((raw as RawNode).sqlFragments[0] ?? '')
+    ? (raw as RawNode)
+    : undefined;
+}
+
+/**
+ * Whether a node is a null value.
+ */
+function isNullValue(node: OperationNode): boolean {
+  return node.kind === 'ValueNode' && (node as ValueNode).value === null;
+}
+
+/**
+ * Infers the type of a column from its values in the rows of an upsert, for
+ * the nulls among them: the type of the first typed value, and FLOAT64 for
+ * numbers when any of them is not an integer.
+ * @param nodes - Value of the column in each row
+ */
+function inferColumnValueType(nodes: ReadonlyArray<OperationNode | undefined>): string | undefined {
+  const values = nodes
+    .filter((node): node is ValueNode => node?.kind === 'ValueNode')
+    .map((node) => node.value)
+    .filter((value) => value !== null && value !== undefined);
+  if (values.some((value) => typeof value === 'number')) {
+    return values.every((value) => typeof value !== 'number' || Number.isInteger(value))
+      ? 'INT64'
+      : 'FLOAT64';
+  }
+  for (const value of values) {
+    const type = getParameterType(value) ?? getExactValueType(value);
+    if (type !== undefined) {
+      return typeof type === 'string' ? type : undefined;
+    }
+    if (typeof value === 'boolean') {
+      return 'BOOL';
+    }
+    if (value instanceof Date) {
+      return 'TIMESTAMP';
+    }
+    if (value instanceof Buffer) {
+      return 'BYTES';
+    }
+    if (typeof value === 'string') {
+      return 'STRING';
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a node is a plain value or list of values, whose nulls take the
+ * type of the column they are compared with.
+ */
+function isValueNode(node: OperationNode): boolean {
+  return node.kind === 'ValueNode' || node.kind === 'PrimitiveValueListNode';
 }
@@ -1,10 +1,199 @@
-import { BigQuery, type Dataset, type Query, type Table } from '@google-cloud/bigquery';
+import {
+  BigQuery,
+  type Dataset,
+  type Job,
+  type JobMetadata,
+  type Query,
+  type QueryResultsOptions,
+  type Table,
+  type TableField,
+  type TableSchema,
+} from '@google-cloud/bigquery';
 import { type CompiledQuery, type DatabaseConnection, type QueryResult } from 'kysely';
 
+import {
+  BigQueryCancelledError,
+  type BigQueryQueryError,
+  createBigQueryError,
+} from './BigQueryErrors';
+import {
+  type BigQueryJobOptions,
+  getQueryJobOptions,
+  mergeJobOptions,
+  toQueryJobConfig,
+} from './BigQueryJobOptionsPlugin';
+import {
+  type BigQueryParameterType,
+  getExactValueType,
+  getParameterName,
+  getParameterType,
+  getParameterValue,
+  parseParameterType,
+  toQueryValue,
+} from './BigQueryParameters';
+import {
+  type BigQueryQueryHooks,
+  BigQueryQueryObserver,
+  type BigQueryTracer,
+} from './BigQueryQueryHooks';
+import { BigQueryQueryJob } from './BigQueryQueryJob';
+import { BigQueryResultTransformer } from './BigQueryResultTransformer';
+import { BigQueryRetryPolicy } from './BigQueryRetryPolicy';
+import {
+  type BigQueryStorageReadOptions,
+  type BigQueryStorageReadSession,
+  readStorageSession,
+} from './BigQueryStorageReader';
 import { JsonColumnDetector } from './jsonColumnDetector';
 
 import { type BigQueryDialectConfig } from './BigQueryDialect';
 
+/**
+ * Row counts broken down by DML operation, as reported by BigQuery.
+ */
+export interface BigQueryDmlStats {
+  insertedRowCount: bigint;
+  updatedRowCount: bigint;
+  deletedRowCount: bigint;
+}
+
+/**
+ * Query result returned by BigQueryConnection.
+ *
+ * For INSERT, UPDATE, DELETE and MERGE statements, `numAffectedRows` is taken
+ * from the job's `numDmlAffectedRows` statistic and `dmlStats` holds the
+ * per-operation breakdown.
+ */
+export interface BigQueryQueryResult<O> extends QueryResult<O> {
+  numAffectedRows?: bigint;
+  dmlStats?: BigQueryDmlStats;
+  /** Job statistics, when the `queryStatistics` dialect option is enabled */
+  statistics?: BigQueryQueryStatistics;
+}
+
+/**
+ * Statistics of the job that ran a query.
+ */
+export interface BigQueryQueryStatistics {
+  jobId: string;
+  location: string | undefined;
+  /** The compiled SQL that ran */
+  sql: string;
+  /** Labels attached to the job */
+  labels: Record<string, string>;
+  totalBytesProcessed: bigint | undefined;
+  totalBytesBilled: bigint | undefined;
+  totalSlotMs: bigint | undefined;
+  /** Whether the result came from the query cache */
+  cacheHit: boolean;
+  creationTime: Date | undefined;
+  startTime: Date | undefined;
+  endTime: Date | undefined;
+  /** Time between the job starting and finishing */
+  executionTimeMs: number | undefined;
+}
+
+/**
+ * Options for estimating the cost of a query with a dry run.
+ */
+export interface BigQueryDryRunOptions {
+  /**
+   * On-demand price in USD per TiB processed. Defaults to the US multi-region list price.
+   */
+  pricePerTiB?: number;
+}
+
+/**
+ * Result of a dry run: what the query would process and return if it ran.
+ */
+export interface BigQueryDryRunResult {
+  /**
+   * Bytes the query would process.
+   */
+  totalBytesProcessed: bigint;
+
+  /**
+   * Tables the query reads, as `project.dataset.table`.
+   */
+  referencedTables: string[];
+
+  /**
+   * Schema of the query result.
+   */
+  schema: TableField[];
+
+  /**
+   * Estimated on-demand cost in USD, based on `totalBytesProcessed`.
+   * Does not account for per-table billing minimums or capacity pricing.
+   */
+  estimatedCostUsd: number;
+}
+
+/**
+ * How `streamQuery` fetches rows.
+ *
+ * - `rows`: runs the query as a job and streams its rows, buffered into batches.
+ * - `pages`: runs the query as a job and fetches one page of results per batch.
+ * - `storage`: runs the query as a job and reads its destination table with the
+ *   Storage Read API, using the client from the `storageRead` option.
+ */
+export type BigQueryStreamMode = 'rows' | 'pages' | 'storage';
+
+const ON_DEMAND_PRICE_PER_TIB = 6.25;
+const BYTES_PER_TIB = 1024 ** 4;
+
+const DML_QUERY_KINDS = new Set([
+  'InsertQueryNode',
+  'UpdateQueryNode',
+  'DeleteQueryNode',
+  'MergeQueryNode',
+]);
+const DML_STATEMENT_PATTERN = /^\s*(insert|update|delete|merge)\b/i;
+
+const toBigInt = (value: string | number | null | undefined) =>
+  value === undefined || value === null ? undefined : BigInt(value);
+
+const toDate = (value: string | number | null | undefined) =>
+  value === undefined || value === null ? undefined : new Date(Number(value));
+
+/**
+ * Reads the statistics of a finished query job from its metadata.
+ */
+function readQueryStatistics(
+  job: Job,
+  metadata: JobMetadata,
+  sql: string,
+): BigQueryQueryStatistics {
+  const statistics = metadata.statistics;
+  const startTime = toDate(statistics?.startTime);
+  const endTime = toDate(statistics?.endTime);
+
+  return {
+    jobId: metadata.jobReference?.jobId ?? (job.id as string),
+    location: metadata.jobReference?.location ?? job.location,
+    sql,
+    labels: metadata.configuration?.labels ?? {},
+    totalBytesProcessed: toBigInt(
+      statistics?.query?.totalBytesProcessed ?? statistics?.totalBytesProcessed,
+    ),
+    totalBytesBilled: toBigInt(statistics?.query?.totalBytesBilled),
+    totalSlotMs: toBigInt(statistics?.query?.totalSlotMs ?? statistics?.totalSlotMs),
+    cacheHit: statistics?.query?.cacheHit ?? false,
+    creationTime: toDate(statistics?.creationTime),
+    startTime,
+    endTime,
+    executionTimeMs: startTime && endTime ? endTime.getTime() - startTime.getTime() : undefined,
+  };
+}
+
+/**
+ * A batch of streamed rows, with the schema of the result when it was read.
+ */
+interface RowBatch {
+  rows: Record<string, unknown>[];
+  schema: TableSchema | undefined;
+}
+
 /**
  * BigQuery database connection implementation for Kysely.
  *
@@ -14,6 +203,17 @@ export class BigQueryConnection implements DatabaseConnection {
   readonly #client: BigQuery | Dataset | Table;
   readonly #jsonDetector: JsonColumnDetector;
   readonly #jsonColumnNames: Set<string>;
+  readonly #jobDefaults: BigQueryJobOptions | undefined;
+  readonly #retryPolicy: BigQueryRetryPolicy | undefined;
+  readonly #streamMode: BigQueryStreamMode;
+  readonly #storageRead: BigQueryStorageReadOptions | undefined;
+  readonly #attachStatistics: boolean;
+  readonly #onQueryStatistics: BigQueryDialectConfig['onQueryStatistics'];
+  readonly #hooks: BigQueryQueryHooks | undefined;
+  readonly #tracer: BigQueryTracer | undefined;
+  readonly #namedParameters: boolean;
+  readonly #resultTransformer: BigQueryResultTransformer;
+  #sessionId: string | undefined;
 
   constructor(config: BigQueryDialectConfig) {
     this.#client = config.bigquery ?? new BigQuery(config.options);
@@ -27,135 +227,906 @@ export class BigQueryConnection implements DatabaseConnection {
     }
 
     this.#jsonColumnNames = this.#jsonDetector.getRegisteredJsonColumnNames();
+    this.#jobDefaults = config.jobDefaults;
+    this.#retryPolicy = config.retry ? new BigQueryRetryPolicy(config.retry) : undefined;
+    this.#streamMode = config.streamMode ?? 'rows';
+    this.#storageRead = config.storageRead;
+    this.#attachStatistics = config.queryStatistics ?? false;
+    this.#onQueryStatistics = config.onQueryStatistics;
+    this.#hooks = config.hooks;
+    this.#tracer = config.tracer;
+    this.#namedParameters = config.namedParameters ?? false;
+    this.#resultTransformer = new BigQueryResultTransformer({
+      int64AsBigInt: config.int64AsBigInt,
+      parseNumeric: config.parseNumeric,
+      dateTimeResults: config.dateTimeResults,
+      geographyAsGeoJson: config.geographyAsGeoJson,
+      parseIntervals: config.parseIntervals,
+      parseRanges: config.parseRanges,
+      transformers: config.resultTransformers,
+    });
   }
 
   /**
    * Executes a compiled query against BigQuery.
    * @param compiledQuery - The compiled query with SQL and parameters
    * @returns A promise that resolves to the query results
-   * @throws Error if the query fails or if null parameters are not properly typed
+   * @throws BigQueryQueryError (or a subclass matching the failure reason) if the query fails
    */
-  async executeQuery<O>(compiledQuery: CompiledQuery): Promise<QueryResult<O>> {
+  async executeQuery<O>(compiledQuery: CompiledQuery): Promise<BigQueryQueryResult<O>> {
+    const isDml = this.#isDmlQuery(compiledQuery);
+    const retryPolicy = this.#activeRetryPolicy();
+    const observer = this.#observe(compiledQuery.sql);
+
     try {
-      const params = [...compiledQuery.parameters];
+      const result = retryPolicy
+        ? await retryPolicy.run(
+            () => this.#executeQueryOnce<O>(compiledQuery, isDml, observer),
+            compiledQuery.sql,
+            isDml,
+            {
+              onRetry: (event) => observer?.retried(event),
+              onCallbackError: (error) => observer?.hookFailed('onRetry', error),
+              signal: this.#querySignal(compiledQuery),
+            },
+          )
+        : await this.#executeQueryOnce<O>(compiledQuery, isDml, observer);
+      observer?.succeeded();
+      return result;
+    } catch (error) {
+      observer?.failed(error);
+      throw error;
+    }
+  }
 
-      /* Process parameters to handle nulls and JSON serialization */
-      const processedParams = this.#jsonDetector.processParameters(compiledQuery, params);
+  async #executeQueryOnce<O>(
+    compiledQuery: CompiledQuery,
+    isDml: boolean,
+    observer: BigQueryQueryObserver | undefined,
+  ): Promise<BigQueryQueryResult<O>> {
+    const signal = this.#querySignal(compiledQuery);
 
-      const options: Query = {
-        query: compiledQuery.sql,
-        params: processedParams,
-        parseJSON: true,
-      };
+    try {
+      const options = this.#buildQueryOptions(compiledQuery);
+      this.#throwIfAborted(signal, compiledQuery.sql);
 
-      /* BigQuery needs types array for ALL parameters when there are null parameters */
-      if (processedParams.some((p) => p === null)) {
-        options.types = this.#inferParamTypes(processedParams);
+      if (isDml) {
+        return await this.#executeDml<O>(compiledQuery, options, signal, observer);
       }
 
-      const [rows] = await this.#client.query(options);
+      /*
+       * Queries that can be cancelled or report statistics need a job handle,
+       * as do INTERVAL results, which are only recognized by the job's schema
+       */
+      if (signal || this.#needsJobStatistics() || this.#resultTransformer.needsSchema) {
+        return await this.#executeQueryJob<O>(compiledQuery, options, signal, observer);
+      }
 
-      const processedRows = Array.isArray(rows)
-        ? rows.map((row) => this.#processResultRow(row as Record<string, unknown>))
-        : [];
+      const [rows] = await this.#client.query(options);
 
       return {
-        rows: processedRows as O[],
+        rows: this.#processResultRows<O>(rows),
       };
     } catch (error) {
       /* Provide more helpful error messages */
-      if (error instanceof Error) {
-        if (
-          error.message.includes('Parameter types must be provided for null values') ||
-          error.message.includes('Incorrect number of parameter types provided')
-        ) {
-          throw new Error(
-            `BigQuery query failed: ${error.message}\n` +
-              'Hint: The BigQuery dialect now automatically handles null parameters. ' +
-              "If you're still seeing this error, please report it as a bug.",
-          );
-        }
-        throw new Error(`BigQuery query failed: ${error.message}`);
-      }
-      throw error;
+      const hint =
+        error instanceof Error &&
+        (error.message.includes('Parameter types must be provided for null values') ||
+          error.message.includes('Incorrect number of parameter types provided'))
+          ? 'Hint: The BigQuery dialect now automatically handles null parameters. ' +
+            "If you're still seeing this error, please report it as a bug."
+          : undefined;
+      throw createBigQueryError(error, 'BigQuery query failed', { sql: compiledQuery.sql }, hint);
+    }
+  }
+
+  /**
+   * Submits a compiled query as a job without waiting for it to finish.
+   * Parameters are processed exactly as they are for `executeQuery`.
+   * @param compiledQuery - The compiled query with SQL and parameters
+   * @returns A handle to poll, wait for, read or cancel the job
+   * @throws BigQueryQueryError if the job cannot be created
+   */
+  async submitQuery<O>(compiledQuery: CompiledQuery): Promise<BigQueryQueryJob<O>> {
+    const options = this.#buildQueryOptions(compiledQuery);
+
+    let job: Job;
+    try {
+      [job] = await this.#client.createQueryJob(options);
+    } catch (error) {
+      throw createBigQueryError(error, 'BigQuery query failed', { sql: compiledQuery.sql });
+    }
+    return new BigQueryQueryJob<O>(
+      job,
+      (row, schema) => this.#processResultRow(row, schema) as O,
+      this.#resultOptions(),
+    );
+  }
+
+  /**
+   * Returns a handle to a query job submitted earlier.
+   * @param jobId - Id of the job
+   * @param location - Location the job runs in, required outside the US and EU multi-regions
+   * @returns A handle to poll, wait for, read or cancel the job
+   */
+  getQueryJob<O>(jobId: string, location?: string): BigQueryQueryJob<O> {
+    const client = 'bigQuery' in this.#client ? this.#client.bigQuery : this.#client;
+    const job = client.job(jobId, location === undefined ? {} : { location });
+    return new BigQueryQueryJob<O>(
+      job,
+      (row, schema) => this.#processResultRow(row, schema) as O,
+      this.#resultOptions(),
+    );
+  }
+
+  /**
+   * Submits a compiled query as a dry run without executing it.
+   * Parameters are processed exactly as they are for a real run.
+   * @param compiledQuery - The compiled query with SQL and parameters
+   * @param dryRunOptions - Pricing used for the cost estimate
+   * @returns Bytes processed, referenced tables, result schema and estimated cost
+   */
+  async dryRun(
+    compiledQuery: CompiledQuery,
+    dryRunOptions: BigQueryDryRunOptions = {},
+  ): Promise<BigQueryDryRunResult> {
+    const options: Query = { ...this.#buildQueryOptions(compiledQuery), dryRun: true };
+
+    let metadata: JobMetadata;
+    try {
+      [, metadata] = await this.#client.createQueryJob(options);
+    } catch (error) {
+      throw createBigQueryError(error, 'BigQuery dry run failed', { sql: compiledQuery.sql });
+    }
+
+    const statistics = metadata.statistics?.query;
+    const totalBytesProcessed = BigInt(
+      statistics?.totalBytesProcessed ?? metadata.statistics?.totalBytesProcessed ?? 0,
+    );
+    const pricePerTiB = dryRunOptions.pricePerTiB ?? ON_DEMAND_PRICE_PER_TIB;
+
+    return {
+      totalBytesProcessed,
+      referencedTables: (statistics?.referencedTables ?? []).map((table) =>
+        [table.projectId, table.datasetId, table.tableId].filter(Boolean).join('.'),
+      ),
+      schema: statistics?.schema?.fields ?? [],
+      estimatedCostUsd: (Number(totalBytesProcessed) / BYTES_PER_TIB) * pricePerTiB,
+    };
+  }
+
+  /**
+   * Begins a transaction inside a new BigQuery session.
+   *
+   * Every query issued through this connection afterwards is pinned to the
+   * session, so the statements between BEGIN and COMMIT run atomically.
+   */
+  async beginTransaction(): Promise<void> {
+    if (this.#sessionId !== undefined) {
+      throw new Error('A transaction is already in progress on this connection.');
+    }
+
+    const metadata = await this.#runStatement('BEGIN TRANSACTION', { createSession: true });
+    const sessionId = metadata.statistics?.sessionInfo?.sessionId;
+
+    if (!sessionId) {
+      throw new Error('BigQuery did not return a session id for the transaction.');
     }
+    this.#sessionId = sessionId;
   }
 
   /**
-   * Begins a transaction (not supported by BigQuery).
-   * @returns A rejected promise as BigQuery doesn't support transactions
+   * Commits the transaction running in this connection's session.
    */
-  beginTransaction(): Promise<void> {
-    return Promise.reject(new Error('Transactions are not supported.'));
+  async commitTransaction(): Promise<void> {
+    this.#assertInSession();
+    await this.#runStatement('COMMIT TRANSACTION');
   }
 
   /**
-   * Commits a transaction (not supported by BigQuery).
-   * @returns A rejected promise as BigQuery doesn't support transactions
+   * Rolls back the transaction running in this connection's session and
+   * aborts the session.
+   *
+   * A failing ROLLBACK, e.g. because BigQuery already aborted the transaction
+   * after a failed statement, is ignored: aborting the session discards the
+   * transaction anyway, and rejecting here would hide the error that caused
+   * the rollback.
    */
-  commitTransaction(): Promise<void> {
-    return Promise.reject(new Error('Transactions are not supported.'));
+  async rollbackTransaction(): Promise<void> {
+    this.#assertInSession();
+    try {
+      await this.#runStatement('ROLLBACK TRANSACTION');
+    } catch {
+      /* The session abort below ends whatever is left of the transaction */
+    } finally {
+      await this.releaseSession();
+    }
   }
 
   /**
-   * Rolls back a transaction (not supported by BigQuery).
-   * @returns A rejected promise as BigQuery doesn't support transactions
+   * Aborts the BigQuery session held by this connection, if any.
+   * Called by the driver when the connection is released.
+   *
+   * Never rejects: by now the transaction has been committed or rolled back,
+   * and BigQuery ends an idle session on its own. A failed abort is reported
+   * to `onQueryFailed` and the tracer instead.
    */
-  rollbackTransaction(): Promise<void> {
-    return Promise.reject(new Error('Transactions are not supported.'));
+  async releaseSession(): Promise<void> {
+    if (this.#sessionId === undefined) {
+      return;
+    }
+
+    const statement = 'CALL BQ.ABORT_SESSION()';
+    try {
+      await this.#runStatement(statement);
+    } catch (error) {
+      this.#observe(statement)?.failed(error);
+    } finally {
+      this.#sessionId = undefined;
+    }
   }
 
   /**
    * Streams query results for handling large datasets.
+   *
+   * Rows are yielded in batches of up to `chunkSize`. The next batch is only
+   * fetched once the consumer asks for it, so slow consumers apply backpressure
+   * to the underlying stream or page requests.
+   *
+   * Streams backed by a job cancel it when the consumer stops early or the
+   * query's AbortSignal aborts.
    * @param compiledQuery - The compiled query with SQL and parameters
-   * @param _chunkSize - Chunk size parameter (currently unused)
+   * @param chunkSize - Maximum number of rows per yielded result
    * @returns An async iterator that yields query results in batches
    */
   async *streamQuery<O>(
     compiledQuery: CompiledQuery,
-    _chunkSize: number,
+    chunkSize: number,
   ): AsyncIterableIterator<QueryResult<O>> {
-    const params = [...compiledQuery.parameters];
+    if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+      throw new Error('chunkSize must be a positive integer');
+    }
+
+    const options = this.#buildQueryOptions(compiledQuery);
+    const signal = this.#querySignal(compiledQuery);
+    const retryPolicy = this.#activeRetryPolicy();
+    const observer = this.#observe(compiledQuery.sql);
+    let rowCount = 0;
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        let started = false;
+
+        try {
+          this.#throwIfAborted(signal, compiledQuery.sql);
+          const batches = this.#readQuery(options, compiledQuery.sql, chunkSize, signal, observer);
+
+          for await (const { rows, schema } of batches) {
+            started = true;
+            rowCount += rows.length;
+            yield {
+              rows: rows.map((row) => this.#processResultRow(row, schema) as O),
+            };
+          }
+          return;
+        } catch (error) {
+          /* Only retry while no rows have been yielded, so consumers never see duplicates */
+          if (started || !retryPolicy?.shouldRetry(error, attempt, false)) {
+            throw error;
+          }
+          await retryPolicy.backoff(error as BigQueryQueryError, attempt, compiledQuery.sql, {
+            onRetry: (event) => observer?.retried(event),
+            onCallbackError: (callbackError) => observer?.hookFailed('onRetry', callbackError),
+            signal,
+          });
+        }
+      }
+    } catch (error) {
+      observer?.failed(error);
+      throw error;
+    } finally {
+      /* Also reached when the consumer stops early */
+      observer?.streamEnded(rowCount);
+    }
+  }
+
+  /**
+   * Reads the query in batches using the configured stream mode.
+   */
+  #readQuery(
+    options: Query,
+    sql: string,
+    chunkSize: number,
+    signal: AbortSignal | undefined,
+    observer: BigQueryQueryObserver | undefined,
+  ): AsyncIterableIterator<RowBatch> {
+    switch (this.#streamMode) {
+      case 'pages':
+        return this.#readQueryPages(options, sql, chunkSize, signal, observer);
+      case 'storage':
+        return this.#readQueryStorage(options, sql, chunkSize, signal, observer);
+      default:
+        return this.#readQueryStream(options, sql, chunkSize, signal, observer);
+    }
+  }
+
+  /**
+   * Runs the query as a job and streams the job's rows, buffering them into
+   * batches. The job is cancelled when `signal` aborts or the consumer stops
+   * early, so it does not keep running after the stream is abandoned.
+   * Errors are converted into typed errors.
+   */
+  async *#readQueryStream(
+    options: Query,
+    sql: string,
+    chunkSize: number,
+    signal: AbortSignal | undefined,
+    observer: BigQueryQueryObserver | undefined,
+  ): AsyncIterableIterator<RowBatch> {
+    let job: Job;
+    let schema: TableSchema | undefined;
+    try {
+      job = await this.#createQueryJob(options, observer);
+    } catch (error) {
+      throw createBigQueryError(error, 'BigQuery stream query failed', { sql });
+    }
+
+    /* The row stream does not expose the schema, so read it from the job first */
+    if (this.#resultTransformer.needsSchema) {
+      try {
+        const [, , response] = await this.#untilAborted(
+          job,
+          job.getQueryResults({ maxResults: 0 }),
+          signal,
+          sql,
+        );
+        schema = response?.schema;
+      } catch (error) {
+        this.#cancelJob(job);
+        throw createBigQueryError(error, 'BigQuery stream error', { sql, jobId: job.id });
+      }
+    }
+
+    const stream = job.getQueryResultsStream(this.#resultOptions());
+    const onAbort = () => {
+      this.#cancelJob(job);
+      if (signal) {
+        stream.destroy(this.#cancelledError(signal, sql, job.id));
+      }
+    };
+    let finished = false;
+
+    try {
+      if (signal?.aborted) {
+        onAbort();
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      for await (const rows of this.#batchRows(stream, sql, chunkSize, job.id)) {
+        yield { rows, schema };
+      }
+      finished = true;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      if (!finished) {
+        this.#cancelJob(job);
+        stream.destroy();
+      }
+    }
+  }
+
+  /**
+   * Buffers the rows of a row stream into batches of `chunkSize`.
+   */
+  async *#batchRows(
+    stream: AsyncIterable<unknown>,
+    sql: string,
+    chunkSize: number,
+    jobId?: string,
+  ): AsyncIterableIterator<Record<string, unknown>[]> {
+    let batch: Record<string, unknown>[] = [];
+    try {
+      for await (const row of stream) {
+        batch.push(row as Record<string, unknown>);
+        if (batch.length >= chunkSize) {
+          yield batch;
+          batch = [];
+        }
+      }
+    } catch (error) {
+      /* Handle stream errors */
+      throw createBigQueryError(error, 'BigQuery stream error', { sql, jobId });
+    }
+
+    if (batch.length > 0) {
+      yield batch;
+    }
+  }
+
+  /**
+   * Runs the query as a job and reads its results one page of `chunkSize` rows at a time.
+   * Errors are converted into typed errors.
+   */
+  async *#readQueryPages(
+    options: Query,
+    sql: string,
+    chunkSize: number,
+    signal: AbortSignal | undefined,
+    observer: BigQueryQueryObserver | undefined,
+  ): AsyncIterableIterator<RowBatch> {
+    let job: Job;
+    try {
+      job = await this.#createQueryJob(options, observer);
+    } catch (error) {
+      throw createBigQueryError(error, 'BigQuery stream query failed', { sql });
+    }
+
+    let pageToken: string | undefined;
+    let finished = false;
+    try {
+      do {
+        let rows: Record<string, unknown>[];
+        let nextQuery: QueryResultsOptions | null | undefined;
+        let response: { schema?: TableSchema } | undefined;
+        try {
+          const page = job.getQueryResults({
+            ...this.#resultOptions(),
+            maxResults: chunkSize,
+            autoPaginate: false,
+            ...(pageToken === undefined ? {} : { pageToken }),
+          });
+          [rows, nextQuery, response] = (await this.#untilAborted(job, page, signal, sql)) as [
+            Record<string, unknown>[],
+            QueryResultsOptions | null | undefined,
+            { schema?: TableSchema } | undefined,
+          ];
+        } catch (error) {
+          throw createBigQueryError(error, 'BigQuery stream error', { sql, jobId: job.id });
+        }
+
+        if (rows.length > 0) {
+          yield { rows, schema: response?.schema };
+        }
+        pageToken = nextQuery?.pageToken;
+      } while (pageToken);
+      finished = true;
+    } finally {
+      if (!finished) {
+        this.#cancelJob(job);
+      }
+    }
+  }
+
+  /**
+   * Runs the query as a job, then reads its destination table through the
+   * Storage Read API with parallel streams. Errors are converted into typed errors.
+   */
+  async *#readQueryStorage(
+    options: Query,
+    sql: string,
+    chunkSize: number,
+    signal: AbortSignal | undefined,
+    observer: BigQueryQueryObserver | undefined,
+  ): AsyncIterableIterator<RowBatch> {
+    const storageRead = this.#storageRead;
+    if (!storageRead) {
+      throw new Error('The "storage" stream mode requires the storageRead option.');
+    }
+
+    let jobId: string | undefined;
+    let session: BigQueryStorageReadSession;
+    let schema: TableSchema | undefined;
+    try {
+      const job = await this.#createQueryJob(options, observer);
+      jobId = job.id;
+
+      /* Wait for the job so its anonymous destination table is complete */
+      const [, , response] = await this.#untilAborted(
+        job,
+        job.getQueryResults({ maxResults: 0 }),
+        signal,
+        sql,
+      );
+      schema = response?.schema;
+      const [metadata] = (await job.getMetadata()) as [JobMetadata, unknown];
+      const table = metadata.configuration?.query?.destinationTable;
+      if (!table?.projectId || !table.datasetId || !table.tableId) {
+        throw new Error('The query job has no destination table to read from.');
+      }
+
+      session = await storageRead.client.createReadSession({
+        table: `projects/${table.projectId}/datasets/${table.datasetId}/tables/${table.tableId}`,
+        dataFormat: storageRead.dataFormat ?? 'ARROW',
+        maxStreams: storageRead.maxStreams ?? 0,
+      });
+    } catch (error) {
+      throw createBigQueryError(error, 'BigQuery storage read failed', { sql, jobId });
+    }
+
+    try {
+      /* The job has finished at this point, so aborting only stops the read */
+      for await (const rows of readStorageSession(session, chunkSize, signal)) {
+        this.#throwIfAborted(signal, sql, jobId);
+        yield { rows, schema };
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        throw this.#cancelledError(signal, sql, jobId);
+      }
+      throw createBigQueryError(error, 'BigQuery stream error', { sql, jobId });
+    }
+  }
+
+  /**
+   * Builds the BigQuery query options for a compiled query.
+   * Serializes registered JSON columns and adds parameter types when needed.
+   */
+  #buildQueryOptions(compiledQuery: CompiledQuery): Query {
+    const params = compiledQuery.parameters.map(getParameterValue);
 
     /* Process parameters to handle nulls and JSON serialization */
     const processedParams = this.#jsonDetector.processParameters(compiledQuery, params);
 
+    const jobOptions = mergeJobOptions(this.#jobDefaults, getQueryJobOptions(compiledQuery));
+
+    const types = this.#buildParamTypes(compiledQuery.parameters, processedParams);
+    const values = processedParams.map((value, i) => toQueryValue(value, types?.[i]));
+
     const options: Query = {
       query: compiledQuery.sql,
-      params: processedParams,
-      parseJSON: true,
+      params: values,
+      ...this.#resultOptions(),
+      ...toQueryJobConfig(jobOptions),
+      ...this.#sessionOptions(),
     };
 
-    /* BigQuery needs types array for ALL parameters when there are null parameters */
-    if (processedParams.some((p) => p === null)) {
-      options.types = this.#inferParamTypes(processedParams);
+    if (this.#namedParameters) {
+      const names = compiledQuery.parameters.map(getParameterName);
+      options.params = Object.fromEntries(names.map((name, i) => [name, values[i]]));
+      if (types) {
+        options.types = Object.fromEntries(
+          names.flatMap((name, i) => (types[i] === undefined ? [] : [[name, types[i]]])),
+        ) as NonNullable<Query['types']>;
+      }
+    } else if (types) {
+      options.types = types as NonNullable<Query['types']>;
     }
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let stream: any;
+    return options;
+  }
+
+  /**
+   * Builds the parameter types to send with a query, or undefined when
+   * BigQuery can infer all of them from the values.
+   *
+   * Types given with `bq.param()` are always sent, as is INT64 for bigints.
+   * BigQuery needs a type for every null, so when an untyped null is present
+   * the types of all other parameters are inferred as well.
+   */
+  #buildParamTypes(
+    parameters: readonly unknown[],
+    values: readonly unknown[],
+  ): (BigQueryParameterType | undefined)[] | undefined {
+    const explicitTypes = parameters.map(
+      (parameter, i) => getParameterType(parameter) ?? getExactValueType(values[i]),
+    );
+    const hasUntypedNull = values.some((v, i) => v === null && explicitTypes[i] === undefined);
+
+    if (!hasUntypedNull && explicitTypes.every((t) => t === undefined)) {
+      return undefined;
+    }
+
+    const inferredTypes = hasUntypedNull ? this.#inferParamTypes(values) : [];
+    return explicitTypes.map((type, i) => {
+      if (type !== undefined) {
+        return type;
+      }
+      const inferred = inferredTypes[i];
+      return inferred === undefined ? undefined : parseParameterType(inferred);
+    });
+  }
+
+  /**
+   * Determines whether a compiled query is a DML statement.
+   * Raw SQL is classified by its leading keyword.
+   */
+  #isDmlQuery(compiledQuery: CompiledQuery): boolean {
+    if (DML_QUERY_KINDS.has(compiledQuery.query.kind)) {
+      return true;
+    }
+    return compiledQuery.query.kind === 'RawNode' && DML_STATEMENT_PATTERN.test(compiledQuery.sql);
+  }
+
+  /**
+   * Runs a DML statement as a job so the affected row counts can be read
+   * from the job statistics once it finishes.
+   */
+  async #executeDml<O>(
+    compiledQuery: CompiledQuery,
+    options: Query,
+    signal: AbortSignal | undefined,
+    observer: BigQueryQueryObserver | undefined,
+  ): Promise<BigQueryQueryResult<O>> {
+    const job = await this.#createQueryJob(options, observer);
+
+    /* Dry-run jobs are never executed, so there are no results or row counts */
+    if (options.dryRun) {
+      return { rows: [] };
+    }
+
+    let metadata: JobMetadata;
     try {
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-      stream = this.#client.createQueryStream(options);
+      await this.#untilAborted(job, job.getQueryResults(), signal, options.query ?? '');
+      [metadata] = (await job.getMetadata()) as [JobMetadata, unknown];
     } catch (error) {
-      if (error instanceof Error) {
-        throw new Error(`BigQuery stream query failed: ${error.message}`);
-      }
-      throw error;
+      throw createBigQueryError(error, 'BigQuery query failed', {
+        sql: options.query,
+        jobId: job.id,
+      });
+    }
+
+    const statistics = metadata.statistics?.query;
+    const result: BigQueryQueryResult<O> = { rows: [] };
+
+    if (statistics?.numDmlAffectedRows !== undefined) {
+      result.numAffectedRows = BigInt(statistics.numDmlAffectedRows);
+    }
+    if (statistics?.dmlStats) {
+      result.dmlStats = {
+        insertedRowCount: BigInt(statistics.dmlStats.insertedRowCount ?? 0),
+        updatedRowCount: BigInt(statistics.dmlStats.updatedRowCount ?? 0),
+        deletedRowCount: BigInt(statistics.dmlStats.deletedRowCount ?? 0),
+      };
     }
 
+    return this.#withStatistics(result, job, metadata, compiledQuery, observer);
+  }
+
+  /**
+   * Runs a query as a job and waits for its rows, cancelling the job if `signal` aborts.
+   */
+  async #executeQueryJob<O>(
+    compiledQuery: CompiledQuery,
+    options: Query,
+    signal: AbortSignal | undefined,
+    observer: BigQueryQueryObserver | undefined,
+  ): Promise<BigQueryQueryResult<O>> {
+    const job = await this.#createQueryJob(options, observer);
+
     try {
-      for await (const row of stream) {
-        yield {
-          rows: [this.#processResultRow(row as Record<string, unknown>) as O],
-        };
+      const [rows, , response] = await this.#untilAborted(
+        job,
+        job.getQueryResults(this.#resultOptions()),
+        signal,
+        compiledQuery.sql,
+      );
+      const result: BigQueryQueryResult<O> = {
+        rows: this.#processResultRows<O>(rows, response?.schema),
+      };
+
+      if (!this.#needsJobStatistics()) {
+        return result;
       }
+      const [metadata] = (await job.getMetadata()) as [JobMetadata, unknown];
+      return this.#withStatistics(result, job, metadata, compiledQuery, observer);
     } catch (error) {
-      /* Handle stream errors */
-      if (error instanceof Error) {
-        throw new Error(`BigQuery stream error: ${error.message}`);
+      throw createBigQueryError(error, 'BigQuery query failed', {
+        sql: compiledQuery.sql,
+        jobId: job.id,
+      });
+    }
+  }
+
+  /**
+   * Whether anything consumes job statistics: the result, the statistics
+   * callback, lifecycle hooks or the tracer.
+   */
+  #needsJobStatistics(): boolean {
+    return (
+      this.#attachStatistics ||
+      this.#onQueryStatistics !== undefined ||
+      this.#hooks !== undefined ||
+      this.#tracer !== undefined
+    );
+  }
+
+  /**
+   * Reports the job statistics of a finished query to `onQueryStatistics` and
+   * the query's observer and, when `queryStatistics` is enabled, attaches them
+   * to the result.
+   */
+  #withStatistics<O>(
+    result: BigQueryQueryResult<O>,
+    job: Job,
+    metadata: JobMetadata,
+    compiledQuery: CompiledQuery,
+    observer: BigQueryQueryObserver | undefined,
+  ): BigQueryQueryResult<O> {
+    if (!this.#needsJobStatistics()) {
+      return result;
+    }
+
+    const statistics = readQueryStatistics(job, metadata, compiledQuery.sql);
+    observer?.jobDone(statistics);
+    try {
+      this.#onQueryStatistics?.(statistics, compiledQuery);
+    } catch (error) {
+      /* A failing callback must not turn a successful query into a failure */
+      observer?.hookFailed('onQueryStatistics', error);
+    }
+    if (this.#attachStatistics) {
+      result.statistics = statistics;
+    }
+    return result;
+  }
+
+  #processResultRows<O>(rows: unknown, schema?: TableSchema): O[] {
+    return Array.isArray(rows)
+      ? rows.map((row) => this.#processResultRow(row as Record<string, unknown>, schema) as O)
+      : [];
+  }
+
+  /**
+   * Creates the job for a query and reports it to the query's observer.
+   */
+  async #createQueryJob(options: Query, observer: BigQueryQueryObserver | undefined): Promise<Job> {
+    const [job, metadata] = (await this.#client.createQueryJob(options)) as [
+      Job,
+      JobMetadata | undefined,
+    ];
+    observer?.jobCreated(job, metadata?.status?.state);
+    return job;
+  }
+
+  /**
+   * Starts observing a query when lifecycle hooks or a tracer are configured.
+   */
+  #observe(sql: string): BigQueryQueryObserver | undefined {
+    if (!this.#hooks && !this.#tracer) {
+      return undefined;
+    }
+    return new BigQueryQueryObserver(sql, this.#hooks, this.#tracer);
+  }
+
+  /**
+   * Options for reading a job's results, matching what `BigQuery.query()` uses.
+   */
+  #resultOptions(): QueryResultsOptions {
+    const options: QueryResultsOptions = { parseJSON: true };
+    const int64Transformer = this.#resultTransformer.int64Transformer;
+    if (int64Transformer) {
+      options.wrapIntegers = { integerTypeCastFunction: int64Transformer };
+    }
+    return options;
+  }
+
+  /**
+   * Returns the AbortSignal attached to a query through its job options.
+   */
+  #querySignal(compiledQuery: CompiledQuery): AbortSignal | undefined {
+    return getQueryJobOptions(compiledQuery)?.signal ?? this.#jobDefaults?.signal;
+  }
+
+  /**
+   * Waits for `work`, cancelling `job` and rejecting with BigQueryCancelledError
+   * if `signal` aborts first.
+   */
+  #untilAborted<T>(
+    job: Job,
+    work: Promise<T>,
+    signal: AbortSignal | undefined,
+    sql: string,
+  ): Promise<T> {
+    if (!signal) {
+      return work;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.#cancelJob(job);
+        reject(this.#cancelledError(signal, sql, job.id));
+      };
+
+      if (signal.aborted) {
+        work.catch(() => undefined);
+        onAbort();
+        return;
       }
-      throw error;
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      work.then(
+        (value) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        (error: unknown) => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      );
+    });
+  }
+
+  #throwIfAborted(signal: AbortSignal | undefined, sql: string, jobId?: string): void {
+    if (signal?.aborted) {
+      throw this.#cancelledError(signal, sql, jobId);
+    }
+  }
+
+  #cancelledError(signal: AbortSignal, sql: string, jobId?: string): BigQueryCancelledError {
+    return new BigQueryCancelledError('BigQuery query was cancelled', signal.reason, {
+      sql,
+      jobId,
+    });
+  }
+
+  /**
+   * Requests cancellation of a job. Best effort: the job may already have
+   * finished, and failures to cancel are ignored.
+   */
+  #cancelJob(job: Job): void {
+    job.cancel().catch(() => undefined);
+  }
+
+  /**
+   * Returns the retry policy, unless a transaction is in progress. A failed
+   * statement aborts the transaction, so retrying it inside the session would not help.
+   */
+  #activeRetryPolicy(): BigQueryRetryPolicy | undefined {
+    return this.#sessionId === undefined ? this.#retryPolicy : undefined;
+  }
+
+  /**
+   * Returns the query options that pin a query to the active session.
+   * Empty when no transaction is in progress.
+   */
+  #sessionOptions(): Pick<Query, 'connectionProperties'> {
+    if (this.#sessionId === undefined) {
+      return {};
+    }
+    return { connectionProperties: [{ key: 'session_id', value: this.#sessionId }] };
+  }
+
+  #assertInSession(): void {
+    if (this.#sessionId === undefined) {
+      throw new Error('No transaction is in progress on this connection.');
+    }
+  }
+
+  /**
+   * Runs a transaction control statement as a job and waits for it to finish.
+   * @returns The metadata of the finished job
+   */
+  async #runStatement(statement: string, extraOptions: Query = {}): Promise<JobMetadata> {
+    try {
+      const [job] = await this.#client.createQueryJob({
+        query: statement,
+        ...this.#statementDefaults(),
+        ...this.#sessionOptions(),
+        ...extraOptions,
+      });
+      await job.getQueryResults();
+      const [metadata] = (await job.getMetadata()) as [JobMetadata, unknown];
+      return metadata;
+    } catch (error) {
+      throw createBigQueryError(error, 'BigQuery transaction failed', { sql: statement });
+    }
+  }
+
+  /**
+   * The job defaults that apply to transaction control statements. Settings
+   * meant for queries are left out; a default `dryRun` would keep BEGIN from
+   * creating a session at all.
+   */
+  #statementDefaults(): Query {
+    const defaults = toQueryJobConfig(this.#jobDefaults ?? {});
+    const options: Query = {};
+    if (defaults.location !== undefined) {
+      options.location = defaults.location;
+    }
+    if (defaults.labels !== undefined) {
+      options.labels = defaults.labels;
     }
+    return options;
   }
 
   /**
@@ -215,10 +1186,15 @@ export class BigQueryConnection implements DatabaseConnection {
   }
 
   /**
-   * Processes a single result row, parsing registered JSON columns.
+   * Processes a single result row, applying the result transformers and
+   * parsing registered JSON columns.
    * Only columns registered via jsonColumns config are parsed.
    */
-  #processResultRow(row: Record<string, unknown>): Record<string, unknown> {
+  #processResultRow(
+    resultRow: Record<string, unknown>,
+    schema?: TableSchema,
+  ): Record<string, unknown> {
+    const row = this.#resultTransformer.transformRow(resultRow, schema);
     if (this.#jsonColumnNames.size === 0) {
       return row;
     }
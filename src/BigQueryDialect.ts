@@ -1,10 +1,7 @@
+import { BigQuery, type BigQueryOptions, type Dataset, type Table } from '@google-cloud/bigquery';
 import {
-  type BigQuery,
-  type BigQueryOptions,
-  type Dataset,
-  type Table,
-} from '@google-cloud/bigquery';
-import {
+  type Compilable,
+  type CompiledQuery,
   type DatabaseIntrospector,
   type Dialect,
   type Driver,
@@ -13,9 +10,26 @@ import {
 } from 'kysely';
 
 import { BigQueryAdapter } from './BigQueryAdapter';
+import { type BigQueryColumnTypeMap, BigQueryColumnTypes } from './BigQueryColumnTypes';
 import { BigQueryCompiler } from './BigQueryCompiler';
+import {
+  BigQueryConnection,
+  type BigQueryDryRunOptions,
+  type BigQueryDryRunResult,
+  type BigQueryQueryStatistics,
+  type BigQueryStreamMode,
+} from './BigQueryConnection';
 import { BigQueryDriver } from './BigQueryDriver';
 import { BigQueryIntrospector } from './BigQueryIntrospector';
+import { type BigQueryJobOptions } from './BigQueryJobOptionsPlugin';
+import { type BigQueryQueryHooks, type BigQueryTracer } from './BigQueryQueryHooks';
+import { type BigQueryQueryJob } from './BigQueryQueryJob';
+import {
+  type BigQueryDateTimeResults,
+  type BigQueryResultTransformers,
+} from './BigQueryResultTransformer';
+import { type BigQueryRetryOptions } from './BigQueryRetryPolicy';
+import { type BigQueryStorageReadOptions } from './BigQueryStorageReader';
 
 /**
  * Configuration options for BigQuery dialect.
@@ -65,6 +79,338 @@ export interface BigQueryDialectConfig {
    * ```
    */
   defaultProject?: string;
+
+  /**
+   * Emit named `@p0`, `@p1`, ... placeholders instead of positional `?`, and
+   * send parameters to BigQuery as an object keyed by name.
+   *
+   * Makes compiled SQL readable in the BigQuery job history, and lets `sql`
+   * templates reuse a parameter under a chosen name with `bq.named()`. Raw
+   * compiled queries passed to the connection must then use named placeholders too.
+   *
+   * Example:
+   * ```
+   * new BigQueryDialect({
+   *   bigquery: client,
+   *   namedParameters: true,
+   * })
+   * ```
+   */
+  namedParameters?: boolean;
+
+  /**
+   * Column types by table, used to type null and Date parameters.
+   *
+   * BigQuery needs a type for every null parameter, and without one the
+   * dialect sends nulls as `STRING`. Comparing a null with an INT64 column
+   * then fails with "No matching signature for operator =". Nulls compared
+   * with, assigned to or inserted into a column listed here are sent with the
+   * column's type. Dates used with DATE, DATETIME or TIME columns are sent as
+   * those types instead of TIMESTAMP. Use `BigQueryDialect.loadColumnTypes()`
+   * to read the types of all tables from INFORMATION_SCHEMA instead.
+   *
+   * Example:
+   * ```
+   * new BigQueryDialect({
+   *   bigquery: client,
+   *   columnTypes: {
+   *     'dataset.users': { id: 'INT64', age: 'INT64', tags: 'ARRAY<STRING>' },
+   *   },
+   * })
+   * ```
+   */
+  columnTypes?: BigQueryColumnTypeMap;
+
+  /**
+   * Key columns by table, which upserts match existing rows on.
+   *
+   * BigQuery has no ON CONFLICT or ON DUPLICATE KEY UPDATE, so inserts using
+   * `onConflict()` or `onDuplicateKeyUpdate()` are compiled to a MERGE on key
+   * columns. `onConflict()` can name them with `oc.columns()`; other upserts
+   * use the key registered here.
+   *
+   * Example:
+   * ```
+   * new BigQueryDialect({
+   *   bigquery: client,
+   *   primaryKeys: { 'dataset.users': ['id'] },
+   * })
+   * ```
+   */
+  primaryKeys?: Record<string, string[]>;
+
+  /**
+   * Return INT64 values as `bigint` instead of `number`.
+   *
+   * By default INT64 results are converted to numbers, and the client throws
+   * for values beyond `Number.MAX_SAFE_INTEGER`. With this option every INT64
+   * value, including in STRUCTs and ARRAYs, is returned as an exact `bigint`.
+   * `bigint` parameters are always sent as exact INT64 values.
+   *
+   * Example:
+   * ```
+   * new BigQueryDialect({
+   *   bigquery: client,
+   *   int64AsBigInt: true,
+   * })
+   * ```
+   */
+  int64AsBigInt?: boolean;
+
+  /**
+   * Converts NUMERIC and BIGNUMERIC results, including in STRUCTs and ARRAYs.
+   *
+   * The client returns these values as Big.js instances. The function receives
+   * each value as a plain decimal string with every digit, and its result is
+   * returned instead, e.g. a decimal.js instance or the string itself.
+   *
+   * Example:
+   * ```
+   * new BigQueryDialect({
+   *   bigquery: client,
+   *   parseNumeric: (value) => new Decimal(value),
+   * })
+   * ```
+   */
+  parseNumeric?: (value: string) => unknown;
+
+  /**
+   * Representation of DATE, DATETIME and TIME results, including in STRUCTs
+   * and ARRAYs.
+   *
+   * The client returns these values as `BigQueryDate`, `BigQueryDatetime` and
+   * `BigQueryTime` objects. With `'string'` their string value is returned
+   * (`2024-01-15`, `2024-01-15T10:30:00`, `10:30:00`). With `'date'` DATE and
+   * DATETIME values are returned as Dates in UTC, dropping microseconds, and
+   * TIME values as strings. A function receives the string value and the type,
+   * e.g. to create Temporal objects.
+   *
+   * Example:
+   * ```
+   * new BigQueryDialect({
+   *   bigquery: client,
+   *   dateTimeResults: (value, type) =>
+   *     type === 'DATE' ? Temporal.PlainDate.from(value) : value,
+   * })
+   * ```
+   */
+  dateTimeResults?: BigQueryDateTimeResults;
+
+  /**
+   * Return GEOGRAPHY values as GeoJSON geometry objects instead of the
+   * client's `Geography` objects, including in STRUCTs and ARRAYs.
+   *
+   * Example:
+   * ```
+   * new BigQueryDialect({
+   *   bigquery: client,
+   *   geographyAsGeoJson: true,
+   * })
+   * ```
+   */
+  geographyAsGeoJson?: boolean;
+
+  /**
+   * Return INTERVAL values as `BigQueryIntervalValue` objects instead of
+   * strings, including in STRUCTs and ARRAYs.
+   *
+   * The client returns INTERVAL values as strings in BigQuery's canonical
+   * format, e.g. `1-2 3 4:5:6`, without their type. INTERVAL columns are found
+   * in the result schema, so with this option queries run as a job and
+   * streams read the schema before their rows. Strings in other columns are
+   * never parsed.
+   *
+   * Example:
+   * ```
+   * new BigQueryDialect({
+   *   bigquery: client,
+   *   parseIntervals: true,
+   * })
+   * ```
+   */
+  parseIntervals?: boolean;
+
+  /**
+   * Return RANGE values as `BigQueryRangeValue` objects instead of the
+   * client's `BigQueryRange` objects, including in STRUCTs and ARRAYs.
+   *
+   * Bounds are null when unbounded, and otherwise converted like other values
+   * of the element type: strings by default, or as set with `dateTimeResults`
+   * and `resultTransformers`.
+   *
+   * Example:
+   * ```
+   * new BigQueryDialect({
+   *   bigquery: client,
+   *   parseRanges: true,
+   *   dateTimeResults: 'date',
+   * })
+   * ```
+   */
+  parseRanges?: boolean;
+
+  /**
+   * Result transformers by BigQuery type, applied to every row of `execute()`,
+   * `stream()` and query jobs, including values inside STRUCTs and ARRAYs.
+   * Rows read in the `'storage'` stream mode keep the values of the storage
+   * client (see `storageRead`).
+   *
+   * Each transformer receives the value as a string and replaces the client's
+   * representation, e.g. `BigQueryTimestamp` objects for TIMESTAMP. They take
+   * precedence over `int64AsBigInt`, `parseNumeric`, `dateTimeResults`,
+   * `geographyAsGeoJson`, `parseIntervals` and `parseRanges`.
+   * `standardResultTransformers` returns Dates for TIMESTAMP and strings for
+   * the other wrapped types.
+   *
+   * Example:
+   * ```
+   * new BigQueryDialect({
+   *   bigquery: client,
+   *   resultTransformers: {
+   *     ...standardResultTransformers,
+   *     NUMERIC: (value) => new Decimal(value),
+   *   },
+   * })
+   * ```
+   */
+  resultTransformers?: BigQueryResultTransformers;
+
+  /**
+   * Job options applied to every query run through the dialect.
+   *
+   * Individual queries can override these with BigQueryJobOptionsPlugin.
+   * Labels are merged, all other options are replaced.
+   *
+   * Example:
+   * ```
+   * new BigQueryDialect({
+   *   bigquery: client,
+   *   jobDefaults: {
+   *     labels: { team: 'finance' },
+   *     maximumBytesBilled: 10_000_000_000,
+   *   },
+   * })
+   * ```
+   */
+  jobDefaults?: BigQueryJobOptions;
+
+  /**
+   * Retries transient failures (rate limits, backend errors, concurrent DML
+   * conflicts) with exponential backoff. Disabled when not set.
+   *
+   * Queries are retried as a whole; streams are only retried until the first
+   * row has been received. Statements inside a transaction are never retried.
+   *
+   * Example:
+   * ```
+   * new BigQueryDialect({
+   *   bigquery: client,
+   *   retry: {
+   *     maxAttempts: 5,
+   *     onRetry: ({ attempt, error }) => console.warn(`Retry ${attempt}: ${error.message}`),
+   *   },
+   * })
+   * ```
+   */
+  retry?: BigQueryRetryOptions;
+
+  /**
+   * How `.stream()` fetches rows. Defaults to `'rows'`.
+   *
+   * With `'pages'` the query runs as a job and each batch passed to Kysely is
+   * one page of results (`maxResults` set to the stream's chunk size), fetched
+   * only when the previous batch has been consumed.
+   *
+   * Example:
+   * ```
+   * new BigQueryDialect({
+   *   bigquery: client,
+   *   streamMode: 'pages',
+   * })
+   * ```
+   */
+  streamMode?: BigQueryStreamMode;
+
+  /**
+   * Storage Read API client and read options, required by the `'storage'` stream mode.
+   *
+   * In that mode the query runs as a job and its destination table is read
+   * back over parallel Storage Read API streams. The client decodes Arrow or
+   * Avro data; rows then get the same JSON column parsing as other modes.
+   *
+   * Result transformers and their shorthands (`int64AsBigInt`, `parseNumeric`,
+   * `dateTimeResults`, ...) only convert the wrapper objects of the BigQuery
+   * client, so they leave the values of a storage client as decoded. Rows of
+   * `createStorageReadClient()` hold Arrow's values instead, e.g. INT64 as
+   * bigint and DATE or TIMESTAMP as milliseconds since the epoch.
+   *
+   * Example:
+   * ```
+   * new BigQueryDialect({
+   *   bigquery: client,
+   *   streamMode: 'storage',
+   *   storageRead: { client: myStorageReadClient, maxStreams: 4 },
+   * })
+   * ```
+   */
+  storageRead?: BigQueryStorageReadOptions;
+
+  /**
+   * Attaches the job statistics (bytes processed and billed, slot time, cache
+   * hit, job id, timings) to each result as `statistics`.
+   *
+   * Queries then run as jobs, which costs one extra API call per query to read
+   * the job metadata. Streams do not report statistics.
+   */
+  queryStatistics?: boolean;
+
+  /**
+   * Called with the job statistics of every query run through `execute()`.
+   *
+   * Receives the compiled query as well, so statistics can be attributed to
+   * the query builder that produced it. Like `queryStatistics`, this makes
+   * queries run as jobs.
+   *
+   * Example:
+   * ```
+   * new BigQueryDialect({
+   *   bigquery: client,
+   *   onQueryStatistics: (stats, query) => {
+   *     metrics.record(stats.labels, stats.totalBytesBilled, query.sql);
+   *   },
+   * })
+   * ```
+   */
+  onQueryStatistics?: (statistics: BigQueryQueryStatistics, compiledQuery: CompiledQuery) => void;
+
+  /**
+   * Callbacks for the lifecycle of each query: job created, running and done,
+   * retried, failed, and stream finished with its row count. Errors thrown by
+   * the callbacks go to `onHookError` and never fail the query.
+   *
+   * Like `queryStatistics`, this makes queries run as jobs.
+   *
+   * Example:
+   * ```
+   * new BigQueryDialect({
+   *   bigquery: client,
+   *   hooks: {
+   *     onJobDone: ({ jobId, durationMs }) => logger.info({ jobId, durationMs }),
+   *     onQueryFailed: ({ jobId, error }) => logger.error({ jobId, error }),
+   *   },
+   * })
+   * ```
+   */
+  hooks?: BigQueryQueryHooks;
+
+  /**
+   * OpenTelemetry tracer used to record a `bigquery.query` span per query, with
+   * the compiled SQL, job id, location and bytes billed as attributes.
+   *
+   * Pass `trace.getTracer(...)` from `@opentelemetry/api`. Like `queryStatistics`,
+   * this makes queries run as jobs.
+   */
+  tracer?: BigQueryTracer;
 }
 
 /**
@@ -74,9 +420,12 @@ export interface BigQueryDialectConfig {
  */
 export class BigQueryDialect implements Dialect {
   readonly #config: BigQueryDialectConfig;
+  readonly #columnTypes: BigQueryColumnTypes;
+  #clientConfig: BigQueryDialectConfig | undefined;
 
   constructor(config?: BigQueryDialectConfig) {
     this.#config = this.#validateConfig(config ?? {});
+    this.#columnTypes = new BigQueryColumnTypes(this.#config.columnTypes);
   }
 
   /**
@@ -92,7 +441,7 @@ export class BigQueryDialect implements Dialect {
    * @returns A new BigQueryDriver instance configured with the dialect settings
    */
   createDriver(): Driver {
-    return new BigQueryDriver(this.#config);
+    return new BigQueryDriver(this.#withClient());
   }
 
   /**
@@ -100,7 +449,11 @@ export class BigQueryDialect implements Dialect {
    * @returns A new BigQueryCompiler instance that translates Kysely queries to BigQuery SQL
    */
   createQueryCompiler(): QueryCompiler {
-    return new BigQueryCompiler(this.#config.defaultProject);
+    return new BigQueryCompiler(this.#config.defaultProject, {
+      namedParameters: this.#config.namedParameters,
+      columnTypes: this.#columnTypes,
+      primaryKeys: this.#config.primaryKeys,
+    });
   }
 
   /**
@@ -109,7 +462,97 @@ export class BigQueryDialect implements Dialect {
    * @returns A new BigQueryIntrospector instance for examining database schema
    */
   createIntrospector(db: Kysely<unknown>): DatabaseIntrospector {
-    return new BigQueryIntrospector(db, this.#config);
+    return new BigQueryIntrospector(db, this.#withClient());
+  }
+
+  /**
+   * Reads the column types of all tables through the introspector, so null
+   * parameters are typed by the column they are used with.
+   *
+   * Call once at startup. Types given in the `columnTypes` option take
+   * precedence over the introspected ones.
+   *
+   * Example:
+   * ```
+   * const dialect = new BigQueryDialect({ bigquery: client });
+   * const db = new Kysely<Database>({ dialect });
+   * await dialect.loadColumnTypes(db);
+   * ```
+   * @param db - A Kysely instance that uses this dialect
+   */
+  async loadColumnTypes(db: Kysely<unknown>): Promise<void> {
+    const tables = await db.introspection.getTables();
+    this.#columnTypes.registerTables(tables);
+    this.#columnTypes.registerColumnTypes(this.#config.columnTypes ?? {});
+  }
+
+  /**
+   * Estimates the cost of a query by submitting it as a dry run.
+   *
+   * Accepts any Kysely query builder or an already compiled query. Builders
+   * must come from a Kysely instance that uses this dialect.
+   *
+   * Example:
+   * ```
+   * const estimate = await dialect.estimateCost(db.selectFrom('dataset.events').selectAll());
+   * console.log(estimate.totalBytesProcessed, estimate.estimatedCostUsd);
+   * ```
+   * @param query - A query builder or compiled query
+   * @param options - Pricing used for the cost estimate
+   * @returns Bytes processed, referenced tables, result schema and estimated cost
+   */
+  estimateCost(
+    query: Compilable | CompiledQuery,
+    options?: BigQueryDryRunOptions,
+  ): Promise<BigQueryDryRunResult> {
+    const compiledQuery = 'compile' in query ? query.compile() : query;
+    return new BigQueryConnection(this.#withClient()).dryRun(compiledQuery, options);
+  }
+
+  /**
+   * Submits a query as a BigQuery job and returns without waiting for it.
+   *
+   * Use this for queries that run longer than a request can wait. Keep the
+   * job id and location, and get the results later, possibly from another process.
+   *
+   * Example:
+   * ```
+   * const job = await dialect.submitQuery(db.selectFrom('dataset.events').selectAll());
+   * // later
+   * const handle = dialect.getQueryJob<Event>(job.jobId, job.location);
+   * await handle.wait();
+   * const { rows, pageToken } = await handle.getResults({ maxResults: 1000 });
+   * ```
+   * @param query - A query builder or compiled query
+   * @returns A handle to poll, wait for, read or cancel the job
+   */
+  submitQuery<O>(query: Compilable<O> | CompiledQuery<O>): Promise<BigQueryQueryJob<O>> {
+    const compiledQuery = 'compile' in query ? query.compile() : query;
+    return new BigQueryConnection(this.#withClient()).submitQuery<O>(compiledQuery);
+  }
+
+  /**
+   * Returns a handle to a query job submitted earlier with `submitQuery()`.
+   * @param jobId - Id of the job
+   * @param location - Location the job runs in
+   * @returns A handle to poll, wait for, read or cancel the job
+   */
+  getQueryJob<O>(jobId: string, location?: string): BigQueryQueryJob<O> {
+    return new BigQueryConnection(this.#withClient()).getQueryJob<O>(jobId, location);
+  }
+
+  /**
+   * The config with the BigQuery client to use. A client for `options` is
+   * created on first use and shared by every connection, so connections do
+   * not each set up their own authentication and HTTP agent.
+   */
+  #withClient(): BigQueryDialectConfig {
+    if (!this.#clientConfig) {
+      this.#clientConfig = this.#config.bigquery
+        ? this.#config
+        : { ...this.#config, bigquery: new BigQuery(this.#config.options) };
+    }
+    return this.#clientConfig;
   }
 
   #validateConfig(config: BigQueryDialectConfig): BigQueryDialectConfig {
@@ -138,14 +581,21 @@ export class BigQueryDialect implements Dialect {
       const hasQueryMethod = 'query' in instance && typeof instance.query === 'function';
       const hasCreateQueryStreamMethod =
         'createQueryStream' in instance && typeof instance.createQueryStream === 'function';
+      /* DML, job-based reads, dry runs, submitted queries and transactions run as jobs */
+      const hasCreateQueryJobMethod =
+        'createQueryJob' in instance && typeof instance.createQueryJob === 'function';
 
-      if (!hasQueryMethod || !hasCreateQueryStreamMethod) {
+      if (!hasQueryMethod || !hasCreateQueryStreamMethod || !hasCreateQueryJobMethod) {
         throw new Error(
-          'Invalid bigquery instance provided. It must have query() and createQueryStream() methods.',
+          'Invalid bigquery instance provided. It must have query(), createQueryStream() and createQueryJob() methods.',
         );
       }
     }
 
+    if (config.streamMode === 'storage' && !config.storageRead) {
+      throw new Error('The "storage" stream mode requires the storageRead option.');
+    }
+
     return config;
   }
 }
@@ -36,8 +36,8 @@ export class BigQueryDriver implements Driver {
     return conn.rollbackTransaction();
   }
 
-  releaseConnection(_conn: BigQueryConnection): Promise<void> {
-    return Promise.resolve();
+  async releaseConnection(conn: BigQueryConnection): Promise<void> {
+    return conn.releaseSession();
   }
 
   destroy(): Promise<void> {
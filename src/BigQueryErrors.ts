@@ -0,0 +1,227 @@
+/**
+ * A single entry of the `errors[]` array returned by the BigQuery API.
+ */
+export interface BigQueryErrorDetail {
+  reason?: string;
+  message?: string;
+  location?: string;
+  debugInfo?: string;
+}
+
+/**
+ * Position in the compiled SQL that BigQuery reported as the cause of the error.
+ */
+export interface BigQueryErrorPosition {
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+  /** 0-based character offset into the SQL string */
+  offset: number;
+}
+
+/**
+ * Context about the query that failed, used to populate error fields.
+ */
+export interface BigQueryErrorContext {
+  sql?: string | undefined;
+  jobId?: string | undefined;
+}
+
+/**
+ * Base class for errors raised while running a query against BigQuery.
+ *
+ * Keeps the original error as `cause` and exposes the structured details
+ * BigQuery returned alongside the message.
+ */
+export class BigQueryQueryError extends Error {
+  /** The original error thrown by the BigQuery client */
+  readonly cause: unknown;
+  /** All error entries returned by BigQuery */
+  readonly errors: BigQueryErrorDetail[];
+  /** Reason code of the first error entry, e.g. `invalidQuery` */
+  readonly reason: string | undefined;
+  /** HTTP status code of the failed request */
+  readonly code: number | undefined;
+  /** Id of the job that failed, when known */
+  readonly jobId: string | undefined;
+  /** The compiled SQL that failed */
+  readonly sql: string | undefined;
+  /** Where in `sql` BigQuery reported the error, when it did */
+  readonly position: BigQueryErrorPosition | undefined;
+
+  constructor(message: string, cause: unknown, context: BigQueryErrorContext = {}) {
+    super(message);
+    this.name = new.target.name;
+    Object.setPrototypeOf(this, new.target.prototype);
+
+    const details = readErrorDetails(cause);
+    this.cause = cause;
+    this.errors = details.errors;
+    this.reason = details.errors.find((e) => e.reason)?.reason;
+    this.code = details.code;
+    this.jobId = context.jobId ?? details.jobId;
+    this.sql = context.sql;
+    this.position = locateError(cause instanceof Error ? cause.message : '', context.sql);
+  }
+}
+
+/**
+ * The query is invalid, e.g. a syntax error or an unknown column (`invalidQuery`).
+ */
+export class BigQuerySyntaxError extends BigQueryQueryError {}
+
+/**
+ * A rate limit or quota was exceeded (`rateLimitExceeded`, `quotaExceeded`).
+ */
+export class BigQueryQuotaError extends BigQueryQueryError {}
+
+/**
+ * A referenced table, dataset or job does not exist (`notFound`).
+ */
+export class BigQueryNotFoundError extends BigQueryQueryError {}
+
+/**
+ * The resource being created already exists (`duplicate`).
+ */
+export class BigQueryDuplicateError extends BigQueryQueryError {}
+
+/**
+ * The caller lacks permission for the operation (`accessDenied`).
+ */
+export class BigQueryAccessDeniedError extends BigQueryQueryError {}
+
+/**
+ * An UPDATE, DELETE or MERGE touched rows that are still in the streaming buffer.
+ */
+export class BigQueryStreamingBufferError extends BigQueryQueryError {}
+
+/**
+ * The query was cancelled through its AbortSignal, or waiting for a job was
+ * aborted or timed out. `cause` is the signal's abort reason, if any.
+ */
+export class BigQueryCancelledError extends BigQueryQueryError {}
+
+type BigQueryQueryErrorClass = new (
+  message: string,
+  cause: unknown,
+  context?: BigQueryErrorContext,
+) => BigQueryQueryError;
+
+const ERROR_CLASSES_BY_REASON: Record<string, BigQueryQueryErrorClass> = {
+  invalidQuery: BigQuerySyntaxError,
+  rateLimitExceeded: BigQueryQuotaError,
+  quotaExceeded: BigQueryQuotaError,
+  notFound: BigQueryNotFoundError,
+  duplicate: BigQueryDuplicateError,
+  accessDenied: BigQueryAccessDeniedError,
+};
+
+/* Fallbacks for errors that carry no reason code, matched against the message */
+const ERROR_CLASSES_BY_MESSAGE: Array<[RegExp, BigQueryQueryErrorClass]> = [
+  [/streaming buffer/i, BigQueryStreamingBufferError],
+  [/^Syntax error:/i, BigQuerySyntaxError],
+  [/quota exceeded|rate limit/i, BigQueryQuotaError],
+  [/^Not found:/i, BigQueryNotFoundError],
+  [/^Already Exists:/i, BigQueryDuplicateError],
+  [/^Access Denied:/i, BigQueryAccessDeniedError],
+];
+
+/**
+ * Wraps an error thrown by the BigQuery client in the matching BigQueryQueryError subclass.
+ * Values that are not Error instances are returned unchanged.
+ * @param error - The error thrown by the client
+ * @param prefix - Prefix for the message, e.g. `BigQuery query failed`
+ * @param context - The SQL and job id of the failed query
+ * @param hint - Extra guidance appended to the message
+ */
+export function createBigQueryError(
+  error: unknown,
+  prefix: string,
+  context: BigQueryErrorContext = {},
+  hint?: string,
+): unknown {
+  if (!(error instanceof Error)) {
+    return error;
+  }
+  if (error instanceof BigQueryQueryError) {
+    return error;
+  }
+
+  const message = `${prefix}: ${error.message}${hint ? `\n${hint}` : ''}`;
+  const ErrorClass = classifyError(error);
+  return new ErrorClass(message, error, context);
+}
+
+function classifyError(error: Error): BigQueryQueryErrorClass {
+  /* Streaming buffer conflicts are reported as invalidQuery, so check the message first */
+  if (/streaming buffer/i.test(error.message)) {
+    return BigQueryStreamingBufferError;
+  }
+
+  for (const detail of readErrorDetails(error).errors) {
+    const ErrorClass = detail.reason ? ERROR_CLASSES_BY_REASON[detail.reason] : undefined;
+    if (ErrorClass) {
+      return ErrorClass;
+    }
+  }
+
+  for (const [pattern, ErrorClass] of ERROR_CLASSES_BY_MESSAGE) {
+    if (pattern.test(error.message)) {
+      return ErrorClass;
+    }
+  }
+
+  return BigQueryQueryError;
+}
+
+/**
+ * Reads the structured fields of a Google API error without depending on its class.
+ */
+function readErrorDetails(error: unknown): {
+  errors: BigQueryErrorDetail[];
+  code: number | undefined;
+  jobId: string | undefined;
+} {
+  if (typeof error !== 'object' || error === null) {
+    return { errors: [], code: undefined, jobId: undefined };
+  }
+
+  const { errors, code, response } = error as {
+    errors?: unknown;
+    code?: unknown;
+    response?: { jobReference?: { jobId?: unknown } };
+  };
+  const jobId = response?.jobReference?.jobId;
+
+  return {
+    errors: Array.isArray(errors) ? (errors as BigQueryErrorDetail[]) : [],
+    code: typeof code === 'number' ? code : undefined,
+    jobId: typeof jobId === 'string' ? jobId : undefined,
+  };
+}
+
+/**
+ * Finds the `at [line:column]` marker BigQuery adds to query errors and maps it
+ * to an offset in the compiled SQL.
+ */
+function locateError(message: string, sql: string | undefined): BigQueryErrorPosition | undefined {
+  const match = message.match(/at \[(\d+):(\d+)\]/);
+  if (!match || sql === undefined) {
+    return undefined;
+  }
+
+  const line = Number(match[1]);
+  const column = Number(match[2]);
+  const lines = sql.split('\n');
+  if (line < 1 || line > lines.length) {
+    return undefined;
+  }
+
+  let offset = column - 1;
+  for (let i = 0; i < line - 1; i++) {
+    offset += (lines[i] ?? '').length + 1;
+  }
+
+  return { line, column, offset };
+}
@@ -0,0 +1,257 @@
+/**
+ * A GeoJSON position: longitude, latitude and optional further ordinates,
+ * which BigQuery ignores.
+ */
+export type GeoJsonPosition = number[];
+
+/**
+ * A GeoJSON geometry object.
+ */
+export type GeoJsonGeometry =
+  | { type: 'Point'; coordinates: GeoJsonPosition }
+  | { type: 'MultiPoint'; coordinates: GeoJsonPosition[] }
+  | { type: 'LineString'; coordinates: GeoJsonPosition[] }
+  | { type: 'MultiLineString'; coordinates: GeoJsonPosition[][] }
+  | { type: 'Polygon'; coordinates: GeoJsonPosition[][] }
+  | { type: 'MultiPolygon'; coordinates: GeoJsonPosition[][][] }
+  | { type: 'GeometryCollection'; geometries: GeoJsonGeometry[] };
+
+/* GeoJSON geometry types and their WKT names */
+const WKT_TYPES = new Map<string, string>([
+  ['Point', 'POINT'],
+  ['MultiPoint', 'MULTIPOINT'],
+  ['LineString', 'LINESTRING'],
+  ['MultiLineString', 'MULTILINESTRING'],
+  ['Polygon', 'POLYGON'],
+  ['MultiPolygon', 'MULTIPOLYGON'],
+  ['GeometryCollection', 'GEOMETRYCOLLECTION'],
+]);
+
+/* WKT names and their GeoJSON geometry types */
+const GEOJSON_TYPES = new Map([...WKT_TYPES].map(([geoJson, wkt]) => [wkt, geoJson]));
+
+/* Nesting depth of the coordinates of each geometry type */
+const COORDINATE_DEPTHS: Record<string, number> = {
+  Point: 0,
+  MultiPoint: 1,
+  LineString: 1,
+  MultiLineString: 2,
+  Polygon: 2,
+  MultiPolygon: 3,
+};
+
+/**
+ * Determines whether a value is a GeoJSON geometry object.
+ * @param value - Any value
+ */
+export function isGeoJsonGeometry(value: unknown): value is GeoJsonGeometry {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const { type, coordinates, geometries } = value as Record<string, unknown>;
+  return (
+    typeof type === 'string' &&
+    WKT_TYPES.has(type) &&
+    (type === 'GeometryCollection' ? Array.isArray(geometries) : Array.isArray(coordinates))
+  );
+}
+
+/**
+ * Converts a GeoJSON geometry to WKT, the format BigQuery reads GEOGRAPHY
+ * parameters in.
+ * @param geometry - GeoJSON geometry object
+ * @returns The geometry as WKT, e.g. `POINT(-122.35 47.62)`
+ * @throws Error if the geometry is not valid GeoJSON
+ */
+export function geoJsonToWkt(geometry: GeoJsonGeometry): string {
+  if (!isGeoJsonGeometry(geometry)) {
+    throw new Error(`Invalid GeoJSON geometry: ${JSON.stringify(geometry)}.`);
+  }
+  const name = WKT_TYPES.get(geometry.type) as string;
+
+  if (geometry.type === 'GeometryCollection') {
+    return geometry.geometries.length === 0
+      ? `${name} EMPTY`
+      : `${name}(${geometry.geometries.map(geoJsonToWkt).join(', ')})`;
+  }
+
+  const depth = COORDINATE_DEPTHS[geometry.type] as number;
+  if (geometry.coordinates.length === 0) {
+    return `${name} EMPTY`;
+  }
+  if (geometry.type === 'MultiPoint') {
+    /* Each point in its own parentheses, as the WKT standard writes them */
+    return `${name}(${geometry.coordinates.map((p) => `(${formatPosition(p, geometry)})`).join(', ')})`;
+  }
+  return `${name}${formatCoordinates(geometry.coordinates, depth, geometry)}`;
+}
+
+/**
+ * Converts WKT, as BigQuery returns GEOGRAPHY values, to a GeoJSON geometry.
+ * @param wkt - Geometry as WKT, e.g. `POINT(-122.35 47.62)`
+ * @returns The GeoJSON geometry object
+ * @throws Error if the text is not valid WKT
+ */
+export function wktToGeoJson(wkt: string): GeoJsonGeometry {
+  const parser = new WktParser(wkt);
+  const geometry = parser.parseGeometry();
+  parser.expectEnd();
+  return geometry;
+}
+
+function formatCoordinates(coordinates: unknown, depth: number, geometry: unknown): string {
+  if (depth === 0) {
+    return `(${formatPosition(coordinates, geometry)})`;
+  }
+  if (!Array.isArray(coordinates)) {
+    throw new Error(`Invalid GeoJSON geometry: ${JSON.stringify(geometry)}.`);
+  }
+  if (depth === 1) {
+    return `(${coordinates.map((p) => formatPosition(p, geometry)).join(', ')})`;
+  }
+  return `(${coordinates.map((c) => formatCoordinates(c, depth - 1, geometry)).join(', ')})`;
+}
+
+function formatPosition(position: unknown, geometry: unknown): string {
+  if (
+    !Array.isArray(position) ||
+    position.length < 2 ||
+    !position.every((n) => typeof n === 'number' && Number.isFinite(n))
+  ) {
+    throw new Error(`Invalid GeoJSON geometry: ${JSON.stringify(geometry)}.`);
+  }
+  return `${position[0]} ${position[1]}`;
+}
+
+/**
+ * Recursive descent parser for WKT geometries.
+ */
+class WktParser {
+  readonly #wkt: string;
+  readonly #tokens: string[];
+  #position = 0;
+
+  constructor(wkt: string) {
+    this.#wkt = wkt;
+    this.#tokens = wkt.match(/[A-Za-z]+|[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?|[(),]|\S/g) ?? [];
+  }
+
+  parseGeometry(): GeoJsonGeometry {
+    const name = this.#next().toUpperCase();
+    const type = GEOJSON_TYPES.get(name);
+    if (type === undefined) {
+      throw this.#error(`unknown geometry type "${name}"`);
+    }
+
+    /* BigQuery geographies are two-dimensional; Z and M ordinates are dropped */
+    const dimension = this.#tokens[this.#position]?.toUpperCase();
+    if (dimension === 'Z' || dimension === 'M' || dimension === 'ZM') {
+      this.#position++;
+    }
+
+    const empty = this.#accept('EMPTY');
+    switch (type) {
+      case 'GeometryCollection':
+        return { type, geometries: empty ? [] : this.#list(() => this.parseGeometry()) };
+      case 'Point':
+        return { type, coordinates: empty ? [] : this.#parenthesized(() => this.#position2d()) };
+      case 'MultiPoint':
+        /* Points may or may not have their own parentheses */
+        return {
+          type,
+          coordinates: empty
+            ? []
+            : this.#list(() =>
+                this.#tokens[this.#position] === '('
+                  ? this.#parenthesized(() => this.#position2d())
+                  : this.#position2d(),
+              ),
+        };
+      case 'LineString':
+        return { type, coordinates: empty ? [] : this.#positions() };
+      case 'MultiLineString':
+      case 'Polygon':
+        return { type, coordinates: empty ? [] : this.#list(() => this.#positions()) };
+      default:
+        return {
+          type: 'MultiPolygon',
+          coordinates: empty ? [] : this.#list(() => this.#list(() => this.#positions())),
+        };
+    }
+  }
+
+  expectEnd(): void {
+    if (this.#position < this.#tokens.length) {
+      throw this.#error(`unexpected "${this.#tokens[this.#position]}"`);
+    }
+  }
+
+  #positions(): GeoJsonPosition[] {
+    return this.#list(() => this.#position2d());
+  }
+
+  #position2d(): GeoJsonPosition {
+    const position = [this.#number(), this.#number()];
+    /* Skip Z and M ordinates */
+    while (this.#isNumber(this.#tokens[this.#position])) {
+      this.#position++;
+    }
+    return position;
+  }
+
+  #list<T>(parseItem: () => T): T[] {
+    return this.#parenthesized(() => {
+      const items = [parseItem()];
+      while (this.#accept(',')) {
+        items.push(parseItem());
+      }
+      return items;
+    });
+  }
+
+  #parenthesized<T>(parse: () => T): T {
+    this.#expect('(');
+    const result = parse();
+    this.#expect(')');
+    return result;
+  }
+
+  #number(): number {
+    const token = this.#next();
+    if (!this.#isNumber(token)) {
+      throw this.#error(`expected a number but found "${token}"`);
+    }
+    return Number(token);
+  }
+
+  #isNumber(token: string | undefined): boolean {
+    return token !== undefined && /^[-+]?(\d|\.\d)/.test(token);
+  }
+
+  #next(): string {
+    const token = this.#tokens[this.#position++];
+    if (token === undefined) {
+      throw this.#error('unexpected end of text');
+    }
+    return token;
+  }
+
+  #accept(token: string): boolean {
+    if (this.#tokens[this.#position]?.toUpperCase() === token) {
+      this.#position++;
+      return true;
+    }
+    return false;
+  }
+
+  #expect(token: string): void {
+    const actual = this.#next();
+    if (actual !== token) {
+      throw this.#error(`expected "${token}" but found "${actual}"`);
+    }
+  }
+
+  #error(reason: string): Error {
+    return new Error(`Invalid WKT "${this.#wkt}": ${reason}.`);
+  }
+}
@@ -0,0 +1,129 @@
+import { type Expression, type RawBuilder, sql } from 'kysely';
+
+import { type GeoJsonGeometry, isGeoJsonGeometry } from './BigQueryGeoJson';
+import { type BigQueryTypedParameter, bq } from './BigQueryParameters';
+
+/**
+ * A GEOGRAPHY argument of the `st` helpers: a column reference such as
+ * `'stops.location'`, a GeoJSON geometry, a parameter from `bq.geography()`,
+ * or any expression, e.g. another `st` helper.
+ */
+export type BigQueryGeographyOperand =
+  string | GeoJsonGeometry | BigQueryTypedParameter | Expression<unknown>;
+
+/**
+ * Expression helpers for BigQuery geography functions.
+ *
+ * Each helper returns a raw expression that can be used in `select`, `where`
+ * and anywhere else Kysely accepts an expression. Strings are column
+ * references; pass WKT through `bq.geography()` or `st.geogFromText()`.
+ *
+ * Example:
+ * ```
+ * db.selectFrom('dataset.stops')
+ *   .select(['id', st.distance('location', depot).as('meters')])
+ *   .where(st.dWithin('location', depot, 5000))
+ * ```
+ */
+export const st = {
+  /**
+   * `ST_GEOGPOINT(longitude, latitude)`.
+   * @param longitude - Longitude in degrees
+   * @param latitude - Latitude in degrees
+   */
+  geogPoint(
+    longitude: number | Expression<number>,
+    latitude: number | Expression<number>,
+  ): RawBuilder<unknown> {
+    return sql`ST_GEOGPOINT(${longitude}, ${latitude})`;
+  },
+
+  /**
+   * `ST_GEOGFROMTEXT(wkt)`.
+   * @param wkt - Geometry as WKT, sent as a parameter
+   */
+  geogFromText(wkt: string): RawBuilder<unknown> {
+    return sql`ST_GEOGFROMTEXT(${wkt})`;
+  },
+
+  /**
+   * `ST_GEOGFROMGEOJSON(geojson)`.
+   * @param geoJson - GeoJSON geometry, as an object or JSON text, sent as a parameter
+   */
+  geogFromGeoJson(geoJson: GeoJsonGeometry | string): RawBuilder<unknown> {
+    return sql`ST_GEOGFROMGEOJSON(${typeof geoJson === 'string' ? geoJson : JSON.stringify(geoJson)})`;
+  },
+
+  /**
+   * `ST_DWITHIN(a, b, distance)`: whether two geographies are within a
+   * distance of each other.
+   * @param a - First geography
+   * @param b - Second geography
+   * @param meters - Distance in meters
+   */
+  dWithin(
+    a: BigQueryGeographyOperand,
+    b: BigQueryGeographyOperand,
+    meters: number | Expression<number>,
+  ): RawBuilder<boolean> {
+    return sql`ST_DWITHIN(${toGeography(a)}, ${toGeography(b)}, ${meters})`;
+  },
+
+  /**
+   * `ST_DISTANCE(a, b)`: the shortest distance between two geographies, in meters.
+   * @param a - First geography
+   * @param b - Second geography
+   */
+  distance(a: BigQueryGeographyOperand, b: BigQueryGeographyOperand): RawBuilder<number> {
+    return sql`ST_DISTANCE(${toGeography(a)}, ${toGeography(b)})`;
+  },
+
+  /**
+   * `ST_CONTAINS(a, b)`: whether no point of `b` is outside `a`.
+   * @param a - Containing geography
+   * @param b - Contained geography
+   */
+  contains(a: BigQueryGeographyOperand, b: BigQueryGeographyOperand): RawBuilder<boolean> {
+    return sql`ST_CONTAINS(${toGeography(a)}, ${toGeography(b)})`;
+  },
+
+  /**
+   * `ST_INTERSECTS(a, b)`: whether two geographies have a point in common.
+   * @param a - First geography
+   * @param b - Second geography
+   */
+  intersects(a: BigQueryGeographyOperand, b: BigQueryGeographyOperand): RawBuilder<boolean> {
+    return sql`ST_INTERSECTS(${toGeography(a)}, ${toGeography(b)})`;
+  },
+
+  /**
+   * `ST_ASGEOJSON(geography)`: the geography as GeoJSON text.
+   * @param geography - Geography to convert
+   */
+  asGeoJson(geography: BigQueryGeographyOperand): RawBuilder<string> {
+    return sql`ST_ASGEOJSON(${toGeography(geography)})`;
+  },
+
+  /**
+   * `ST_ASTEXT(geography)`: the geography as WKT.
+   * @param geography - Geography to convert
+   */
+  asText(geography: BigQueryGeographyOperand): RawBuilder<string> {
+    return sql`ST_ASTEXT(${toGeography(geography)})`;
+  },
+};
+
+/**
+ * Turns a geography operand into an expression or parameter for a `sql` template.
+ */
+function toGeography(
+  operand: BigQueryGeographyOperand,
+): Expression<unknown> | BigQueryTypedParameter {
+  if (typeof operand === 'string') {
+    return sql.ref(operand);
+  }
+  if (isGeoJsonGeometry(operand)) {
+    return bq.geography(operand);
+  }
+  return operand;
+}
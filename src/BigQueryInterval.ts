@@ -0,0 +1,202 @@
+import { type Expression, type RawBuilder, sql } from 'kysely';
+
+/**
+ * Parts of an INTERVAL value. Omitted parts are zero.
+ */
+export interface BigQueryIntervalParts {
+  years?: number;
+  months?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+  microseconds?: number;
+}
+
+/**
+ * A datetime part of an `INTERVAL n part` expression.
+ */
+export type BigQueryIntervalPart =
+  | 'YEAR'
+  | 'QUARTER'
+  | 'MONTH'
+  | 'WEEK'
+  | 'DAY'
+  | 'HOUR'
+  | 'MINUTE'
+  | 'SECOND'
+  | 'MILLISECOND'
+  | 'MICROSECOND';
+
+/* Datetime parts accepted by `interval.of()`, checked since they are emitted as SQL */
+const INTERVAL_PARTS = new Set<string>([
+  'YEAR',
+  'QUARTER',
+  'MONTH',
+  'WEEK',
+  'DAY',
+  'HOUR',
+  'MINUTE',
+  'SECOND',
+  'MILLISECOND',
+  'MICROSECOND',
+]);
+
+/* BigQuery's canonical INTERVAL format, `Y-M D H:M:S[.F]`, e.g. `1-2 3 4:5:6.789` */
+const INTERVAL_PATTERN = /^(-?)(\d+)-(\d+) (-?\d+) (-?)(\d+):(\d+):(\d+)(?:\.(\d{1,6}))?$/;
+
+const MICROSECONDS_PER_SECOND = BigInt(1000000);
+const SECONDS_PER_HOUR = BigInt(3600);
+const SECONDS_PER_MINUTE = BigInt(60);
+
+/* Arguments of MAKE_INTERVAL and the parts they take */
+const MAKE_INTERVAL_ARGUMENTS = [
+  ['year', 'years'],
+  ['month', 'months'],
+  ['day', 'days'],
+  ['hour', 'hours'],
+  ['minute', 'minutes'],
+  ['second', 'seconds'],
+] as const;
+
+/**
+ * An INTERVAL value.
+ *
+ * Like BigQuery, it keeps three independent groups: years and months, days,
+ * and the time of day. Within the first and last group the parts are
+ * normalized to the same sign, e.g. 14 months become 1 year and 2 months.
+ *
+ * Used as a parameter value it is sent as `CAST(? AS INTERVAL)`, since the
+ * client cannot send INTERVAL parameters. With the `parseIntervals` dialect
+ * option INTERVAL results are returned as instances of this class.
+ */
+export class BigQueryIntervalValue {
+  readonly years: number;
+  readonly months: number;
+  readonly days: number;
+  readonly hours: number;
+  readonly minutes: number;
+  readonly seconds: number;
+  readonly microseconds: number;
+
+  /**
+   * @param parts - Parts of the interval, each an integer
+   * @throws Error if a part is not an integer
+   */
+  constructor(parts: BigQueryIntervalParts = {}) {
+    for (const [name, value] of Object.entries(parts)) {
+      if (value !== undefined && !Number.isSafeInteger(value)) {
+        throw new Error(`Invalid INTERVAL ${name} "${String(value)}". Parts must be integers.`);
+      }
+    }
+    const { years = 0, months = 0, days = 0, hours = 0, minutes = 0 } = parts;
+    const { seconds = 0, microseconds = 0 } = parts;
+
+    const totalMonths = years * 12 + months;
+    this.years = Math.trunc(totalMonths / 12) || 0;
+    this.months = totalMonths % 12 || 0;
+    this.days = days || 0;
+
+    /* Microseconds of a large interval exceed Number.MAX_SAFE_INTEGER */
+    const totalMicroseconds =
+      (BigInt(hours) * SECONDS_PER_HOUR + BigInt(minutes) * SECONDS_PER_MINUTE + BigInt(seconds)) *
+        MICROSECONDS_PER_SECOND +
+      BigInt(microseconds);
+    const totalSeconds = totalMicroseconds / MICROSECONDS_PER_SECOND;
+    this.hours = Number(totalSeconds / SECONDS_PER_HOUR) || 0;
+    this.minutes = Number((totalSeconds % SECONDS_PER_HOUR) / SECONDS_PER_MINUTE) || 0;
+    this.seconds = Number(totalSeconds % SECONDS_PER_MINUTE) || 0;
+    this.microseconds = Number(totalMicroseconds % MICROSECONDS_PER_SECOND) || 0;
+  }
+
+  /**
+   * Parses an INTERVAL in BigQuery's canonical format, as BigQuery returns
+   * INTERVAL values.
+   * @param text - Interval such as `1-2 3 4:5:6.789` (1 year, 2 months,
+   *   3 days, 4 hours, 5 minutes and 6.789 seconds)
+   * @returns The interval
+   * @throws Error if the text is not in the canonical format
+   */
+  static parse(text: string): BigQueryIntervalValue {
+    const match = INTERVAL_PATTERN.exec(text);
+    if (!match) {
+      throw new Error(`Invalid INTERVAL value "${text}".`);
+    }
+    const [, yearMonthSign, years, months, days, timeSign, hours, minutes, seconds] = match;
+    const fraction = (match[9] ?? '').padEnd(6, '0');
+    const yearMonth = yearMonthSign === '-' ? -1 : 1;
+    const time = timeSign === '-' ? -1 : 1;
+    return new BigQueryIntervalValue({
+      years: yearMonth * Number(years),
+      months: yearMonth * Number(months),
+      days: Number(days),
+      hours: time * Number(hours),
+      minutes: time * Number(minutes),
+      seconds: time * Number(seconds),
+      microseconds: time * Number(fraction),
+    });
+  }
+
+  /**
+   * Returns the interval in BigQuery's canonical format, e.g. `1-2 3 4:5:6.789`.
+   */
+  toString(): string {
+    const yearMonthSign = this.years < 0 || this.months < 0 ? '-' : '';
+    const timeSign =
+      this.hours < 0 || this.minutes < 0 || this.seconds < 0 || this.microseconds < 0 ? '-' : '';
+    const fraction =
+      this.microseconds === 0
+        ? ''
+        : `.${String(Math.abs(this.microseconds)).padStart(6, '0').replace(/0+$/, '')}`;
+    return (
+      `${yearMonthSign}${Math.abs(this.years)}-${Math.abs(this.months)} ${this.days} ` +
+      `${timeSign}${Math.abs(this.hours)}:${Math.abs(this.minutes)}:${Math.abs(this.seconds)}${fraction}`
+    );
+  }
+}
+
+/**
+ * Expression helpers for building BigQuery INTERVAL values.
+ *
+ * Example:
+ * ```
+ * db.selectFrom('dataset.orders')
+ *   .selectAll()
+ *   .where('created_at', '>', sql`TIMESTAMP_SUB(CURRENT_TIMESTAMP(), ${interval.of(7, 'DAY')})`)
+ * ```
+ */
+export const interval = {
+  /**
+   * `INTERVAL n part`, e.g. `INTERVAL 3 DAY`. The count is sent as a parameter.
+   * @param count - Number of parts, an integer
+   * @param part - Datetime part, e.g. `DAY`
+   * @throws Error if the count is not an integer or the part is unknown
+   */
+  of(
+    count: number | Expression<number>,
+    part: BigQueryIntervalPart,
+  ): RawBuilder<BigQueryIntervalValue> {
+    if (!INTERVAL_PARTS.has(part)) {
+      throw new Error(`Invalid INTERVAL part "${String(part)}".`);
+    }
+    if (typeof count === 'number' && !Number.isSafeInteger(count)) {
+      throw new Error(`Invalid INTERVAL value "${count} ${part}". Counts must be integers.`);
+    }
+    return sql`INTERVAL ${count} ${sql.raw(part)}`;
+  },
+
+  /**
+   * `MAKE_INTERVAL(year => ..., ...)` with the given parts, e.g.
+   * `interval.make({ days: 1, hours: 12 })`.
+   * @param parts - Years, months, days, hours, minutes and seconds; omitted
+   *   parts are zero
+   */
+  make(parts: {
+    [K in (typeof MAKE_INTERVAL_ARGUMENTS)[number][1]]?: number | Expression<number>;
+  }): RawBuilder<BigQueryIntervalValue> {
+    const args = MAKE_INTERVAL_ARGUMENTS.filter(([, part]) => parts[part] !== undefined).map(
+      ([argument, part]) => sql`${sql.raw(argument)} => ${parts[part]}`,
+    );
+    return sql`MAKE_INTERVAL(${sql.join(args)})`;
+  },
+};
@@ -0,0 +1,164 @@
+import { type Query } from '@google-cloud/bigquery';
+import {
+  type CompiledQuery,
+  type KyselyPlugin,
+  type PluginTransformQueryArgs,
+  type PluginTransformResultArgs,
+  type QueryResult,
+  type RootOperationNode,
+  type UnknownRow,
+} from 'kysely';
+
+/**
+ * BigQuery job configuration that can be applied to queries.
+ */
+export interface BigQueryJobOptions {
+  /**
+   * Labels attached to the job, e.g. for cost attribution.
+   * Labels from the dialect defaults and the query are merged.
+   */
+  labels?: Record<string, string>;
+
+  /**
+   * Fails the job without incurring a charge if it would bill more bytes than this.
+   */
+  maximumBytesBilled?: number | string;
+
+  /**
+   * Job priority. `BATCH` jobs are queued until idle resources are available.
+   */
+  priority?: 'INTERACTIVE' | 'BATCH';
+
+  /**
+   * Geographic location the job runs in.
+   */
+  location?: string;
+
+  /**
+   * Whether to look for the result in the query cache.
+   */
+  useQueryCache?: boolean;
+
+  /**
+   * Maximum time the job may run before BigQuery cancels it.
+   */
+  jobTimeoutMs?: number;
+
+  /**
+   * Validates the query and estimates its cost without running it.
+   */
+  dryRun?: boolean;
+
+  /**
+   * Cancels the query's job when aborted. The query then rejects with BigQueryCancelledError.
+   * Not sent to BigQuery.
+   */
+  signal?: AbortSignal;
+}
+
+/* Job options keyed by the root node produced by the plugin */
+const jobOptionsByNode = new WeakMap<RootOperationNode, BigQueryJobOptions>();
+
+/**
+ * Kysely plugin that attaches BigQuery job options to a single query.
+ *
+ * Example:
+ * ```
+ * await db
+ *   .selectFrom('dataset.events')
+ *   .selectAll()
+ *   .withPlugin(new BigQueryJobOptionsPlugin({ priority: 'BATCH', labels: { team: 'finance' } }))
+ *   .execute();
+ * ```
+ *
+ * Options override the dialect's `jobDefaults`. Applying the plugin more than
+ * once merges the options, with later plugins taking precedence.
+ *
+ * The options are attached to the query node the plugin returns, so register
+ * it after every plugin that rewrites queries: a plugin that runs later and
+ * returns a new node, such as `CamelCasePlugin`, drops them. Plugins passed to
+ * the `Kysely` constructor always run before those added with `withPlugin()`.
+ */
+export class BigQueryJobOptionsPlugin implements KyselyPlugin {
+  readonly #options: BigQueryJobOptions;
+
+  constructor(options: BigQueryJobOptions) {
+    this.#options = options;
+  }
+
+  transformQuery(args: PluginTransformQueryArgs): RootOperationNode {
+    const node = Object.freeze({ ...args.node });
+    jobOptionsByNode.set(node, mergeJobOptions(jobOptionsByNode.get(args.node), this.#options));
+    return node;
+  }
+
+  transformResult(args: PluginTransformResultArgs): Promise<QueryResult<UnknownRow>> {
+    return Promise.resolve(args.result);
+  }
+}
+
+/**
+ * Returns the job options attached to a compiled query by BigQueryJobOptionsPlugin.
+ */
+export function getQueryJobOptions(compiledQuery: CompiledQuery): BigQueryJobOptions | undefined {
+  return jobOptionsByNode.get(compiledQuery.query);
+}
+
+/**
+ * Attaches the job options of a query to the node it is rewritten into, so
+ * the rewritten query runs with the same options.
+ * @param from - Root node the plugin attached the options to
+ * @param to - Root node the query is compiled from instead
+ */
+export function copyQueryJobOptions(from: RootOperationNode, to: RootOperationNode): void {
+  const options = jobOptionsByNode.get(from);
+  if (options) {
+    jobOptionsByNode.set(to, options);
+  }
+}
+
+/**
+ * Merges two sets of job options. Values from `overrides` win, labels are combined.
+ */
+export function mergeJobOptions(
+  defaults: BigQueryJobOptions | undefined,
+  overrides: BigQueryJobOptions | undefined,
+): BigQueryJobOptions {
+  const merged: BigQueryJobOptions = { ...defaults, ...overrides };
+  if (defaults?.labels || overrides?.labels) {
+    merged.labels = { ...defaults?.labels, ...overrides?.labels };
+  }
+  return merged;
+}
+
+/**
+ * Converts job options into the fields understood by the BigQuery client's query methods.
+ * Only options that are set are included.
+ */
+export function toQueryJobConfig(options: BigQueryJobOptions): Query {
+  const config: Query = {};
+
+  if (options.labels !== undefined) {
+    config.labels = options.labels;
+  }
+  if (options.maximumBytesBilled !== undefined) {
+    config.maximumBytesBilled = String(options.maximumBytesBilled);
+  }
+  if (options.priority !== undefined) {
+    config.priority = options.priority;
+  }
+  if (options.location !== undefined) {
+    config.location = options.location;
+  }
+  if (options.useQueryCache !== undefined) {
+    config.useQueryCache = options.useQueryCache;
+  }
+  if (options.jobTimeoutMs !== undefined) {
+    config.jobTimeoutMs = options.jobTimeoutMs;
+  }
+  if (options.dryRun !== undefined) {
+    config.dryRun = options.dryRun;
+  }
+
+  return config;
+}
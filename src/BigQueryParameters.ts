@@ -0,0 +1,796 @@
+import { type ProvidedTypeArray, type ProvidedTypeStruct } from '@google-cloud/bigquery';
+
+import { type GeoJsonGeometry, geoJsonToWkt, wktToGeoJson } from './BigQueryGeoJson';
+import { type BigQueryIntervalParts, BigQueryIntervalValue } from './BigQueryInterval';
+import { type BigQueryRangeElementType, BigQueryRangeValue } from './BigQueryRange';
+
+/**
+ * A parameter type in the form the BigQuery client accepts in `types`:
+ * a type name, a one-element array for `ARRAY<T>`, or an object of field
+ * types for `STRUCT<...>`.
+ */
+export type BigQueryParameterType = string | ProvidedTypeArray | ProvidedTypeStruct;
+
+/* Scalar types accepted by the BigQuery client, including its aliases */
+const SCALAR_TYPES = new Set([
+  'BIGDECIMAL',
+  'BIGINT',
+  'BIGNUMERIC',
+  'BOOL',
+  'BYTEINT',
+  'BYTES',
+  'DATE',
+  'DATETIME',
+  'DECIMAL',
+  'FLOAT',
+  'FLOAT64',
+  'GEOGRAPHY',
+  'INT',
+  'INT64',
+  'INTEGER',
+  'JSON',
+  'NUMERIC',
+  'SMALLINT',
+  'STRING',
+  'TIME',
+  'TIMESTAMP',
+  'TINYINT',
+]);
+
+/* Types the client cannot send as parameter types, so values of them are cast in SQL */
+const CAST_ONLY_TYPE_PATTERN = /^\s*(INTERVAL|RANGE\s*<\s*(DATE|DATETIME|TIMESTAMP)\s*>)\s*$/i;
+
+/* Letters, digits and underscores, not starting with a digit */
+const PARAMETER_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/* Names the compiler generates for unnamed parameters in named mode */
+const GENERATED_NAME_PATTERN = /^p\d+$/;
+
+/* A plain decimal number, without exponent */
+const DECIMAL_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+
+/* Formats of DATE, DATETIME and TIME values */
+const DATE_TIME_PATTERNS: Record<BigQueryDateTimeType, RegExp> = {
+  DATE: /^\d{4}-\d{1,2}-\d{1,2}$/,
+  DATETIME: /^\d{4}-\d{1,2}-\d{1,2}([ T]\d{1,2}:\d{1,2}:\d{1,2}(\.\d{1,6})?)?$/,
+  TIME: /^\d{1,2}:\d{1,2}:\d{1,2}(\.\d{1,6})?$/,
+};
+
+/*
+ * Value classes of the BigQuery client and the types they stand for. They are
+ * matched by name, so values created by another copy of the client are
+ * recognized as well.
+ */
+const CLIENT_VALUE_TYPES = new Map([
+  ['BigQueryDate', 'DATE'],
+  ['BigQueryDatetime', 'DATETIME'],
+  ['BigQueryInt', 'INT64'],
+  ['BigQueryTime', 'TIME'],
+  ['BigQueryTimestamp', 'TIMESTAMP'],
+  ['Geography', 'GEOGRAPHY'],
+]);
+
+/* Types the BigQuery client reads from a `value` property instead of the value itself */
+const WRAPPED_VALUE_TYPES = new Set(['DATE', 'DATETIME', 'TIME', 'TIMESTAMP', 'GEOGRAPHY']);
+
+/* Precision and scale of NUMERIC, and the scale of BIGNUMERIC */
+const NUMERIC_INTEGER_DIGITS = 29;
+const NUMERIC_FRACTION_DIGITS = 9;
+const BIGNUMERIC_FRACTION_DIGITS = 38;
+
+/**
+ * An arbitrary-precision decimal, such as a Big.js, decimal.js or
+ * bignumber.js instance. `toFixed()` without arguments must return the full
+ * value in plain notation, as those libraries do.
+ */
+export interface BigQueryDecimal {
+  toFixed(): string;
+}
+
+/**
+ * A value that can be sent as an exact NUMERIC or BIGNUMERIC parameter.
+ */
+export type BigQueryDecimalInput = string | number | bigint | BigQueryDecimal;
+
+/**
+ * The BigQuery types for civil dates and times, which have no time zone.
+ */
+export type BigQueryDateTimeType = 'DATE' | 'DATETIME' | 'TIME';
+
+/**
+ * A query parameter with a user-chosen name.
+ *
+ * Created with `bq.named()`. With the `namedParameters` dialect option the
+ * compiler emits it as `@name`, and every occurrence of the same name shares a
+ * single parameter. Without the option it is sent as a plain positional value.
+ */
+export class BigQueryNamedParameter<T = unknown> {
+  readonly name: string;
+  readonly value: T;
+
+  constructor(name: string, value: T) {
+    if (!PARAMETER_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid parameter name "${name}". Names must start with a letter or underscore and contain only letters, digits and underscores.`,
+      );
+    }
+    if (GENERATED_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid parameter name "${name}". Names of the form p0, p1, ... are reserved for generated parameters.`,
+      );
+    }
+    this.name = name;
+    this.value = value;
+  }
+}
+
+/**
+ * A query parameter with an explicit BigQuery type.
+ *
+ * Created with `bq.param()`. The type is sent in the query's `types`, so
+ * BigQuery does not have to infer it from the value. Needed for nulls of a
+ * non-STRING type, empty arrays and STRUCT values.
+ */
+export class BigQueryTypedParameter<T = unknown> {
+  readonly value: T;
+
+  /**
+   * The type descriptor as given, e.g. `ARRAY<INT64>`.
+   */
+  readonly type: string;
+
+  /**
+   * The type in the form the BigQuery client accepts.
+   */
+  readonly providedType: BigQueryParameterType;
+
+  constructor(value: T, type: string) {
+    this.value = value;
+    this.type = type;
+    this.providedType = parseParameterType(type);
+  }
+}
+
+/**
+ * Parses a type descriptor such as `INT64`, `ARRAY<INT64>` or
+ * `STRUCT<a INT64, b ARRAY<STRING>>` into the form the BigQuery client accepts.
+ * Type parameters like `NUMERIC(10, 2)` or `STRING(64)` are dropped.
+ * @param descriptor - BigQuery type, as written in SQL
+ * @returns The type for the query's `types`
+ * @throws Error if the descriptor is not a valid parameter type
+ */
+export function parseParameterType(descriptor: string): BigQueryParameterType {
+  const parser = new TypeDescriptorParser(descriptor);
+  const type = parser.parseType();
+  parser.expectEnd();
+  return type;
+}
+
+/**
+ * Recursive descent parser for BigQuery type descriptors.
+ */
+class TypeDescriptorParser {
+  readonly #descriptor: string;
+  readonly #tokens: string[];
+  #position = 0;
+
+  constructor(descriptor: string) {
+    this.#descriptor = descriptor;
+    this.#tokens = descriptor.match(/[A-Za-z_][A-Za-z0-9_]*|\d+|[<>(),]|\S/g) ?? [];
+  }
+
+  parseType(): BigQueryParameterType {
+    const name = this.#next().toUpperCase();
+
+    if (name === 'ARRAY') {
+      this.#expect('<');
+      const elementType = this.parseType();
+      if (Array.isArray(elementType)) {
+        throw this.#error('BigQuery does not support arrays of arrays');
+      }
+      this.#expect('>');
+      return [elementType] as ProvidedTypeArray;
+    }
+
+    if (name === 'STRUCT') {
+      this.#expect('<');
+      const fields: ProvidedTypeStruct = {};
+      do {
+        const field = this.#next();
+        const next = this.#tokens[this.#position];
+        if (!PARAMETER_NAME_PATTERN.test(field) || next === ',' || next === '>') {
+          throw this.#error('STRUCT fields need a name and a type');
+        }
+        fields[field] = this.parseType();
+      } while (this.#accept(','));
+      this.#expect('>');
+      return fields;
+    }
+
+    if (!SCALAR_TYPES.has(name)) {
+      throw this.#error(`unknown type "${name}"`);
+    }
+
+    /* Drop type parameters, which only constrain columns */
+    if (this.#accept('(')) {
+      while (!this.#accept(')')) {
+        this.#next();
+      }
+    }
+    return name;
+  }
+
+  expectEnd(): void {
+    if (this.#position < this.#tokens.length) {
+      throw this.#error(`unexpected "${this.#tokens[this.#position]}"`);
+    }
+  }
+
+  #next(): string {
+    const token = this.#tokens[this.#position++];
+    if (token === undefined) {
+      throw this.#error('unexpected end of type');
+    }
+    return token;
+  }
+
+  #accept(token: string): boolean {
+    if (this.#tokens[this.#position] === token) {
+      this.#position++;
+      return true;
+    }
+    return false;
+  }
+
+  #expect(token: string): void {
+    const actual = this.#next();
+    if (actual !== token) {
+      throw this.#error(`expected "${token}" but found "${actual}"`);
+    }
+  }
+
+  #error(reason: string): Error {
+    return new Error(`Invalid parameter type "${this.#descriptor}": ${reason}.`);
+  }
+}
+
+/**
+ * Returns the type of an INTERVAL or RANGE descriptor, which the client cannot
+ * send as a parameter type. Values for columns of these types are cast in SQL.
+ * @param descriptor - BigQuery type, as written in SQL
+ * @returns The normalized type, e.g. `RANGE<DATE>`, or undefined for other types
+ */
+export function getCastOnlyType(descriptor: string): string | undefined {
+  const match = CAST_ONLY_TYPE_PATTERN.exec(descriptor);
+  if (!match) {
+    return undefined;
+  }
+  return match[2] === undefined ? 'INTERVAL' : `RANGE<${match[2].toUpperCase()}>`;
+}
+
+/**
+ * Returns the name BigQuery receives a compiled parameter under.
+ * @param parameter - A value from `CompiledQuery.parameters`
+ * @param index - Position of the parameter in `CompiledQuery.parameters`
+ */
+export function getParameterName(parameter: unknown, index: number): string {
+  return parameter instanceof BigQueryNamedParameter ? parameter.name : `p${index}`;
+}
+
+/**
+ * Returns the value to send to BigQuery for a compiled parameter.
+ * @param parameter - A value from `CompiledQuery.parameters`
+ */
+export function getParameterValue(parameter: unknown): unknown {
+  const value = parameter instanceof BigQueryNamedParameter ? parameter.value : parameter;
+  return value instanceof BigQueryTypedParameter ? value.value : value;
+}
+
+/**
+ * Returns the explicit type of a compiled parameter, if it has one.
+ * @param parameter - A value from `CompiledQuery.parameters`
+ */
+export function getParameterType(parameter: unknown): BigQueryParameterType | undefined {
+  const value = parameter instanceof BigQueryNamedParameter ? parameter.value : parameter;
+  return value instanceof BigQueryTypedParameter ? value.providedType : undefined;
+}
+
+/**
+ * Returns the type a value has to be sent with to keep its exact value, if
+ * BigQuery would infer it wrongly: `INT64` for a bigint, `NUMERIC` or
+ * `BIGNUMERIC` for a decimal object, the type of a BigQuery client value such
+ * as `BigQueryDate`, and the matching ARRAY type for arrays containing those.
+ * @param value - A parameter value
+ */
+export function getExactValueType(value: unknown): BigQueryParameterType | undefined {
+  if (typeof value === 'bigint') {
+    return 'INT64';
+  }
+  if (isDecimal(value)) {
+    return getDecimalType(value.toFixed());
+  }
+  const clientType = getClientValueType(value);
+  if (clientType !== undefined) {
+    return clientType;
+  }
+  if (Array.isArray(value)) {
+    if (value.some((item) => typeof item === 'bigint')) {
+      return ['INT64'] as ProvidedTypeArray;
+    }
+    const decimals = value.filter(isDecimal);
+    if (decimals.length > 0) {
+      const big = decimals.some((item) => getDecimalType(item.toFixed()) === 'BIGNUMERIC');
+      return [big ? 'BIGNUMERIC' : 'NUMERIC'] as ProvidedTypeArray;
+    }
+    const itemType = value.map(getClientValueType).find((type) => type !== undefined);
+    if (itemType !== undefined) {
+      return [itemType] as ProvidedTypeArray;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Prepares a parameter value for the BigQuery client.
+ *
+ * The client cannot send bigints or decimal objects, so both are sent as
+ * their decimal string, which BigQuery reads exactly when the type is INT64,
+ * NUMERIC or BIGNUMERIC. For DATE, DATETIME, TIME, TIMESTAMP and GEOGRAPHY
+ * types the client reads the `value` property, so strings are wrapped, and
+ * Dates sent as DATE, DATETIME or TIME are formatted for the type in UTC.
+ * Arrays and STRUCT values are converted element by element.
+ * @param value - A parameter value
+ * @param type - The type the parameter is sent with, if any
+ */
+export function toQueryValue(value: unknown, type?: BigQueryParameterType): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (isDecimal(value)) {
+    return value.toFixed();
+  }
+  if (value instanceof Date && typeof type === 'string' && isDateTimeType(type)) {
+    return { value: formatDateTime(value, type) };
+  }
+  if (typeof value === 'string' && typeof type === 'string' && WRAPPED_VALUE_TYPES.has(type)) {
+    return { value };
+  }
+  if (Array.isArray(value)) {
+    const itemType = Array.isArray(type) ? (type as BigQueryParameterType[])[0] : undefined;
+    if (itemType === undefined && !value.some(containsExactValue)) {
+      return value;
+    }
+    /* The client converts Dates to TIMESTAMP values everywhere except in arrays */
+    return value.map((item) =>
+      itemType === 'TIMESTAMP' && item instanceof Date
+        ? { value: item.toISOString() }
+        : toQueryValue(item, itemType),
+    );
+  }
+  if (isPlainObject(value)) {
+    const fieldTypes = isPlainObject(type) ? (type as ProvidedTypeStruct) : undefined;
+    return fieldTypes !== undefined || containsExactValue(value)
+      ? Object.fromEntries(
+          Object.entries(value).map(([k, v]) => [k, toQueryValue(v, fieldTypes?.[k])]),
+        )
+      : value;
+  }
+  return value;
+}
+
+/**
+ * Returns the type of a value class of the BigQuery client, such as
+ * `BigQueryDate`, `BigQueryTimestamp` or `Geography`.
+ * @param value - Any value
+ */
+export function getClientValueType(value: unknown): string | undefined {
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+  const name = (value as { constructor?: { name?: unknown } }).constructor?.name;
+  return typeof name === 'string' ? CLIENT_VALUE_TYPES.get(name) : undefined;
+}
+
+/**
+ * Determines whether a value is a decimal object from Big.js, decimal.js or
+ * bignumber.js. The BigQuery client returns NUMERIC and BIGNUMERIC values as
+ * Big.js instances.
+ * @param value - Any value
+ */
+export function isDecimal(value: unknown): value is BigQueryDecimal {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  /* Big.js and bignumber.js keep their digits in `c`, decimal.js in `d` */
+  const { c, d, e, s, toFixed } = value as Record<string, unknown>;
+  return (
+    (Array.isArray(c) || Array.isArray(d)) &&
+    typeof e === 'number' &&
+    typeof s === 'number' &&
+    typeof toFixed === 'function'
+  );
+}
+
+function containsExactValue(value: unknown): boolean {
+  if (typeof value === 'bigint' || isDecimal(value)) {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.some(containsExactValue);
+  }
+  return isPlainObject(value) && Object.values(value).some(containsExactValue);
+}
+
+function isDateTimeType(type: string): type is BigQueryDateTimeType {
+  return type === 'DATE' || type === 'DATETIME' || type === 'TIME';
+}
+
+/**
+ * Formats a Date as a DATE, DATETIME or TIME value, in UTC.
+ */
+function formatDateTime(date: Date, type: BigQueryDateTimeType): string {
+  const iso = date.toISOString();
+  switch (type) {
+    case 'DATE':
+      return iso.slice(0, 10);
+    case 'DATETIME':
+      return `${iso.slice(0, 10)} ${iso.slice(11, 23)}`;
+    case 'TIME':
+      return iso.slice(11, 23);
+  }
+}
+
+/**
+ * Creates a DATE, DATETIME or TIME parameter, checking the value's format.
+ */
+function createDateTimeParameter(
+  value: string | Date | null,
+  type: BigQueryDateTimeType,
+): BigQueryTypedParameter<string | null> {
+  if (value === null) {
+    return new BigQueryTypedParameter(null, type);
+  }
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      throw new Error(`Invalid ${type} value "${String(value)}".`);
+    }
+    return new BigQueryTypedParameter(formatDateTime(value, type), type);
+  }
+  if (!DATE_TIME_PATTERNS[type].test(value)) {
+    throw new Error(`Invalid ${type} value "${value}".`);
+  }
+  return new BigQueryTypedParameter(value, type);
+}
+
+/**
+ * Creates a RANGE value, inferring the element type from the bounds if it is
+ * not given and checking DATE and DATETIME strings.
+ */
+function createRange(
+  start: string | Date | null,
+  end: string | Date | null,
+  elementType: BigQueryRangeElementType | undefined,
+): BigQueryRangeValue<string | Date> {
+  const type = elementType ?? inferRangeElementType(start) ?? inferRangeElementType(end);
+  if (type === undefined) {
+    throw new Error('Cannot infer the element type of a RANGE without bounds. Pass the type.');
+  }
+  for (const bound of [start, end]) {
+    const boundType = bound instanceof Date ? 'TIMESTAMP' : inferRangeElementType(bound);
+    const invalid =
+      bound instanceof Date
+        ? Number.isNaN(bound.getTime())
+        : typeof bound === 'string' &&
+          type !== 'TIMESTAMP' &&
+          !DATE_TIME_PATTERNS[type].test(bound);
+    if (invalid || (elementType === undefined && bound !== null && boundType !== type)) {
+      throw new Error(`Invalid RANGE<${type}> bound "${String(bound)}".`);
+    }
+  }
+  return new BigQueryRangeValue(start, end, type);
+}
+
+/**
+ * Creates a parameter for a RANGE bound given as a string: DATE or DATETIME
+ * by its format, and TIMESTAMP otherwise, as `bq.range()` infers it.
+ * @param bound - Bound value
+ * @returns The typed parameter
+ */
+export function createRangeBoundParameter(bound: string): BigQueryTypedParameter<string> {
+  return new BigQueryTypedParameter(bound, inferRangeElementType(bound) ?? 'TIMESTAMP');
+}
+
+/**
+ * Infers the RANGE element type of a bound: TIMESTAMP for Dates, and DATE or
+ * DATETIME for strings in those formats.
+ */
+function inferRangeElementType(bound: string | Date | null): BigQueryRangeElementType | undefined {
+  if (bound === null) {
+    return undefined;
+  }
+  if (bound instanceof Date) {
+    return 'TIMESTAMP';
+  }
+  if (DATE_TIME_PATTERNS.DATE.test(bound)) {
+    return 'DATE';
+  }
+  return DATE_TIME_PATTERNS.DATETIME.test(bound) ? 'DATETIME' : 'TIMESTAMP';
+}
+
+/**
+ * Converts a decimal input to a plain decimal string.
+ */
+function toDecimalString(value: BigQueryDecimalInput): string {
+  const decimal =
+    typeof value === 'string'
+      ? value.trim()
+      : typeof value === 'number' || typeof value === 'bigint'
+        ? String(value)
+        : value.toFixed();
+  if (!DECIMAL_PATTERN.test(decimal)) {
+    throw new Error(`Invalid decimal value "${String(value)}".`);
+  }
+  return decimal;
+}
+
+/**
+ * Counts the significant integer and fractional digits of a decimal string.
+ */
+function countDecimalDigits(decimal: string): { integer: number; fraction: number } {
+  const [integer = '', fraction = ''] = decimal.replace(/^[+-]/, '').split('.');
+  return {
+    integer: integer.replace(/^0+/, '').length,
+    fraction: fraction.replace(/0+$/, '').length,
+  };
+}
+
+/**
+ * Returns the smallest decimal type that holds a decimal string exactly.
+ */
+function getDecimalType(decimal: string): 'NUMERIC' | 'BIGNUMERIC' {
+  const digits = countDecimalDigits(decimal);
+  return digits.integer <= NUMERIC_INTEGER_DIGITS && digits.fraction <= NUMERIC_FRACTION_DIGITS
+    ? 'NUMERIC'
+    : 'BIGNUMERIC';
+}
+
+/**
+ * Creates an exact decimal parameter, checking that the value fits the type.
+ */
+function createDecimalParameter(
+  value: BigQueryDecimalInput | null,
+  type: 'NUMERIC' | 'BIGNUMERIC',
+): BigQueryTypedParameter<string | null> {
+  if (value === null) {
+    return new BigQueryTypedParameter(null, type);
+  }
+
+  const decimal = toDecimalString(value);
+  const digits = countDecimalDigits(decimal);
+  if (type === 'NUMERIC' && getDecimalType(decimal) !== 'NUMERIC') {
+    throw new Error(
+      `Decimal value "${decimal}" does not fit NUMERIC, which allows ${NUMERIC_INTEGER_DIGITS} integer and ${NUMERIC_FRACTION_DIGITS} fractional digits. Use bq.bignumeric() instead.`,
+    );
+  }
+  if (digits.fraction > BIGNUMERIC_FRACTION_DIGITS) {
+    throw new Error(
+      `Decimal value "${decimal}" does not fit BIGNUMERIC, which allows ${BIGNUMERIC_FRACTION_DIGITS} fractional digits.`,
+    );
+  }
+  return new BigQueryTypedParameter(decimal, type);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype
+  );
+}
+
+/**
+ * Helpers for passing parameters to `sql` templates and query builders.
+ */
+export const bq = {
+  /**
+   * Wraps a value as a named parameter, so the compiled SQL reads `@name`
+   * instead of `@p0` and the same value can be referenced more than once.
+   *
+   * Requires the `namedParameters` dialect option to emit named placeholders.
+   *
+   * Example:
+   * ```
+   * const since = bq.named('since', new Date('2024-01-01'));
+   * sql`select * from dataset.events where created_at >= ${since} or updated_at >= ${since}`
+   * ```
+   * @param name - Parameter name, without the leading `@`
+   * @param value - Parameter value
+   * @returns The named parameter
+   * @throws Error if the name is not a valid BigQuery parameter name
+   */
+  named<T>(name: string, value: T): BigQueryNamedParameter<T> {
+    return new BigQueryNamedParameter(name, value);
+  },
+
+  /**
+   * Wraps a value with an explicit BigQuery type.
+   *
+   * Use it where the type cannot be inferred from the value: nulls compared
+   * with non-STRING columns, empty arrays, and STRUCT values. Can be combined
+   * with `bq.named()`.
+   *
+   * Example:
+   * ```
+   * db.selectFrom('dataset.orders').selectAll().where('amount', '=', bq.param(null, 'NUMERIC'))
+   * sql`select * from unnest(${bq.param([], 'ARRAY<INT64>')})`
+   * sql`select ${bq.param({ a: 1, b: 'x' }, 'STRUCT<a INT64, b STRING>')}.a`
+   * ```
+   * @param value - Parameter value
+   * @param type - BigQuery type, e.g. `INT64`, `ARRAY<INT64>` or `STRUCT<a INT64, b STRING>`
+   * @returns The typed parameter
+   * @throws Error if the type is not a valid parameter type
+   */
+  param<T>(value: T, type: string): BigQueryTypedParameter<T> {
+    return new BigQueryTypedParameter(value, type);
+  },
+
+  /**
+   * Wraps a decimal as an exact NUMERIC parameter.
+   *
+   * The value is sent as a decimal string, so no precision is lost to
+   * FLOAT64. Strings, bigints and Big.js, decimal.js or bignumber.js
+   * instances keep every digit; numbers are sent as JavaScript prints them.
+   *
+   * Example:
+   * ```
+   * db.insertInto('billing.invoices').values({ id: 1, amount: bq.numeric('19.99') })
+   * ```
+   * @param value - Decimal value, or null for a NUMERIC null
+   * @returns The typed parameter
+   * @throws Error if the value is not a plain decimal or has more than 29 integer or 9 fractional digits
+   */
+  numeric(value: BigQueryDecimalInput | null): BigQueryTypedParameter<string | null> {
+    return createDecimalParameter(value, 'NUMERIC');
+  },
+
+  /**
+   * Wraps a decimal as an exact BIGNUMERIC parameter, for values with up to 38
+   * fractional digits.
+   *
+   * Example:
+   * ```
+   * sql`select ${bq.bignumeric('0.000000000000000000000000000001')} * rate from dataset.rates`
+   * ```
+   * @param value - Decimal value, or null for a BIGNUMERIC null
+   * @returns The typed parameter
+   * @throws Error if the value is not a plain decimal or has more than 38 fractional digits
+   */
+  bignumeric(value: BigQueryDecimalInput | null): BigQueryTypedParameter<string | null> {
+    return createDecimalParameter(value, 'BIGNUMERIC');
+  },
+
+  /**
+   * Wraps a value as a DATE parameter.
+   *
+   * A JavaScript Date would be sent as TIMESTAMP. Dates are converted to the
+   * calendar date in UTC; pass a `YYYY-MM-DD` string to avoid time zones.
+   *
+   * Example:
+   * ```
+   * db.selectFrom('dataset.orders').selectAll().where('order_date', '=', bq.date('2024-01-15'))
+   * ```
+   * @param value - `YYYY-MM-DD` string or Date, or null for a DATE null
+   * @returns The typed parameter
+   * @throws Error if the value is not a valid DATE
+   */
+  date(value: string | Date | null): BigQueryTypedParameter<string | null> {
+    return createDateTimeParameter(value, 'DATE');
+  },
+
+  /**
+   * Wraps a value as a DATETIME parameter.
+   *
+   * Dates are converted to the date and time in UTC; pass a
+   * `YYYY-MM-DD HH:MM:SS[.FFFFFF]` string to avoid time zones.
+   *
+   * Example:
+   * ```
+   * sql`select * from dataset.events where local_time < ${bq.datetime('2024-01-15 09:00:00')}`
+   * ```
+   * @param value - DATETIME string or Date, or null for a DATETIME null
+   * @returns The typed parameter
+   * @throws Error if the value is not a valid DATETIME
+   */
+  datetime(value: string | Date | null): BigQueryTypedParameter<string | null> {
+    return createDateTimeParameter(value, 'DATETIME');
+  },
+
+  /**
+   * Wraps a value as a TIME parameter.
+   *
+   * Dates are converted to the time of day in UTC.
+   *
+   * Example:
+   * ```
+   * sql`select * from dataset.shifts where starts_at >= ${bq.time('08:30:00')}`
+   * ```
+   * @param value - `HH:MM:SS[.FFFFFF]` string or Date, or null for a TIME null
+   * @returns The typed parameter
+   * @throws Error if the value is not a valid TIME
+   */
+  time(value: string | Date | null): BigQueryTypedParameter<string | null> {
+    return createDateTimeParameter(value, 'TIME');
+  },
+
+  /**
+   * Wraps a value as a GEOGRAPHY parameter.
+   *
+   * WKT strings are sent as given, and GeoJSON geometries are converted to WKT.
+   * Without a type BigQuery would read WKT as STRING and GeoJSON as a STRUCT.
+   *
+   * Example:
+   * ```
+   * const zone = bq.geography({ type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]]] });
+   * sql`select * from dataset.stops where ST_CONTAINS(${zone}, location)`
+   * ```
+   * @param value - WKT string or GeoJSON geometry, or null for a GEOGRAPHY null
+   * @returns The typed parameter, with the value as WKT
+   * @throws Error if the value is not valid WKT or GeoJSON
+   */
+  geography(value: string | GeoJsonGeometry | null): BigQueryTypedParameter<string | null> {
+    if (value === null) {
+      return new BigQueryTypedParameter(null, 'GEOGRAPHY');
+    }
+    if (typeof value === 'string') {
+      wktToGeoJson(value);
+      return new BigQueryTypedParameter(value, 'GEOGRAPHY');
+    }
+    return new BigQueryTypedParameter(geoJsonToWkt(value), 'GEOGRAPHY');
+  },
+
+  /**
+   * Creates an INTERVAL value.
+   *
+   * The client cannot send INTERVAL parameters, so the value is sent as a
+   * string and cast in SQL: `CAST(? AS INTERVAL)`.
+   *
+   * Example:
+   * ```
+   * db.insertInto('dataset.plans').values({ id: 1, trial: bq.interval({ days: 14 }) })
+   * sql`select TIMESTAMP_ADD(created_at, ${bq.interval('0-1 0 0:0:0')}) from dataset.plans`
+   * ```
+   * @param value - Interval parts, or a string in BigQuery's canonical format
+   *   such as `1-2 3 4:5:6` (1 year, 2 months, 3 days, 4:05:06)
+   * @returns The interval
+   * @throws Error if the string is not in the canonical format or a part is not an integer
+   */
+  interval(value: string | BigQueryIntervalParts): BigQueryIntervalValue {
+    return typeof value === 'string'
+      ? BigQueryIntervalValue.parse(value)
+      : new BigQueryIntervalValue(value);
+  },
+
+  /**
+   * Creates a RANGE value from `start` (inclusive) to `end` (exclusive).
+   *
+   * It is sent as `RANGE(?, ?)`, with both bounds typed by the element type.
+   * Without a type, Dates make a RANGE<TIMESTAMP>, and `YYYY-MM-DD` and
+   * DATETIME strings a RANGE<DATE> or RANGE<DATETIME>.
+   *
+   * Example:
+   * ```
+   * db.insertInto('dataset.bookings').values({ id: 1, period: bq.range('2024-01-01', '2024-01-08') })
+   * sql`select * from dataset.bookings where RANGE_OVERLAPS(period, ${bq.range(new Date(), null)})`
+   * ```
+   * @param start - Inclusive lower bound, or null for unbounded
+   * @param end - Exclusive upper bound, or null for unbounded
+   * @param elementType - DATE, DATETIME or TIMESTAMP; inferred from the bounds if omitted
+   * @returns The range
+   * @throws Error if a bound does not match the element type, or both are null without a type
+   */
+  range(
+    start: string | Date | null,
+    end: string | Date | null,
+    elementType?: BigQueryRangeElementType,
+  ): BigQueryRangeValue<string | Date> {
+    return createRange(start, end, elementType);
+  },
+};
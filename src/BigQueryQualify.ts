@@ -0,0 +1,98 @@
+import {
+  type ComparisonOperatorExpression,
+  type Expression,
+  type ExpressionBuilder,
+  expressionBuilder,
+  type OperandValueExpressionOrList,
+  type ReferenceExpression,
+  type SelectQueryBuilder,
+  type SqlBool,
+  sql,
+} from 'kysely';
+
+/**
+ * Tables of a select query with its selected columns added to the tables the
+ * query selects from, so a QUALIFY condition can refer to the aliases of
+ * window functions.
+ */
+export type BigQueryQualifyDatabase<DB, TB extends keyof DB, O> = {
+  [K in keyof DB]: K extends TB ? Omit<DB[K], keyof O> & O : DB[K];
+};
+
+/**
+ * Adds a `QUALIFY` clause to a select query, filtering rows by the result of
+ * window functions. Use it with `$call()`; the condition can refer to
+ * selected aliases and takes the same arguments as `where()`. Calling it more
+ * than once combines the conditions with AND.
+ *
+ * BigQueryCompiler emits the clause after `WHERE`, `GROUP BY` and `HAVING`, and
+ * adds `WHERE TRUE` when none of them is present, as QUALIFY requires.
+ *
+ * Example:
+ * ```
+ * db.selectFrom('dataset.events')
+ *   .select((eb) => [
+ *     'id',
+ *     'payload',
+ *     eb.fn.agg<number>('row_number').over((ob) => ob.partitionBy('id').orderBy('ts', 'desc')).as('rn'),
+ *   ])
+ *   .$call(qualify('rn', '=', 1))
+ * ```
+ * @param lhs - Column, selected alias or expression to compare
+ * @param op - Comparison operator
+ * @param rhs - Value or expression to compare with
+ * @returns A function for `$call()` that adds the clause
+ */
+export function qualify<
+  DB,
+  TB extends keyof DB,
+  O,
+  RE extends ReferenceExpression<BigQueryQualifyDatabase<DB, TB, O>, TB>,
+>(
+  lhs: RE,
+  op: ComparisonOperatorExpression,
+  rhs: OperandValueExpressionOrList<BigQueryQualifyDatabase<DB, TB, O>, TB, RE>,
+): (qb: SelectQueryBuilder<DB, TB, O>) => SelectQueryBuilder<DB, TB, O>;
+
+/**
+ * Adds a `QUALIFY` clause with a condition built by a callback, e.g.
+ * `qualify((eb) => eb.or([eb('rn', '=', 1), eb('rank', '<=', 3)]))`.
+ * @param expression - Callback returning the condition, or the condition
+ * @returns A function for `$call()` that adds the clause
+ */
+export function qualify<DB, TB extends keyof DB, O>(
+  expression:
+    | ((eb: ExpressionBuilder<BigQueryQualifyDatabase<DB, TB, O>, TB>) => Expression<SqlBool>)
+    | Expression<SqlBool>,
+): (qb: SelectQueryBuilder<DB, TB, O>) => SelectQueryBuilder<DB, TB, O>;
+
+export function qualify<DB, TB extends keyof DB, O>(
+  ...args:
+    | [
+        ReferenceExpression<BigQueryQualifyDatabase<DB, TB, O>, TB>,
+        ComparisonOperatorExpression,
+        OperandValueExpressionOrList<
+          BigQueryQualifyDatabase<DB, TB, O>,
+          TB,
+          ReferenceExpression<BigQueryQualifyDatabase<DB, TB, O>, TB>
+        >,
+      ]
+    | [
+        | ((eb: ExpressionBuilder<BigQueryQualifyDatabase<DB, TB, O>, TB>) => Expression<SqlBool>)
+        | Expression<SqlBool>,
+      ]
+): (qb: SelectQueryBuilder<DB, TB, O>) => SelectQueryBuilder<DB, TB, O> {
+  return (qb) => {
+    /* The condition may refer to selected aliases, which the query's own builder does not know */
+    const eb = expressionBuilder<BigQueryQualifyDatabase<DB, TB, O>, TB>();
+    let condition: Expression<SqlBool>;
+    if (args.length === 3) {
+      condition = eb(args[0], args[1], args[2]);
+    } else if (typeof args[0] === 'function') {
+      condition = args[0](eb);
+    } else {
+      condition = args[0];
+    }
+    return qb.modifyEnd(sql`qualify ${condition}`);
+  };
+}
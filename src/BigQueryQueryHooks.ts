@@ -0,0 +1,326 @@
+import { type Job, type JobMetadata } from '@google-cloud/bigquery';
+
+import { type BigQueryQueryStatistics } from './BigQueryConnection';
+import { type BigQueryRetryEvent } from './BigQueryRetryPolicy';
+
+/**
+ * Emitted when BigQuery accepts the job for a query.
+ */
+export interface BigQueryJobCreatedEvent {
+  sql: string;
+  jobId: string;
+  location: string | undefined;
+  /** Job state reported on creation, usually `RUNNING` or `PENDING` */
+  state: string | undefined;
+}
+
+/**
+ * Emitted once the job for a query is running: on creation when BigQuery
+ * starts it right away, otherwise once a poll of the job finds it started.
+ */
+export interface BigQueryJobRunningEvent {
+  sql: string;
+  jobId: string;
+  location: string | undefined;
+}
+
+/**
+ * Emitted when the job for a query has finished successfully.
+ */
+export interface BigQueryJobDoneEvent {
+  sql: string;
+  jobId: string;
+  /** Time since the query was started, including retries */
+  durationMs: number;
+  statistics: BigQueryQueryStatistics;
+}
+
+/**
+ * Emitted when a query fails for good, after any retries.
+ */
+export interface BigQueryQueryFailedEvent {
+  sql: string;
+  /** Id of the last job created for the query, when one was created */
+  jobId: string | undefined;
+  durationMs: number;
+  error: unknown;
+}
+
+/**
+ * Emitted when a stream has been read to the end or closed early.
+ */
+export interface BigQueryStreamEndEvent {
+  sql: string;
+  jobId: string | undefined;
+  durationMs: number;
+  /** Number of rows yielded to the consumer */
+  rowCount: number;
+}
+
+/**
+ * Emitted when a hook or the `onQueryStatistics` callback throws.
+ */
+export interface BigQueryHookErrorEvent {
+  sql: string;
+  /** Name of the callback that threw, e.g. `onJobDone` */
+  hook: string;
+  error: unknown;
+}
+
+/**
+ * Callbacks for the lifecycle of queries run through the dialect.
+ *
+ * An error thrown by a callback never fails the query: it is passed to
+ * `onHookError` and recorded as a `hook_error` span event instead.
+ */
+export interface BigQueryQueryHooks {
+  onJobCreated?: (event: BigQueryJobCreatedEvent) => void;
+  onJobRunning?: (event: BigQueryJobRunningEvent) => void;
+  onJobDone?: (event: BigQueryJobDoneEvent) => void;
+  onQueryRetry?: (event: BigQueryRetryEvent) => void;
+  onQueryFailed?: (event: BigQueryQueryFailedEvent) => void;
+  onStreamEnd?: (event: BigQueryStreamEndEvent) => void;
+  onHookError?: (event: BigQueryHookErrorEvent) => void;
+}
+
+/**
+ * The hooks that report query lifecycle events.
+ */
+type BigQueryLifecycleHook = Exclude<keyof BigQueryQueryHooks, 'onHookError'>;
+
+/**
+ * Attribute values accepted by BigQuerySpan.
+ */
+export type BigQuerySpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * The part of an OpenTelemetry `Span` the dialect uses.
+ */
+export interface BigQuerySpan {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  addEvent(name: string, attributes?: BigQuerySpanAttributes): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(): void;
+}
+
+/**
+ * The part of an OpenTelemetry `Tracer` the dialect uses.
+ *
+ * A tracer from `@opentelemetry/api` (`trace.getTracer('my-service')`) can be
+ * passed as is; the dialect does not depend on the OpenTelemetry packages.
+ */
+export interface BigQueryTracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: BigQuerySpanAttributes },
+  ): BigQuerySpan;
+}
+
+/* Values of the OpenTelemetry SpanKind.CLIENT and SpanStatusCode.ERROR enums */
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+const RUNNING_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Follows a single query, forwarding its lifecycle to the configured hooks
+ * and recording it as a span on the configured tracer.
+ */
+export class BigQueryQueryObserver {
+  readonly #sql: string;
+  readonly #hooks: BigQueryQueryHooks;
+  readonly #span: BigQuerySpan | undefined;
+  readonly #startedAt = Date.now();
+  #jobId: string | undefined;
+  #location: string | undefined;
+  #runningJobId: string | undefined;
+  #ended = false;
+
+  constructor(sql: string, hooks: BigQueryQueryHooks = {}, tracer?: BigQueryTracer) {
+    this.#sql = sql;
+    this.#hooks = hooks;
+    this.#span = tracer?.startSpan('bigquery.query', {
+      kind: SPAN_KIND_CLIENT,
+      attributes: { 'db.system': 'bigquery', 'db.statement': sql },
+    });
+  }
+
+  jobCreated(job: Job, state: string | undefined): void {
+    this.#jobId = job.id;
+    this.#location = job.location;
+    this.#span?.setAttribute('bigquery.job_id', job.id as string);
+    if (job.location) {
+      this.#span?.setAttribute('bigquery.location', job.location);
+    }
+    this.#emit('onJobCreated', {
+      sql: this.#sql,
+      jobId: job.id as string,
+      location: job.location,
+      state,
+    });
+
+    if (state === 'RUNNING' || state === 'DONE') {
+      this.#running();
+    } else if (this.#hooks.onJobRunning) {
+      this.#pollUntilRunning(job);
+    }
+  }
+
+  jobDone(statistics: BigQueryQueryStatistics): void {
+    const span = this.#span;
+    if (span) {
+      if (statistics.location) {
+        span.setAttribute('bigquery.location', statistics.location);
+      }
+      if (statistics.totalBytesBilled !== undefined) {
+        span.setAttribute('bigquery.total_bytes_billed', Number(statistics.totalBytesBilled));
+      }
+      if (statistics.totalBytesProcessed !== undefined) {
+        span.setAttribute('bigquery.total_bytes_processed', Number(statistics.totalBytesProcessed));
+      }
+      if (statistics.totalSlotMs !== undefined) {
+        span.setAttribute('bigquery.total_slot_ms', Number(statistics.totalSlotMs));
+      }
+      span.setAttribute('bigquery.cache_hit', statistics.cacheHit);
+    }
+    /* A job that finished before a poll found it running still ran */
+    this.#running();
+    this.#emit('onJobDone', {
+      sql: this.#sql,
+      jobId: statistics.jobId,
+      durationMs: this.#elapsed(),
+      statistics,
+    });
+  }
+
+  retried(event: BigQueryRetryEvent): void {
+    this.#span?.addEvent('retry', {
+      attempt: event.attempt,
+      delay_ms: event.delayMs,
+      reason: event.error.reason ?? 'unknown',
+    });
+    this.#emit('onQueryRetry', event);
+  }
+
+  failed(error: unknown): void {
+    if (this.#ended) {
+      return;
+    }
+    if (this.#span) {
+      this.#span.recordException(error instanceof Error ? error : String(error));
+      this.#span.setStatus({
+        code: SPAN_STATUS_ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+    this.#end();
+    this.#emit('onQueryFailed', {
+      sql: this.#sql,
+      jobId: this.#jobId,
+      durationMs: this.#elapsed(),
+      error,
+    });
+  }
+
+  streamEnded(rowCount: number): void {
+    if (this.#ended) {
+      return;
+    }
+    this.#span?.setAttribute('bigquery.row_count', rowCount);
+    this.#end();
+    this.#emit('onStreamEnd', {
+      sql: this.#sql,
+      jobId: this.#jobId,
+      durationMs: this.#elapsed(),
+      rowCount,
+    });
+  }
+
+  succeeded(): void {
+    this.#end();
+  }
+
+  /**
+   * Reports an error thrown by a callback to `onHookError` and the span, so
+   * it does not fail the query.
+   */
+  hookFailed(hook: string, error: unknown): void {
+    this.#span?.addEvent('hook_error', {
+      hook,
+      message: error instanceof Error ? error.message : String(error),
+    });
+    try {
+      this.#hooks.onHookError?.({ sql: this.#sql, hook, error });
+    } catch {
+      /* An error handler that throws has nowhere left to report to */
+    }
+  }
+
+  #emit<K extends BigQueryLifecycleHook>(
+    hook: K,
+    event: Parameters<NonNullable<BigQueryQueryHooks[K]>>[0],
+  ): void {
+    const callback = this.#hooks[hook] as ((event: unknown) => void) | undefined;
+    try {
+      callback?.(event);
+    } catch (error) {
+      this.hookFailed(hook, error);
+    }
+  }
+
+  /**
+   * Reports the current job as running, once per job.
+   */
+  #running(): void {
+    const jobId = this.#jobId;
+    if (jobId === undefined || this.#runningJobId === jobId) {
+      return;
+    }
+    this.#runningJobId = jobId;
+    this.#emit('onJobRunning', { sql: this.#sql, jobId, location: this.#location });
+  }
+
+  /**
+   * Polls a pending job until it starts. Stops when the query ends or a retry
+   * creates another job; failed polls are not retried.
+   */
+  #pollUntilRunning(job: Job): void {
+    const isCurrent = () => !this.#ended && this.#jobId === job.id && this.#runningJobId !== job.id;
+    const schedule = () => {
+      if (isCurrent()) {
+        setTimeout(poll, RUNNING_POLL_INTERVAL_MS).unref();
+      }
+    };
+    const poll = () => {
+      if (!isCurrent()) {
+        return;
+      }
+      job.getMetadata().then(
+        ([metadata]: [JobMetadata, ...unknown[]]) => {
+          const state = metadata.status?.state;
+          if (state === 'RUNNING' || state === 'DONE') {
+            if (isCurrent()) {
+              this.#running();
+            }
+          } else {
+            schedule();
+          }
+        },
+        () => undefined,
+      );
+    };
+    schedule();
+  }
+
+  #end(): void {
+    if (!this.#ended) {
+      this.#ended = true;
+      this.#span?.end();
+    }
+  }
+
+  #elapsed(): number {
+    return Date.now() - this.#startedAt;
+  }
+}
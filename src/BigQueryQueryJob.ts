@@ -0,0 +1,262 @@
+import {
+  type Job,
+  type JobMetadata,
+  type QueryResultsOptions,
+  type TableSchema,
+} from '@google-cloud/bigquery';
+
+import {
+  BigQueryCancelledError,
+  type BigQueryQueryError,
+  createBigQueryError,
+} from './BigQueryErrors';
+
+/**
+ * State of a query job, as reported by BigQuery.
+ */
+export interface BigQueryJobStatus {
+  /**
+   * `PENDING`, `RUNNING` or `DONE`.
+   */
+  state: 'PENDING' | 'RUNNING' | 'DONE';
+
+  /**
+   * Why the job failed, when it finished with an error.
+   */
+  error?: BigQueryQueryError;
+}
+
+/**
+ * Options for waiting on a query job.
+ */
+export interface BigQueryJobWaitOptions {
+  /**
+   * Time between status checks. Defaults to 1000 ms.
+   */
+  pollIntervalMs?: number;
+
+  /**
+   * Gives up waiting after this many milliseconds. Waits until the job is done when not set.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Stops waiting when aborted.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for reading one page of a query job's results.
+ */
+export interface BigQueryJobResultsOptions {
+  /**
+   * Maximum number of rows in the page. BigQuery picks a page size when not set.
+   */
+  maxResults?: number;
+
+  /**
+   * Token of the page to read, from a previous page's `pageToken`.
+   */
+  pageToken?: string;
+}
+
+/**
+ * One page of a query job's results.
+ */
+export interface BigQueryJobResultsPage<O> {
+  rows: O[];
+
+  /**
+   * Token for the next page. Undefined on the last page.
+   */
+  pageToken: string | undefined;
+
+  /**
+   * Total number of rows in the result, across all pages.
+   */
+  totalRows: bigint | undefined;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Handle to a query submitted as a BigQuery job.
+ *
+ * Created by `BigQueryDialect.submitQuery()` for a new query, or by
+ * `BigQueryDialect.getQueryJob()` for a job submitted earlier, e.g. by another
+ * process. Result rows get the same processing as rows returned by `execute()`.
+ */
+export class BigQueryQueryJob<O> {
+  readonly #job: Job;
+  readonly #processRow: (row: Record<string, unknown>, schema?: TableSchema) => O;
+  readonly #resultOptions: QueryResultsOptions;
+
+  constructor(
+    job: Job,
+    processRow: (row: Record<string, unknown>, schema?: TableSchema) => O,
+    resultOptions: QueryResultsOptions = { parseJSON: true },
+  ) {
+    this.#job = job;
+    this.#processRow = processRow;
+    this.#resultOptions = resultOptions;
+  }
+
+  /**
+   * Id of the BigQuery job.
+   */
+  get jobId(): string {
+    return this.#job.id as string;
+  }
+
+  /**
+   * Location the job runs in, when known.
+   */
+  get location(): string | undefined {
+    return this.#job.location;
+  }
+
+  /**
+   * Fetches the current state of the job.
+   * @returns The job state, with the failure when the job finished with an error
+   * @throws BigQueryQueryError if the status cannot be read
+   */
+  async getStatus(): Promise<BigQueryJobStatus> {
+    let metadata: JobMetadata;
+    try {
+      [metadata] = (await this.#job.getMetadata()) as [JobMetadata, unknown];
+    } catch (error) {
+      throw createBigQueryError(error, 'BigQuery job status failed', { jobId: this.jobId });
+    }
+
+    const status = metadata.status;
+    const state = (status?.state ?? 'PENDING') as BigQueryJobStatus['state'];
+    const errorResult = status?.errorResult;
+
+    if (!errorResult) {
+      return { state };
+    }
+
+    /* Shape the failure like a client error so it is classified the same way */
+    const failure = Object.assign(new Error(errorResult.message ?? 'Unknown error'), {
+      errors: status.errors ?? [errorResult],
+    });
+    return {
+      state,
+      error: createBigQueryError(failure, 'BigQuery job failed', {
+        jobId: this.jobId,
+        sql: metadata.configuration?.query?.query,
+      }) as BigQueryQueryError,
+    };
+  }
+
+  /**
+   * Polls the job until it is done.
+   *
+   * A timeout or abort only stops the waiting: the job keeps running until it
+   * finishes or `cancel()` is called.
+   * @param options - How often to poll, and when to stop waiting
+   * @throws BigQueryCancelledError if `timeoutMs` passes or `signal` aborts before the job is done
+   * @throws BigQueryQueryError if the job failed
+   */
+  async wait(options: BigQueryJobWaitOptions = {}): Promise<void> {
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const { timeoutMs, signal } = options;
+    const context = { jobId: this.jobId };
+
+    if (signal?.aborted) {
+      throw new BigQueryCancelledError('BigQuery job wait was cancelled', signal.reason, context);
+    }
+
+    let deadline: NodeJS.Timeout | undefined;
+    let pollTimer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+    const stopped = new Promise<never>((_, reject) => {
+      if (timeoutMs !== undefined) {
+        deadline = setTimeout(() => {
+          const message = `BigQuery job wait timed out after ${timeoutMs} ms`;
+          reject(new BigQueryCancelledError(message, undefined, context));
+        }, timeoutMs);
+      }
+      if (signal) {
+        onAbort = () =>
+          reject(
+            new BigQueryCancelledError('BigQuery job wait was cancelled', signal.reason, context),
+          );
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+    });
+
+    try {
+      for (;;) {
+        const status = await Promise.race([this.getStatus(), stopped]);
+        if (status.state === 'DONE') {
+          if (status.error) {
+            throw status.error;
+          }
+          return;
+        }
+        await Promise.race([
+          new Promise((resolve) => {
+            pollTimer = setTimeout(resolve, pollIntervalMs);
+          }),
+          stopped,
+        ]);
+      }
+    } finally {
+      clearTimeout(deadline);
+      clearTimeout(pollTimer);
+      if (onAbort) {
+        signal?.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  /**
+   * Reads one page of the job's results, waiting for the job to finish first.
+   * @param options - Page size and the token of the page to read
+   * @returns The rows of the page and the token for the next one
+   * @throws BigQueryQueryError if the job failed or the results cannot be read
+   */
+  async getResults(options: BigQueryJobResultsOptions = {}): Promise<BigQueryJobResultsPage<O>> {
+    const request: QueryResultsOptions = { ...this.#resultOptions, autoPaginate: false };
+    if (options.maxResults !== undefined) {
+      request.maxResults = options.maxResults;
+    }
+    if (options.pageToken !== undefined) {
+      request.pageToken = options.pageToken;
+    }
+
+    let rows: Record<string, unknown>[];
+    let nextQuery: QueryResultsOptions | null | undefined;
+    let response: { totalRows?: string | null; schema?: TableSchema } | undefined;
+    try {
+      [rows, nextQuery, response] = (await this.#job.getQueryResults(request)) as [
+        Record<string, unknown>[],
+        QueryResultsOptions | null | undefined,
+        { totalRows?: string | null; schema?: TableSchema } | undefined,
+      ];
+    } catch (error) {
+      throw createBigQueryError(error, 'BigQuery query failed', { jobId: this.jobId });
+    }
+
+    return {
+      rows: rows.map((row) => this.#processRow(row, response?.schema)),
+      pageToken: nextQuery?.pageToken ?? undefined,
+      totalRows: response?.totalRows ? BigInt(response.totalRows) : undefined,
+    };
+  }
+
+  /**
+   * Requests cancellation of the job. BigQuery cancels jobs asynchronously;
+   * use `getStatus()` or `wait()` to see when it has stopped.
+   * @throws BigQueryQueryError if the request fails
+   */
+  async cancel(): Promise<void> {
+    try {
+      await this.#job.cancel();
+    } catch (error) {
+      throw createBigQueryError(error, 'BigQuery job cancel failed', { jobId: this.jobId });
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { type Expression, type RawBuilder, sql } from 'kysely';
+
+import { type BigQueryTypedParameter, createRangeBoundParameter } from './BigQueryParameters';
+
+/**
+ * The element types BigQuery supports for RANGE.
+ */
+export type BigQueryRangeElementType = 'DATE' | 'DATETIME' | 'TIMESTAMP';
+
+/**
+ * A RANGE value: the contiguous span from `start` (inclusive) to `end`
+ * (exclusive). A null bound is unbounded.
+ *
+ * Create parameters with `bq.range()`; they are sent as `RANGE(?, ?)` with
+ * both bounds typed by the element type. With the `parseRanges` dialect option
+ * RANGE results are returned as instances of this class, with bounds converted
+ * like other values of the element type (strings by default).
+ */
+export class BigQueryRangeValue<T = unknown> {
+  readonly start: T | null;
+  readonly end: T | null;
+  readonly elementType: BigQueryRangeElementType;
+
+  constructor(start: T | null, end: T | null, elementType: BigQueryRangeElementType) {
+    this.start = start;
+    this.end = end;
+    this.elementType = elementType;
+  }
+}
+
+/**
+ * A RANGE argument of the `range` helpers: a column reference such as
+ * `'bookings.period'`, a value from `bq.range()`, or any expression.
+ */
+export type BigQueryRangeOperand = string | BigQueryRangeValue | Expression<unknown>;
+
+/**
+ * A bound of `range.of()` or a value of `range.contains()`: a DATE, DATETIME
+ * or TIMESTAMP string, a Date, a parameter such as `bq.date()`, or any
+ * expression, e.g. `eb.ref('bookings.check_in')` for a column. Null is
+ * unbounded.
+ */
+export type BigQueryRangeBound =
+  string | Date | BigQueryTypedParameter | Expression<unknown> | null;
+
+/**
+ * Expression helpers for BigQuery RANGE functions.
+ *
+ * Range operands given as strings are column references. Bounds and
+ * contained values given as strings are values, typed DATE or DATETIME by
+ * their format and TIMESTAMP otherwise; refer to columns with `eb.ref()`.
+ *
+ * Example:
+ * ```
+ * db.selectFrom('dataset.bookings')
+ *   .selectAll()
+ *   .where(range.overlaps('period', range.of('2024-01-01', '2024-02-01')))
+ *   .where((eb) => range.contains('period', eb.ref('check_in')))
+ * ```
+ */
+export const range = {
+  /**
+   * `RANGE(start, end)`.
+   * @param start - Inclusive lower bound; null for unbounded
+   * @param end - Exclusive upper bound; null for unbounded
+   */
+  of(start: BigQueryRangeBound, end: BigQueryRangeBound): RawBuilder<BigQueryRangeValue> {
+    return sql`RANGE(${toBound(start)}, ${toBound(end)})`;
+  },
+
+  /**
+   * `RANGE_CONTAINS(outer, inner)`: whether `inner`, a range or a value of the
+   * element type, is entirely in `outer`.
+   * @param outer - Containing range
+   * @param inner - Contained range or value
+   */
+  contains(
+    outer: BigQueryRangeOperand,
+    inner: BigQueryRangeBound | BigQueryRangeValue,
+  ): RawBuilder<boolean> {
+    return sql`RANGE_CONTAINS(${toRange(outer)}, ${toBound(inner)})`;
+  },
+
+  /**
+   * `RANGE_OVERLAPS(a, b)`: whether two ranges have a value in common.
+   * @param a - First range
+   * @param b - Second range
+   */
+  overlaps(a: BigQueryRangeOperand, b: BigQueryRangeOperand): RawBuilder<boolean> {
+    return sql`RANGE_OVERLAPS(${toRange(a)}, ${toRange(b)})`;
+  },
+
+  /**
+   * `RANGE_INTERSECT(a, b)`: the range both ranges have in common. BigQuery
+   * raises an error if they do not overlap.
+   * @param a - First range
+   * @param b - Second range
+   */
+  intersect(a: BigQueryRangeOperand, b: BigQueryRangeOperand): RawBuilder<BigQueryRangeValue> {
+    return sql`RANGE_INTERSECT(${toRange(a)}, ${toRange(b)})`;
+  },
+
+  /**
+   * `RANGE_START(range)`: the lower bound, or NULL if unbounded.
+   * @param value - Range
+   */
+  start(value: BigQueryRangeOperand): RawBuilder<unknown> {
+    return sql`RANGE_START(${toRange(value)})`;
+  },
+
+  /**
+   * `RANGE_END(range)`: the upper bound, or NULL if unbounded.
+   * @param value - Range
+   */
+  end(value: BigQueryRangeOperand): RawBuilder<unknown> {
+    return sql`RANGE_END(${toRange(value)})`;
+  },
+};
+
+/**
+ * Turns a range operand into an expression or parameter for a `sql` template.
+ */
+function toRange(operand: BigQueryRangeOperand): unknown {
+  return typeof operand === 'string' ? sql.ref(operand) : operand;
+}
+
+/**
+ * Turns a bound or contained value into an expression or parameter for a
+ * `sql` template. Null is emitted as NULL, which BigQuery reads as unbounded.
+ */
+function toBound(value: BigQueryRangeBound | BigQueryRangeValue): unknown {
+  if (value === null) {
+    return sql`NULL`;
+  }
+  /* An untyped string would be sent as STRING, which RANGE functions reject */
+  return typeof value === 'string' ? createRangeBoundParameter(value) : value;
+}
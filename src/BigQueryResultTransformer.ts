@@ -0,0 +1,312 @@
+import { type TableField, type TableSchema } from '@google-cloud/bigquery';
+
+import { wktToGeoJson } from './BigQueryGeoJson';
+import { BigQueryIntervalValue } from './BigQueryInterval';
+import { type BigQueryDateTimeType, getClientValueType, isDecimal } from './BigQueryParameters';
+import { type BigQueryRangeElementType, BigQueryRangeValue } from './BigQueryRange';
+
+/**
+ * Converts the string form of a result value.
+ */
+export type BigQueryValueTransformer = (value: string) => unknown;
+
+/**
+ * Result transformers by BigQuery type.
+ *
+ * Each transformer receives the value as a string and returns the value to put
+ * in the row instead of the client's representation. Types without a
+ * transformer keep the client's representation.
+ */
+export interface BigQueryResultTransformers {
+  /**
+   * INT64 values, as their decimal string. Replaces the client's conversion to
+   * number, which throws for values beyond `Number.MAX_SAFE_INTEGER`.
+   */
+  INT64?: BigQueryValueTransformer;
+
+  /**
+   * NUMERIC and BIGNUMERIC values, as a plain decimal string with every digit.
+   * The client returns Big.js instances.
+   */
+  NUMERIC?: BigQueryValueTransformer;
+
+  /**
+   * TIMESTAMP values, as an ISO 8601 string in UTC, e.g.
+   * `2024-01-15T10:30:00.123456Z`. The client returns `BigQueryTimestamp`.
+   */
+  TIMESTAMP?: BigQueryValueTransformer;
+
+  /**
+   * DATE values, e.g. `2024-01-15`. The client returns `BigQueryDate`.
+   */
+  DATE?: BigQueryValueTransformer;
+
+  /**
+   * DATETIME values, e.g. `2024-01-15T10:30:00`. The client returns
+   * `BigQueryDatetime`.
+   */
+  DATETIME?: BigQueryValueTransformer;
+
+  /**
+   * TIME values, e.g. `10:30:00`. The client returns `BigQueryTime`.
+   */
+  TIME?: BigQueryValueTransformer;
+
+  /**
+   * GEOGRAPHY values, as WKT, e.g. `POINT(-122.35 47.62)`. The client returns
+   * `Geography`.
+   */
+  GEOGRAPHY?: BigQueryValueTransformer;
+
+  /**
+   * INTERVAL values, in BigQuery's canonical format, e.g. `1-2 3 4:5:6.789`.
+   * The client returns them as plain strings, so INTERVAL columns are found
+   * in the schema of the result.
+   */
+  INTERVAL?: BigQueryValueTransformer;
+
+  /**
+   * RANGE values, e.g. `[2024-01-01, 2024-02-01)` or
+   * `[2024-01-01, UNBOUNDED)`. The client returns `BigQueryRange`.
+   */
+  RANGE?: BigQueryValueTransformer;
+}
+
+/**
+ * How DATE, DATETIME and TIME results are returned.
+ *
+ * - `string`: the string value, e.g. `2024-01-15` or `2024-01-15T10:30:00`.
+ * - `date`: DATE and DATETIME values as Dates in UTC, TIME values as strings.
+ * - A function, called with the string value and the type.
+ */
+export type BigQueryDateTimeResults =
+  'string' | 'date' | ((value: string, type: BigQueryDateTimeType) => unknown);
+
+/**
+ * Options for BigQueryResultTransformer.
+ */
+export interface BigQueryResultTransformerOptions {
+  /**
+   * Shorthand for an INT64 transformer returning `bigint`.
+   */
+  int64AsBigInt?: boolean | undefined;
+
+  /**
+   * Shorthand for the NUMERIC transformer.
+   */
+  parseNumeric?: BigQueryValueTransformer | undefined;
+
+  /**
+   * Shorthand for the DATE, DATETIME and TIME transformers.
+   */
+  dateTimeResults?: BigQueryDateTimeResults | undefined;
+
+  /**
+   * Shorthand for a GEOGRAPHY transformer returning GeoJSON geometries.
+   */
+  geographyAsGeoJson?: boolean | undefined;
+
+  /**
+   * Shorthand for an INTERVAL transformer returning `BigQueryIntervalValue`.
+   */
+  parseIntervals?: boolean | undefined;
+
+  /**
+   * Return RANGE values as `BigQueryRangeValue`, with bounds converted by the
+   * transformer of the element type. Overridden by a RANGE transformer.
+   */
+  parseRanges?: boolean | undefined;
+
+  /**
+   * Transformers by type, taking precedence over the shorthands.
+   */
+  transformers?: BigQueryResultTransformers | undefined;
+}
+
+/**
+ * Transformers that replace every wrapper object of the client with plain
+ * JavaScript values: Dates for TIMESTAMP, and strings for NUMERIC, BIGNUMERIC,
+ * DATE, DATETIME, TIME and GEOGRAPHY. INT64 values stay numbers.
+ */
+export const standardResultTransformers: Readonly<BigQueryResultTransformers> = {
+  NUMERIC: String,
+  TIMESTAMP: (value) => new Date(value),
+  DATE: String,
+  DATETIME: String,
+  TIME: String,
+  GEOGRAPHY: String,
+};
+
+/**
+ * Applies result transformers to the rows the BigQuery client returns,
+ * including values inside STRUCTs and ARRAYs.
+ *
+ * The client converts INT64 values itself, so the INT64 transformer is passed
+ * to it as `integerTypeCastFunction` (see `int64Transformer`). INTERVAL values
+ * are plain strings, recognized by the result schema (see `needsSchema`). All
+ * other types are recognized by the client's wrapper objects.
+ */
+export class BigQueryResultTransformer {
+  readonly #transformers = new Map<keyof BigQueryResultTransformers, BigQueryValueTransformer>();
+  readonly #parseRanges: boolean;
+
+  constructor(options: BigQueryResultTransformerOptions = {}) {
+    if (options.int64AsBigInt) {
+      this.#transformers.set('INT64', BigInt);
+    }
+    if (options.parseNumeric) {
+      this.#transformers.set('NUMERIC', options.parseNumeric);
+    }
+    const { dateTimeResults } = options;
+    if (dateTimeResults) {
+      for (const type of ['DATE', 'DATETIME', 'TIME'] as const) {
+        this.#transformers.set(type, (value) => convertDateTime(value, type, dateTimeResults));
+      }
+    }
+    if (options.geographyAsGeoJson) {
+      this.#transformers.set('GEOGRAPHY', wktToGeoJson);
+    }
+    if (options.parseIntervals) {
+      this.#transformers.set('INTERVAL', BigQueryIntervalValue.parse);
+    }
+    this.#parseRanges = options.parseRanges ?? false;
+    for (const [type, transformer] of Object.entries(options.transformers ?? {})) {
+      if (transformer) {
+        this.#transformers.set(type as keyof BigQueryResultTransformers, transformer);
+      }
+    }
+  }
+
+  /**
+   * The INT64 transformer, to pass to the client as `integerTypeCastFunction`.
+   */
+  get int64Transformer(): BigQueryValueTransformer | undefined {
+    return this.#transformers.get('INT64');
+  }
+
+  /**
+   * Whether rows need the schema of their result to be transformed: INTERVAL
+   * values are strings, so only the schema tells them apart.
+   */
+  get needsSchema(): boolean {
+    return this.#transformers.has('INTERVAL');
+  }
+
+  /**
+   * Transforms the wrapper values of a result row.
+   * @param row - A row as returned by the client
+   * @param schema - Schema of the result, to find INTERVAL columns
+   * @returns The row with transformed values, or the row itself when no
+   *   transformers apply to wrapper values
+   */
+  transformRow(row: Record<string, unknown>, schema?: TableSchema): Record<string, unknown> {
+    const onlyInt64 =
+      this.#transformers.size === (this.int64Transformer ? 1 : 0) && !this.#parseRanges;
+    if (onlyInt64) {
+      return row;
+    }
+    /* A row is read like a STRUCT with the result's columns as fields */
+    const rowField = schema && { fields: schema.fields ?? [] };
+    return this.transformValue(row, rowField) as Record<string, unknown>;
+  }
+
+  /**
+   * Transforms a result value, descending into STRUCT and ARRAY values.
+   * @param value - A value as returned by the client
+   * @param field - Schema field of the value, when known
+   * @returns The transformed value
+   */
+  transformValue(value: unknown, field?: TableField): unknown {
+    if (isDecimal(value)) {
+      return this.#apply('NUMERIC', value.toFixed(), value);
+    }
+    if (field?.type === 'INTERVAL' && typeof value === 'string') {
+      return this.#apply('INTERVAL', value, value);
+    }
+    if (isClientRange(value)) {
+      return this.#transformRange(value);
+    }
+    const type = getClientValueType(value);
+    if (type !== undefined) {
+      return this.#apply(
+        type as keyof BigQueryResultTransformers,
+        String((value as { value: unknown }).value),
+        value,
+      );
+    }
+    if (Array.isArray(value)) {
+      /* The elements of a REPEATED field share its schema */
+      return value.map((item) => this.transformValue(item, field));
+    }
+    if (
+      typeof value === 'object' &&
+      value !== null &&
+      Object.getPrototypeOf(value) === Object.prototype
+    ) {
+      const transformed: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        transformed[key] = this.transformValue(
+          item,
+          field?.fields?.find((child) => child.name === key),
+        );
+      }
+      return transformed;
+    }
+    return value;
+  }
+
+  /**
+   * Transforms a `BigQueryRange` of the client: with the RANGE transformer, or
+   * into a BigQueryRangeValue with transformed bounds.
+   */
+  #transformRange(value: ClientRange): unknown {
+    const { start, end } = value.value;
+    const transformer = this.#transformers.get('RANGE');
+    if (transformer) {
+      return transformer(`[${start}, ${end})`);
+    }
+    if (!this.#parseRanges) {
+      return value;
+    }
+    const toBound = (bound: string) =>
+      bound === 'UNBOUNDED' ? null : this.#apply(value.elementType, bound, bound);
+    return new BigQueryRangeValue(toBound(start), toBound(end), value.elementType);
+  }
+
+  #apply(type: keyof BigQueryResultTransformers, text: string, value: unknown): unknown {
+    const transformer = this.#transformers.get(type);
+    return transformer ? transformer(text) : value;
+  }
+}
+
+/* A `BigQueryRange` of the client, recognized by name like the other client values */
+interface ClientRange {
+  elementType: BigQueryRangeElementType;
+  value: { start: string; end: string };
+}
+
+function isClientRange(value: unknown): value is ClientRange {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { constructor?: { name?: unknown } }).constructor?.name === 'BigQueryRange'
+  );
+}
+
+/**
+ * Converts a DATE, DATETIME or TIME result to the representation chosen with
+ * the dateTimeResults option.
+ */
+function convertDateTime(
+  value: string,
+  type: BigQueryDateTimeType,
+  dateTimeResults: BigQueryDateTimeResults,
+): unknown {
+  if (typeof dateTimeResults === 'function') {
+    return dateTimeResults(value, type);
+  }
+  if (dateTimeResults === 'string' || type === 'TIME') {
+    return value;
+  }
+  return new Date(type === 'DATE' ? `${value}T00:00:00Z` : `${value.replace(' ', 'T')}Z`);
+}
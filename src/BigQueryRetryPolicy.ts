@@ -0,0 +1,203 @@
+import { BigQueryCancelledError, BigQueryQueryError } from './BigQueryErrors';
+
+/**
+ * Configuration for retrying transient BigQuery failures.
+ */
+export interface BigQueryRetryOptions {
+  /**
+   * Total number of attempts, including the first one. Defaults to 3.
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds. Doubles on every retry. Defaults to 1000.
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Upper bound for the delay between attempts in milliseconds. Defaults to 30000.
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Randomizes each delay between zero and the computed backoff ("full jitter")
+   * to avoid synchronized retries. Defaults to true.
+   */
+  jitter?: boolean;
+
+  /**
+   * BigQuery error reasons that are retried. Defaults to DEFAULT_RETRYABLE_REASONS.
+   */
+  retryableReasons?: string[];
+
+  /**
+   * Whether INSERT, UPDATE, DELETE and MERGE statements may be retried.
+   *
+   * A DML job that failed after partially running is rolled back by BigQuery,
+   * but a client-side error can hide a job that actually committed. Only
+   * enable this for idempotent statements. `Could not serialize access`
+   * conflicts are retried either way, since the conflicting job did not
+   * commit. Defaults to false.
+   */
+  retryDml?: boolean;
+
+  /**
+   * Called before waiting for each retry. An error it throws does not fail
+   * the query.
+   */
+  onRetry?: (event: BigQueryRetryEvent) => void;
+}
+
+/**
+ * Options for a single operation run through `BigQueryRetryPolicy`.
+ */
+export interface BigQueryRetryRunOptions {
+  /** Called for each retry of this operation, after the configured `onRetry` */
+  onRetry?: (event: BigQueryRetryEvent) => void;
+  /** Receives errors thrown by the `onRetry` callbacks instead of the operation */
+  onCallbackError?: (error: unknown) => void;
+  /** Aborts the wait between attempts */
+  signal?: AbortSignal | undefined;
+}
+
+/**
+ * Details about a retry, passed to `onRetry`.
+ */
+export interface BigQueryRetryEvent {
+  /** The attempt that failed, starting at 1 */
+  attempt: number;
+  /** How long the policy waits before the next attempt */
+  delayMs: number;
+  /** The error that triggered the retry */
+  error: BigQueryQueryError;
+  /** The SQL being retried */
+  sql: string;
+}
+
+/**
+ * Error reasons BigQuery documents as transient.
+ */
+export const DEFAULT_RETRYABLE_REASONS = [
+  'rateLimitExceeded',
+  'backendError',
+  'internalError',
+  'jobBackendError',
+  'jobInternalError',
+];
+
+/* Concurrent DML conflicts carry no dedicated reason code; the failed job never commits */
+const SERIALIZATION_CONFLICT_PATTERN = /could not serialize access/i;
+
+/**
+ * Decides whether a failed query is retried and how long to wait in between.
+ */
+export class BigQueryRetryPolicy {
+  readonly #maxAttempts: number;
+  readonly #baseDelayMs: number;
+  readonly #maxDelayMs: number;
+  readonly #jitter: boolean;
+  readonly #retryableReasons: Set<string>;
+  readonly #retryDml: boolean;
+  readonly #onRetry: ((event: BigQueryRetryEvent) => void) | undefined;
+
+  constructor(options: BigQueryRetryOptions = {}) {
+    this.#maxAttempts = options.maxAttempts ?? 3;
+    this.#baseDelayMs = options.baseDelayMs ?? 1000;
+    this.#maxDelayMs = options.maxDelayMs ?? 30000;
+    this.#jitter = options.jitter ?? true;
+    this.#retryableReasons = new Set(options.retryableReasons ?? DEFAULT_RETRYABLE_REASONS);
+    this.#retryDml = options.retryDml ?? false;
+    this.#onRetry = options.onRetry;
+  }
+
+  /**
+   * Runs an operation, retrying it while it fails with a retryable error.
+   * @param operation - The operation to run; receives the 1-based attempt number
+   * @param sql - The SQL being run, reported to `onRetry`
+   * @param isDml - Whether the SQL is a DML statement
+   * @param options - Retry callback, its error handler and abort signal of this operation
+   * @throws BigQueryCancelledError if `options.signal` aborts while waiting for a retry
+   */
+  async run<T>(
+    operation: (attempt: number) => Promise<T>,
+    sql: string,
+    isDml: boolean,
+    options: BigQueryRetryRunOptions = {},
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await operation(attempt);
+      } catch (error) {
+        if (!this.shouldRetry(error, attempt, isDml)) {
+          throw error;
+        }
+        await this.backoff(error as BigQueryQueryError, attempt, sql, options);
+      }
+    }
+  }
+
+  /**
+   * Whether an error from the given attempt should be retried.
+   */
+  shouldRetry(error: unknown, attempt: number, isDml: boolean): boolean {
+    if (!(error instanceof BigQueryQueryError) || attempt >= this.#maxAttempts) {
+      return false;
+    }
+    if (SERIALIZATION_CONFLICT_PATTERN.test(error.message)) {
+      return true;
+    }
+    if (isDml && !this.#retryDml) {
+      return false;
+    }
+    return error.errors.some(
+      (detail) => detail.reason && this.#retryableReasons.has(detail.reason),
+    );
+  }
+
+  /**
+   * Reports the retry to `onRetry` and waits before the next attempt.
+   * @throws BigQueryCancelledError if `options.signal` is or becomes aborted before the wait is over
+   */
+  async backoff(
+    error: BigQueryQueryError,
+    attempt: number,
+    sql: string,
+    options: BigQueryRetryRunOptions = {},
+  ): Promise<void> {
+    const { onRetry, onCallbackError, signal } = options;
+    const delayMs = this.getDelay(attempt);
+    const event = { attempt, delayMs, error, sql };
+    for (const callback of [this.#onRetry, onRetry]) {
+      try {
+        callback?.(event);
+      } catch (callbackError) {
+        onCallbackError?.(callbackError);
+      }
+    }
+    await new Promise<void>((resolve, reject) => {
+      const cancelled = () =>
+        new BigQueryCancelledError('BigQuery query was cancelled', signal?.reason, { sql });
+      if (signal?.aborted) {
+        reject(cancelled());
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(cancelled());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delayMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Delay before retrying the given failed attempt.
+   */
+  getDelay(attempt: number): number {
+    const backoff = Math.min(this.#maxDelayMs, this.#baseDelayMs * 2 ** (attempt - 1));
+    return this.#jitter ? Math.round(Math.random() * backoff) : backoff;
+  }
+}
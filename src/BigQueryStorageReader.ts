@@ -0,0 +1,303 @@
+import type * as Arrow from 'apache-arrow';
+
+/**
+ * Wire format used by the Storage Read API for row data.
+ */
+export type BigQueryStorageDataFormat = 'ARROW' | 'AVRO';
+
+/**
+ * Request to open a Storage Read API session over a table.
+ */
+export interface BigQueryStorageReadSessionRequest {
+  /**
+   * Table to read, as `projects/{project}/datasets/{dataset}/tables/{table}`.
+   */
+  table: string;
+
+  /**
+   * Wire format the session should use.
+   */
+  dataFormat: BigQueryStorageDataFormat;
+
+  /**
+   * Upper bound on the number of parallel streams. `0` lets BigQuery decide.
+   */
+  maxStreams: number;
+}
+
+/**
+ * One stream of a read session.
+ */
+export interface BigQueryStorageReadStream {
+  /**
+   * Reads the stream, yielding decoded rows one Arrow record batch or Avro block at a time.
+   * @param signal - Aborts when the read is cancelled; stop the underlying call then
+   */
+  readRows(signal?: AbortSignal): AsyncIterable<Record<string, unknown>[]>;
+}
+
+/**
+ * An open Storage Read API session.
+ */
+export interface BigQueryStorageReadSession {
+  streams: BigQueryStorageReadStream[];
+}
+
+/**
+ * The part of a Storage Read API client the dialect uses.
+ *
+ * `createStorageReadClient()` implements it over `@google-cloud/bigquery-storage`.
+ * Implement it yourself to use another reader or to decode Avro data; the
+ * implementation is responsible for decoding Arrow or Avro data into rows.
+ */
+export interface BigQueryStorageReadClient {
+  createReadSession(
+    request: BigQueryStorageReadSessionRequest,
+  ): Promise<BigQueryStorageReadSession>;
+}
+
+/**
+ * Options for the `storage` stream mode.
+ */
+export interface BigQueryStorageReadOptions {
+  /**
+   * Client used to open read sessions.
+   */
+  client: BigQueryStorageReadClient;
+
+  /**
+   * Wire format requested from the Storage Read API. Defaults to `ARROW`.
+   */
+  dataFormat?: BigQueryStorageDataFormat;
+
+  /**
+   * Maximum number of streams read in parallel. Defaults to `0` (BigQuery decides).
+   */
+  maxStreams?: number;
+}
+
+/**
+ * The part of `BigQueryReadClient` from `@google-cloud/bigquery-storage` that
+ * `createStorageReadClient()` uses.
+ */
+export interface BigQueryStorageApiClient {
+  createReadSession(request: {
+    parent: string;
+    readSession: { table: string; dataFormat: 'ARROW' };
+    maxStreamCount: number;
+  }): Promise<
+    [
+      {
+        streams?: { name?: string | null }[] | null;
+        arrowSchema?: { serializedSchema?: Uint8Array | string | null } | null;
+      },
+      ...unknown[],
+    ]
+  >;
+  readRows(request: { readStream: string; offset: number }): AsyncIterable<{
+    arrowRecordBatch?: { serializedRecordBatch?: Uint8Array | string | null } | null;
+  }> & { cancel(): void };
+}
+
+/**
+ * Creates a `BigQueryStorageReadClient` over the `BigQueryReadClient` of
+ * `@google-cloud/bigquery-storage`, decoding Arrow data with `apache-arrow`.
+ * Both packages are optional peer dependencies, needed only for this client.
+ *
+ * Rows hold the values Apache Arrow decodes: INT64 as bigint, DATE and
+ * TIMESTAMP as milliseconds since the epoch, STRUCTs as objects and ARRAYs as
+ * arrays. Result transformers do not apply to these values.
+ *
+ * Example:
+ * ```
+ * import { BigQueryReadClient } from '@google-cloud/bigquery-storage';
+ *
+ * const storageRead = { client: createStorageReadClient(new BigQueryReadClient()) };
+ * ```
+ * @param client - Storage Read API client
+ * @returns A client for the `storage` stream mode
+ * @throws Error when a session is requested in a format other than ARROW
+ */
+export function createStorageReadClient(
+  client: BigQueryStorageApiClient,
+): BigQueryStorageReadClient {
+  return {
+    async createReadSession(request) {
+      if (request.dataFormat !== 'ARROW') {
+        throw new Error(
+          'createStorageReadClient() only decodes ARROW data. Implement BigQueryStorageReadClient to read AVRO.',
+        );
+      }
+
+      /* Sessions are billed to the project of the table, the query's project */
+      const project = request.table.split('/')[1] ?? '';
+      const [session] = await client.createReadSession({
+        parent: `projects/${project}`,
+        readSession: { table: request.table, dataFormat: 'ARROW' },
+        maxStreamCount: request.maxStreams,
+      });
+      const schema = toBytes(session.arrowSchema?.serializedSchema);
+
+      return {
+        streams: (session.streams ?? []).map((stream) => ({
+          readRows: (signal?: AbortSignal) =>
+            readArrowStream(client, stream.name ?? '', schema, signal),
+        })),
+      };
+    },
+  };
+}
+
+/**
+ * Reads one stream of a session, decoding each Arrow record batch into rows.
+ * The call is cancelled when `signal` aborts or the reader stops early.
+ */
+async function* readArrowStream(
+  client: BigQueryStorageApiClient,
+  streamName: string,
+  schema: Uint8Array | undefined,
+  signal: AbortSignal | undefined,
+): AsyncIterableIterator<Record<string, unknown>[]> {
+  const arrow = await import('apache-arrow');
+  const responses = client.readRows({ readStream: streamName, offset: 0 });
+  const onAbort = () => responses.cancel();
+
+  try {
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    for await (const response of responses) {
+      const batch = toBytes(response.arrowRecordBatch?.serializedRecordBatch);
+      if (!schema || !batch) {
+        continue;
+      }
+
+      /* Each batch is sent without the schema, so the reader needs both */
+      const rows: Record<string, unknown>[] = [];
+      for (const recordBatch of arrow.RecordBatchReader.from(Buffer.concat([schema, batch]))) {
+        for (const row of recordBatch) {
+          rows.push(toPlainValue(arrow, row) as Record<string, unknown>);
+        }
+      }
+      yield rows;
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    /* Stops the call if the reader exits early; a no-op once it has ended */
+    responses.cancel();
+  }
+}
+
+/**
+ * Protobuf bytes fields are Uint8Arrays, or base64 text when read from JSON.
+ */
+function toBytes(value: Uint8Array | string | null | undefined): Uint8Array | undefined {
+  return typeof value === 'string' ? Buffer.from(value, 'base64') : (value ?? undefined);
+}
+
+/**
+ * Converts Arrow STRUCT rows and list vectors into plain objects and arrays.
+ */
+function toPlainValue(arrow: typeof Arrow, value: unknown): unknown {
+  if (value instanceof arrow.Vector) {
+    return Array.from(value, (item) => toPlainValue(arrow, item));
+  }
+  if (value instanceof arrow.StructRow) {
+    const plain: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(value.toJSON())) {
+      plain[key] = toPlainValue(arrow, field);
+    }
+    return plain;
+  }
+  return value;
+}
+
+type PendingBatch = [index: number, result: IteratorResult<Record<string, unknown>[]>];
+
+/**
+ * Reads all streams of a session in parallel and re-chunks their rows into
+ * batches of `chunkSize`.
+ *
+ * Each stream has at most one batch in flight, so memory stays bounded by the
+ * number of streams while the consumer is slow. Rows from different streams
+ * are interleaved in arrival order.
+ *
+ * Every stream gets a signal that aborts with `signal`, and also when the
+ * reader stops early, so pending reads are cancelled right away instead of
+ * when their next message arrives. An aborted `signal` also interrupts a read
+ * in flight: the reader rejects with the signal's reason as soon as it aborts.
+ */
+export async function* readStorageSession(
+  session: BigQueryStorageReadSession,
+  chunkSize: number,
+  signal?: AbortSignal,
+): AsyncIterableIterator<Record<string, unknown>[]> {
+  const streamsController = new AbortController();
+  let onAbort: (() => void) | undefined;
+  const aborted =
+    signal &&
+    new Promise<never>((_, reject) => {
+      onAbort = () => {
+        streamsController.abort(signal.reason);
+        reject(signal.reason);
+      };
+      if (signal.aborted) {
+        onAbort();
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  aborted?.catch(() => undefined);
+  const iterators = session.streams.map((stream) =>
+    stream.readRows(streamsController.signal)[Symbol.asyncIterator](),
+  );
+  const pending = new Map<number, Promise<PendingBatch>>();
+  const pull = (index: number) => {
+    const iterator = iterators[index] as AsyncIterator<Record<string, unknown>[]>;
+    pending.set(
+      index,
+      iterator.next().then((result): PendingBatch => [index, result]),
+    );
+  };
+
+  iterators.forEach((_, index) => pull(index));
+
+  let buffer: Record<string, unknown>[] = [];
+  try {
+    while (pending.size > 0) {
+      const [index, result] = await Promise.race(
+        aborted ? [...pending.values(), aborted] : pending.values(),
+      );
+      pending.delete(index);
+      if (result.done) {
+        continue;
+      }
+
+      pull(index);
+      /* Record batches can hold more rows than a spread may pass as arguments */
+      buffer = buffer.concat(result.value);
+      let start = 0;
+      for (; buffer.length - start >= chunkSize; start += chunkSize) {
+        yield buffer.slice(start, start + chunkSize);
+      }
+      if (start > 0) {
+        buffer = buffer.slice(start);
+      }
+    }
+
+    if (buffer.length > 0) {
+      yield buffer;
+    }
+  } finally {
+    if (onAbort) {
+      signal?.removeEventListener('abort', onAbort);
+    }
+    /* Stop streams that are still open when the consumer exits early or a stream fails */
+    streamsController.abort();
+    for (const [index, next] of pending) {
+      next.catch(() => undefined);
+      iterators[index]?.return?.().catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import {
+  type AliasedExpression,
+  AliasNode,
+  type Expression,
+  type ExpressionBuilder,
+  type ExtractTypeFromReferenceExpression,
+  IdentifierNode,
+  type OperationNode,
+  sql,
+  type StringReference,
+} from 'kysely';
+
+import { type BigQueryTypedParameter } from './BigQueryParameters';
+
+/**
+ * Row type of an aliased UNNEST: the element under the alias, and the
+ * position under the offset alias when it has one.
+ */
+export type BigQueryUnnestRow<E, A extends string, P extends string = never> = {
+  [K in A]: E;
+} & {
+  [K in P]: number;
+};
+
+/**
+ * Element type of a possibly null array type.
+ */
+type ArrayElement<T> = NonNullable<T> extends ReadonlyArray<infer E> ? E : never;
+
+/**
+ * The arrays `unnest()` accepts: expressions, values and typed parameters.
+ */
+type UnnestArray = Expression<unknown> | BigQueryTypedParameter | ReadonlyArray<unknown>;
+
+/**
+ * An `UNNEST(array)` expression, created with `unnest()`.
+ *
+ * Used as a value it is the set of elements, e.g. on the right of `in`. Alias
+ * it with `as()` to use it as a table in `selectFrom()` and joins.
+ */
+export class BigQueryUnnest<E> implements Expression<E> {
+  readonly #array: UnnestArray;
+
+  constructor(array: UnnestArray) {
+    this.#array = array;
+  }
+
+  get expressionType(): E | undefined {
+    return undefined;
+  }
+
+  /**
+   * Names the elements, e.g. `UNNEST(posts.tags) AS tag`, for use as a table.
+   * The element is referenced by the alias alone, as in `select('tag')`.
+   * @param alias - Name of the elements
+   */
+  as<A extends string>(alias: A): BigQueryAliasedUnnest<E, A> {
+    return new BigQueryAliasedUnnest(this, alias, undefined);
+  }
+
+  toOperationNode(): OperationNode {
+    return sql`UNNEST(${this.#array})`.toOperationNode();
+  }
+}
+
+/**
+ * An aliased `UNNEST(array) AS alias [WITH OFFSET AS offset]`, usable as a
+ * table in `selectFrom()` and joins.
+ */
+export class BigQueryAliasedUnnest<
+  E,
+  A extends string,
+  P extends string = never,
+> implements AliasedExpression<BigQueryUnnestRow<E, A, P>, A> {
+  readonly #unnest: BigQueryUnnest<E>;
+  readonly #alias: A;
+  readonly #offset: string | undefined;
+
+  constructor(unnest: BigQueryUnnest<E>, alias: A, offset: string | undefined) {
+    this.#unnest = unnest;
+    this.#alias = alias;
+    this.#offset = offset;
+  }
+
+  get expression(): Expression<BigQueryUnnestRow<E, A, P>> {
+    return this.#unnest as Expression<unknown> as Expression<BigQueryUnnestRow<E, A, P>>;
+  }
+
+  get alias(): A {
+    return this.#alias;
+  }
+
+  /**
+   * Adds `WITH OFFSET AS offset`, the zero-based position of each element.
+   * @param offset - Name of the position
+   */
+  withOffset<O extends string>(offset: O): BigQueryAliasedUnnest<E, A, O> {
+    return new BigQueryAliasedUnnest(this.#unnest, this.#alias, offset);
+  }
+
+  toOperationNode(): AliasNode {
+    /* WITH OFFSET follows the alias, so it is compiled as part of it */
+    const alias =
+      this.#offset === undefined
+        ? IdentifierNode.create(this.#alias)
+        : sql`${sql.id(this.#alias)} with offset as ${sql.id(this.#offset)}`.toOperationNode();
+    return AliasNode.create(this.#unnest.toOperationNode(), alias);
+  }
+}
+
+/**
+ * `UNNEST(array)`: the elements of an ARRAY, as a table to join or select
+ * from, or as the values of an `in` predicate.
+ *
+ * The element type is inferred from array expressions such as
+ * `eb.ref('posts.tags')` and from array values, which are sent as a
+ * parameter; give an empty array a type with `bq.param([], 'ARRAY<INT64>')`.
+ * A column can also be given by name together with the expression builder of
+ * the query, as in `unnest(eb, 'p.tags')`, which checks it against the tables
+ * of the query.
+ *
+ * Example:
+ * ```
+ * db.selectFrom('dataset.posts as p')
+ *   .crossJoin((eb) => unnest(eb, 'p.tags').as('tag').withOffset('position'))
+ *   .select(['p.id', 'tag', 'position'])
+ *   .where('p.author_id', 'in', unnest(authorIds))
+ * ```
+ * @param array - Array expression, array value or typed array parameter
+ */
+export function unnest<E>(
+  array: Expression<ReadonlyArray<E> | null | undefined>,
+): BigQueryUnnest<E>;
+export function unnest<E>(
+  array: ReadonlyArray<E> | BigQueryTypedParameter<ReadonlyArray<E> | null>,
+): BigQueryUnnest<E>;
+/**
+ * @param eb - Expression builder of the query
+ * @param column - Array column, e.g. `'posts.tags'`
+ */
+export function unnest<DB, TB extends keyof DB, R extends StringReference<DB, TB>>(
+  eb: ExpressionBuilder<DB, TB>,
+  column: R,
+): BigQueryUnnest<ArrayElement<ExtractTypeFromReferenceExpression<DB, TB, R>>>;
+export function unnest(array: unknown, column?: string): BigQueryUnnest<unknown> {
+  /* A column name is resolved by the query's expression builder */
+  return new BigQueryUnnest(
+    column === undefined
+      ? (array as UnnestArray)
+      : (array as { ref(column: string): Expression<unknown> }).ref(column),
+  );
+}
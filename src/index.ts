@@ -1,7 +1,22 @@
 export * from './BigQueryAdapter';
+export * from './BigQueryColumnTypes';
 export * from './BigQueryConnection';
 export * from './BigQueryDialect';
 export * from './BigQueryDriver';
+export * from './BigQueryErrors';
+export * from './BigQueryGeoJson';
+export * from './BigQueryGeography';
+export * from './BigQueryInterval';
 export * from './BigQueryIntrospector';
+export * from './BigQueryJobOptionsPlugin';
+export * from './BigQueryParameters';
+export * from './BigQueryQueryHooks';
+export * from './BigQueryQualify';
+export * from './BigQueryQueryJob';
+export * from './BigQueryRange';
+export * from './BigQueryResultTransformer';
+export * from './BigQueryRetryPolicy';
+export * from './BigQueryStorageReader';
+export * from './BigQueryUnnest';
 export * from './BigQueryCompiler';
 export * from './jsonColumnDetector';
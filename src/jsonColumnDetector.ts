@@ -3,10 +3,37 @@ import { type CompiledQuery } from 'kysely';
 /* Type definitions for internal query nodes */
 interface QueryNode {
   kind: string;
-  into?: { table?: TableNode };
+  into?: { table?: TableNode; node?: { table?: TableNode } };
   table?: { table?: TableNode };
   columns?: ColumnNode[];
   updates?: UpdateNode[];
+  whens?: WhenNode[];
+  using?: { table?: { kind: string; node?: SelectNode } };
+}
+
+interface SelectNode {
+  kind: string;
+  selections?: { selection: { kind: string; node?: ValueNode; alias?: { name: string } } }[];
+  setOperations?: { expression: SelectNode }[];
+}
+
+interface WhenNode {
+  result?: {
+    kind: string;
+    columns?: ColumnNode[];
+    values?: { values?: ValueListNode[] };
+    updates?: UpdateNode[];
+  };
+}
+
+interface ValueListNode {
+  kind: string;
+  values: unknown[];
+}
+
+interface ValueNode {
+  kind: string;
+  value?: unknown;
 }
 
 interface TableNode {
@@ -26,6 +53,7 @@ interface UpdateNode {
     column?: { name: string };
     name?: string;
   };
+  value?: ValueNode;
 }
 
 /**
@@ -162,6 +190,11 @@ export class JsonColumnDetector {
    * @returns Processed parameters with JSON objects stringified as needed
    */
   processParameters<T = unknown>(compiledQuery: CompiledQuery, params: readonly T[]): T[] {
+    const query = compiledQuery.query as QueryNode | undefined;
+    if (query?.kind === 'MergeQueryNode') {
+      return this.processMergeParameters(query, compiledQuery.parameters, params);
+    }
+
     const { tableName, columns, updateColumns } = this.extractTableAndColumns(compiledQuery);
 
     if (!tableName) {
@@ -209,6 +242,77 @@ export class JsonColumnDetector {
     return processedParams;
   }
 
+  /**
+   * Process the parameters of a MERGE, whose INSERT and UPDATE SET actions
+   * write to the target table. Values selected by a source subquery under the
+   * name of a JSON column are serialized too.
+   *
+   * Parameters of the ON and WHEN conditions come between the action values,
+   * so the JSON values are recognized by identity: the compiler adds the value
+   * of each value node as the parameter itself.
+   */
+  private processMergeParameters<T>(
+    query: QueryNode,
+    parameters: readonly unknown[],
+    params: readonly T[],
+  ): T[] {
+    const tableName = this.extractTableName(query.into?.table ?? query.into?.node?.table);
+    if (!tableName) {
+      return [...params];
+    }
+
+    /* Values of the actions and the JSON columns they are written to */
+    const jsonValues = new Map<unknown, string>();
+    const addValue = (columnName: string | undefined, node: unknown) => {
+      if (columnName && this.isJsonColumn(tableName, columnName)) {
+        jsonValues.set(node, columnName);
+      }
+    };
+
+    /* Source rows of values named after the columns, as in upserts rewritten into MERGE */
+    const source = query.using?.table?.kind === 'AliasNode' ? query.using.table.node : undefined;
+    if (source?.kind === 'SelectQueryNode') {
+      for (const select of [source, ...(source.setOperations ?? []).map((op) => op.expression)]) {
+        for (const { selection } of select.selections ?? []) {
+          if (selection.kind === 'AliasNode' && selection.node?.kind === 'ValueNode') {
+            addValue(selection.alias?.name, selection.node.value);
+          }
+        }
+      }
+    }
+
+    for (const when of query.whens ?? []) {
+      const result = when.result;
+      if (result?.kind === 'InsertQueryNode') {
+        const columns = (result.columns ?? []).map((col) => col.column?.name || col.name);
+        for (const row of result.values?.values ?? []) {
+          row.values.forEach((value, i) => {
+            /* Rows of plain values hold the values themselves, other rows value nodes */
+            if (row.kind === 'PrimitiveValueListNode') {
+              addValue(columns[i], value);
+            } else if ((value as ValueNode).kind === 'ValueNode') {
+              addValue(columns[i], (value as ValueNode).value);
+            }
+          });
+        }
+      }
+      if (result?.kind === 'UpdateQueryNode') {
+        for (const update of result.updates ?? []) {
+          if (update.value?.kind === 'ValueNode') {
+            addValue(update.column?.column?.name || update.column?.name, update.value.value);
+          }
+        }
+      }
+    }
+
+    return params.map((value, i) => {
+      const columnName = jsonValues.get(parameters[i]);
+      return columnName !== undefined && this.shouldSerializeJson(tableName, columnName, value)
+        ? (JSON.stringify(value) as T)
+        : value;
+    });
+  }
+
   /**
    * Determine if a value should be serialized as JSON
    */
@@ -0,0 +1,179 @@
+import { CompiledQuery, Kysely, sql } from 'kysely';
+import { Readable } from 'stream';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import { BigQueryConnection, BigQueryDialect, bq } from '../src';
+import { createMockJob, createMockStreamJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+const mockJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+      job = mockJob;
+    },
+  };
+});
+
+const castToBigInt = { integerTypeCastFunction: BigInt };
+
+describe('BigQuery BigInt Support', () => {
+  let kysely: Kysely<any>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockResolvedValue([[]]);
+    kysely = new Kysely<any>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+  });
+
+  describe('parameters', () => {
+    test('sends bigints as exact INT64 values', async () => {
+      await kysely
+        .selectFrom('dataset.events')
+        .selectAll()
+        .where('id', '=', 9223372036854775807n)
+        .where('name', '=', 'a')
+        .execute();
+
+      expect(mockQuery).toHaveBeenCalledWith({
+        query: 'select * from `dataset`.`events` where `id` = ? and `name` = ?',
+        params: ['9223372036854775807', 'a'],
+        types: ['INT64', undefined],
+        parseJSON: true,
+      });
+    });
+
+    test('sends arrays of bigints as ARRAY<INT64>', async () => {
+      await sql`select * from dataset.events where id in unnest(${[1n, 9007199254740993n]})`.execute(
+        kysely,
+      );
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          params: [['1', '9007199254740993']],
+          types: [['INT64']],
+        }),
+      );
+    });
+
+    test('keeps INT64 for bigints when nulls need inferred types', async () => {
+      mockCreateQueryJob.mockResolvedValue([createMockJob()]);
+
+      await kysely
+        .insertInto('dataset.events')
+        .values({ id: 12345678901234567890n, name: null })
+        .execute();
+
+      expect(mockCreateQueryJob).toHaveBeenCalledWith(
+        expect.objectContaining({
+          params: ['12345678901234567890', null],
+          types: ['INT64', 'STRING'],
+        }),
+      );
+    });
+
+    test('converts bigints inside typed STRUCT values', async () => {
+      await sql`select ${bq.param({ id: 2n ** 63n - 1n, tags: ['a'] }, 'STRUCT<id INT64, tags ARRAY<STRING>>')}.id`.execute(
+        kysely,
+      );
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          params: [{ id: '9223372036854775807', tags: ['a'] }],
+          types: [{ id: 'INT64', tags: ['STRING'] }],
+        }),
+      );
+    });
+
+    test('keys bigint types by name with named parameters', async () => {
+      const named = new Kysely<any>({
+        dialect: new BigQueryDialect({
+          options: { projectId: 'test-project' },
+          namedParameters: true,
+        }),
+      });
+
+      await named.selectFrom('dataset.events').selectAll().where('id', '=', 42n).execute();
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.objectContaining({ params: { p0: '42' }, types: { p0: 'INT64' } }),
+      );
+    });
+  });
+
+  describe('int64AsBigInt', () => {
+    const createConnection = () =>
+      new BigQueryConnection({ options: { projectId: 'test-project' }, int64AsBigInt: true });
+
+    test('casts INT64 results of queries to bigint', async () => {
+      await createConnection().executeQuery(CompiledQuery.raw('SELECT 1', []));
+
+      expect(mockQuery).toHaveBeenCalledWith({
+        query: 'SELECT 1',
+        params: [],
+        parseJSON: true,
+        wrapIntegers: castToBigInt,
+      });
+    });
+
+    test('casts INT64 results of streams and jobs', async () => {
+      const connection = createConnection();
+      mockCreateQueryJob.mockResolvedValue([createMockStreamJob(Readable.from([]))]);
+      const job = createMockJob();
+      mockJob.mockReturnValue(job);
+
+      for await (const _ of connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 10)) {
+        /* drain */
+      }
+      await connection.getQueryJob('job-123').getResults();
+
+      expect(mockCreateQueryJob).toHaveBeenCalledWith(
+        expect.objectContaining({ wrapIntegers: castToBigInt }),
+      );
+      expect(job.getQueryResults).toHaveBeenCalledWith({
+        parseJSON: true,
+        wrapIntegers: castToBigInt,
+        autoPaginate: false,
+      });
+    });
+
+    test('the client returns exact bigints for top-level, nested and repeated INT64 fields', async () => {
+      const { BigQuery } = await vi.importActual<typeof import('@google-cloud/bigquery')>(
+        '@google-cloud/bigquery',
+      );
+      const schema = {
+        fields: [
+          { name: 'id', type: 'INT64' },
+          { name: 'ids', type: 'INT64', mode: 'REPEATED' },
+          { name: 'owner', type: 'RECORD', fields: [{ name: 'id', type: 'INT64' }] },
+        ],
+      };
+      const rows = [
+        {
+          f: [
+            { v: '9223372036854775807' },
+            { v: [{ v: '1' }, { v: '9007199254740993' }] },
+            { v: { f: [{ v: '-9223372036854775808' }] } },
+          ],
+        },
+      ];
+
+      const [row] = BigQuery.mergeSchemaWithRows_(schema, rows, { wrapIntegers: castToBigInt });
+
+      expect(row).toEqual({
+        id: 9223372036854775807n,
+        ids: [1n, 9007199254740993n],
+        owner: { id: -9223372036854775808n },
+      });
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import { CompiledQuery, Kysely } from 'kysely';
+import { Readable } from 'stream';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import {
+  BigQueryCancelledError,
+  BigQueryConnection,
+  BigQueryDialect,
+  BigQueryJobOptionsPlugin,
+} from '../src';
+import { createMockJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+/**
+ * A job whose results never arrive, standing in for a long-running query.
+ */
+function createRunningJob() {
+  return {
+    ...createMockJob(),
+    getQueryResults: vi.fn(() => new Promise(() => {})),
+  };
+}
+
+/**
+ * Compiles a query with the given signal attached through BigQueryJobOptionsPlugin.
+ */
+function compileWithSignal(sql: string, signal: AbortSignal): CompiledQuery {
+  const plugin = new BigQueryJobOptionsPlugin({ signal });
+  const compiled = CompiledQuery.raw(sql, []);
+  return {
+    ...compiled,
+    query: plugin.transformQuery({ node: compiled.query, queryId: { queryId: 'q' } }),
+  };
+}
+
+describe('BigQuery Cancellation', () => {
+  let connection: BigQueryConnection;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    connection = new BigQueryConnection({ options: { projectId: 'test-project' } });
+  });
+
+  describe('executeQuery', () => {
+    test('runs cancellable queries as a job', async () => {
+      const job = createMockJob({}, [{ id: 1 }]);
+      mockCreateQueryJob.mockResolvedValue([job]);
+
+      const result = await connection.executeQuery(
+        compileWithSignal('SELECT 1', new AbortController().signal),
+      );
+
+      expect(result.rows).toEqual([{ id: 1 }]);
+      expect(job.getQueryResults).toHaveBeenCalledWith({ parseJSON: true });
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    test('cancels the job and rejects when the signal aborts', async () => {
+      const job = createRunningJob();
+      mockCreateQueryJob.mockResolvedValue([job]);
+      const controller = new AbortController();
+
+      const pending = connection.executeQuery(compileWithSignal('SELECT 1', controller.signal));
+      await vi.waitFor(() => expect(job.getQueryResults).toHaveBeenCalled());
+      controller.abort(new Error('User navigated away'));
+
+      const error = await pending.catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(BigQueryCancelledError);
+      expect(error).toMatchObject({
+        message: 'BigQuery query was cancelled',
+        jobId: 'job-123',
+        sql: 'SELECT 1',
+      });
+      expect((error as BigQueryCancelledError).cause).toEqual(new Error('User navigated away'));
+      expect(job.cancel).toHaveBeenCalledTimes(1);
+    });
+
+    test('does not submit a query whose signal has already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        connection.executeQuery(compileWithSignal('SELECT 1', controller.signal)),
+      ).rejects.toBeInstanceOf(BigQueryCancelledError);
+      expect(mockCreateQueryJob).not.toHaveBeenCalled();
+    });
+
+    test('cancels DML jobs', async () => {
+      const job = createRunningJob();
+      mockCreateQueryJob.mockResolvedValue([job]);
+      const controller = new AbortController();
+
+      const pending = connection.executeQuery(
+        compileWithSignal('DELETE FROM dataset.events WHERE true', controller.signal),
+      );
+      await vi.waitFor(() => expect(job.getQueryResults).toHaveBeenCalled());
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(BigQueryCancelledError);
+      expect(job.cancel).toHaveBeenCalled();
+    });
+
+    test('is not retried', async () => {
+      const retrying = new BigQueryConnection({
+        options: { projectId: 'test-project' },
+        retry: { baseDelayMs: 0 },
+      });
+      const job = createRunningJob();
+      mockCreateQueryJob.mockResolvedValue([job]);
+      const controller = new AbortController();
+
+      const pending = retrying.executeQuery(compileWithSignal('SELECT 1', controller.signal));
+      await vi.waitFor(() => expect(job.getQueryResults).toHaveBeenCalled());
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(BigQueryCancelledError);
+      expect(mockCreateQueryJob).toHaveBeenCalledTimes(1);
+    });
+
+    test('accepts a signal through the query builder', async () => {
+      const kysely = new Kysely<any>({
+        dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+      });
+      const job = createRunningJob();
+      mockCreateQueryJob.mockResolvedValue([job]);
+      const controller = new AbortController();
+
+      const pending = kysely
+        .selectFrom('dataset.events')
+        .selectAll()
+        .withPlugin(new BigQueryJobOptionsPlugin({ signal: controller.signal }))
+        .execute();
+      await vi.waitFor(() => expect(job.getQueryResults).toHaveBeenCalled());
+      controller.abort();
+
+      await expect(pending).rejects.toBeInstanceOf(BigQueryCancelledError);
+      expect(job.cancel).toHaveBeenCalled();
+    });
+  });
+
+  describe('streamQuery', () => {
+    test('streams the results of a job when a signal is set', async () => {
+      const job = {
+        ...createMockJob(),
+        getQueryResultsStream: vi.fn(() => Readable.from([{ id: 1 }, { id: 2 }])),
+      };
+      mockCreateQueryJob.mockResolvedValue([job]);
+
+      const results: unknown[] = [];
+      for await (const result of connection.streamQuery(
+        compileWithSignal('SELECT 1', new AbortController().signal),
+        10,
+      )) {
+        results.push(result);
+      }
+
+      expect(results).toEqual([{ rows: [{ id: 1 }, { id: 2 }] }]);
+      expect(job.getQueryResultsStream).toHaveBeenCalledWith({ parseJSON: true });
+      expect(job.cancel).not.toHaveBeenCalled();
+      expect(mockCreateQueryStream).not.toHaveBeenCalled();
+    });
+
+    test('cancels the job when the consumer breaks out early', async () => {
+      const job = {
+        ...createMockJob(),
+        getQueryResultsStream: vi.fn(() => Readable.from([{ id: 1 }, { id: 2 }, { id: 3 }])),
+      };
+      mockCreateQueryJob.mockResolvedValue([job]);
+
+      for await (const _ of connection.streamQuery(
+        compileWithSignal('SELECT 1', new AbortController().signal),
+        1,
+      )) {
+        break;
+      }
+
+      expect(job.cancel).toHaveBeenCalledTimes(1);
+    });
+
+    test('cancels the job when the consumer breaks out early without a signal', async () => {
+      const job = {
+        ...createMockJob(),
+        getQueryResultsStream: vi.fn(() => Readable.from([{ id: 1 }, { id: 2 }, { id: 3 }])),
+      };
+      mockCreateQueryJob.mockResolvedValue([job]);
+
+      for await (const _ of connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 1)) {
+        break;
+      }
+
+      expect(job.cancel).toHaveBeenCalledTimes(1);
+      expect(mockCreateQueryStream).not.toHaveBeenCalled();
+    });
+
+    test('rejects with a cancellation error when the signal aborts mid-stream', async () => {
+      const rows = new Readable({ objectMode: true, read() {} });
+      rows.push({ id: 1 });
+      const job = { ...createMockJob(), getQueryResultsStream: vi.fn(() => rows) };
+      mockCreateQueryJob.mockResolvedValue([job]);
+      const controller = new AbortController();
+
+      const stream = connection.streamQuery(compileWithSignal('SELECT 1', controller.signal), 1);
+      await stream.next();
+      const next = stream.next();
+      controller.abort();
+
+      await expect(next).rejects.toBeInstanceOf(BigQueryCancelledError);
+      expect(job.cancel).toHaveBeenCalled();
+    });
+
+    test('cancels a paged stream while it waits for the job', async () => {
+      const paged = new BigQueryConnection({
+        options: { projectId: 'test-project' },
+        streamMode: 'pages',
+      });
+      const job = createRunningJob();
+      mockCreateQueryJob.mockResolvedValue([job]);
+      const controller = new AbortController();
+
+      const next = paged.streamQuery(compileWithSignal('SELECT 1', controller.signal), 10).next();
+      await vi.waitFor(() => expect(job.getQueryResults).toHaveBeenCalled());
+      controller.abort();
+
+      await expect(next).rejects.toBeInstanceOf(BigQueryCancelledError);
+      expect(job.cancel).toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { Kysely } from 'kysely';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import { BigQueryDialect } from '../src';
+import { createMockJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+const mockGetDatasets = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+      getDatasets = mockGetDatasets;
+    },
+  };
+});
+
+const columnTypes = {
+  'dataset.users': { id: 'INT64', age: 'INT64', score: 'NUMERIC(10, 2)', tags: 'ARRAY<STRING>' },
+  'dataset.orders': { id: 'STRING', user_id: 'INT64', placed_at: 'TIMESTAMP' },
+};
+
+describe('BigQuery Column Types', () => {
+  let kysely: Kysely<any>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockResolvedValue([[]]);
+    mockCreateQueryJob.mockResolvedValue([createMockJob()]);
+    kysely = new Kysely<any>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' }, columnTypes }),
+    });
+  });
+
+  test('types a null compared with a known column', async () => {
+    await kysely
+      .selectFrom('dataset.users')
+      .selectAll()
+      .where('age', '=', null)
+      .where('name', '=', 'Ann')
+      .execute();
+
+    expect(mockQuery).toHaveBeenCalledWith({
+      query: 'select * from `dataset`.`users` where `age` = ? and `name` = ?',
+      params: [null, 'Ann'],
+      types: ['INT64', undefined],
+      parseJSON: true,
+    });
+  });
+
+  test('resolves aliased and qualified columns across joins', async () => {
+    await kysely
+      .selectFrom('dataset.orders as o')
+      .innerJoin('dataset.users as u', 'u.id', 'o.user_id')
+      .selectAll()
+      .where('u.score', '=', null)
+      .where('o.placed_at', '<', null)
+      .execute();
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      expect.objectContaining({ params: [null, null], types: ['NUMERIC', 'TIMESTAMP'] }),
+    );
+  });
+
+  test('leaves ambiguous and unknown columns to the default types', async () => {
+    await kysely
+      .selectFrom('dataset.orders')
+      .innerJoin('dataset.users', 'dataset.users.id', 'dataset.orders.user_id')
+      .selectAll()
+      .where('id', '=', null)
+      .where('nickname', '=', null)
+      .execute();
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      expect.objectContaining({ params: [null, null], types: ['STRING', 'STRING'] }),
+    );
+  });
+
+  test('types nulls assigned in updates', async () => {
+    await kysely
+      .updateTable('dataset.users')
+      .set({ age: null, tags: null })
+      .where('id', '=', 1)
+      .execute();
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query: 'update `dataset`.`users` set `age` = ?, `tags` = ? where `id` = ?',
+        params: [null, null, 1],
+        types: ['INT64', ['STRING'], undefined],
+      }),
+    );
+  });
+
+  test('types nulls in inserted rows by column position', async () => {
+    await kysely
+      .insertInto('dataset.users')
+      .values([
+        { id: 1, age: null, name: 'a' },
+        { id: 2, age: 30, name: null },
+      ])
+      .execute();
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        params: [1, null, 'a', 2, 30, null],
+        /* The untyped null in `name` makes the other types inferred as well */
+        types: ['INT64', 'INT64', 'STRING', 'INT64', 'INT64', 'STRING'],
+      }),
+    );
+  });
+
+  test('types nulls in subqueries by their own tables', async () => {
+    await kysely
+      .selectFrom('dataset.users')
+      .selectAll()
+      .where('id', 'in', (eb) =>
+        eb.selectFrom('dataset.orders').select('user_id').where('placed_at', '=', null),
+      )
+      .execute();
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      expect.objectContaining({ params: [null], types: ['TIMESTAMP'] }),
+    );
+  });
+
+  test('rejects invalid types in the columnTypes option', () => {
+    const dialect = () =>
+      new BigQueryDialect({
+        options: { projectId: 'test-project' },
+        columnTypes: { 'dataset.users': { id: 'INT46' } },
+      });
+
+    expect(dialect).toThrow('Invalid parameter type "INT46": unknown type "INT46".');
+  });
+
+  test('loads column types through the introspector', async () => {
+    const dialect = new BigQueryDialect({
+      options: { projectId: 'test-project' },
+      columnTypes: { 'analytics.events': { id: 'STRING' } },
+    });
+    const db = new Kysely<any>({ dialect });
+    mockGetDatasets.mockResolvedValue([[{ id: 'analytics' }]]);
+    const column = (column_name: string, data_type: string) => ({
+      table_schema: 'analytics',
+      table_name: 'events',
+      column_name,
+      data_type,
+      is_nullable: 'YES',
+      column_default: 'NULL',
+    });
+    mockQuery.mockResolvedValueOnce([
+      [column('id', 'INT64'), column('amount', 'BIGNUMERIC'), column('span', 'INTERVAL')],
+    ]);
+
+    await dialect.loadColumnTypes(db);
+    await db
+      .selectFrom('analytics.events')
+      .selectAll()
+      .where('id', '=', null)
+      .where('amount', '=', null)
+      .where('span', '=', null)
+      .execute();
+
+    expect(mockQuery).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        query:
+          'select * from `analytics`.`events` where `id` = ? and `amount` = ? and `span` = CAST(NULL AS INTERVAL)',
+        params: [null, null],
+        types: ['STRING', 'BIGNUMERIC'],
+      }),
+    );
+  });
+});
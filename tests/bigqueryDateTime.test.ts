@@ -0,0 +1,211 @@
+import { Kysely, sql } from 'kysely';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import { BigQueryDialect, bq, toQueryValue } from '../src';
+import { createMockJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+const actualClient = () =>
+  vi.importActual<typeof import('@google-cloud/bigquery')>('@google-cloud/bigquery');
+
+describe('BigQuery DATE, DATETIME and TIME Support', () => {
+  let kysely: Kysely<any>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockResolvedValue([[]]);
+    mockCreateQueryJob.mockResolvedValue([createMockJob()]);
+    kysely = new Kysely<any>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+  });
+
+  describe('bq.date(), bq.datetime() and bq.time()', () => {
+    test('send strings with their type', async () => {
+      await sql`select ${bq.date('2024-01-15')}, ${bq.datetime('2024-01-15 09:00:00')}, ${bq.time('08:30:00.5')}, ${'a'}`.execute(
+        kysely,
+      );
+
+      expect(mockQuery).toHaveBeenCalledWith({
+        query: 'select ?, ?, ?, ?',
+        params: [
+          { value: '2024-01-15' },
+          { value: '2024-01-15 09:00:00' },
+          { value: '08:30:00.5' },
+          'a',
+        ],
+        types: ['DATE', 'DATETIME', 'TIME', undefined],
+        parseJSON: true,
+      });
+    });
+
+    test('convert Dates in UTC', () => {
+      const date = new Date('2024-01-15T23:30:00.250Z');
+
+      expect(bq.date(date).value).toBe('2024-01-15');
+      expect(bq.datetime(date).value).toBe('2024-01-15 23:30:00.250');
+      expect(bq.time(date).value).toBe('23:30:00.250');
+      expect(bq.date(null)).toMatchObject({ value: null, type: 'DATE' });
+    });
+
+    test.each([
+      ['date', '15/01/2024', 'DATE'],
+      ['datetime', '2024-01-15 9am', 'DATETIME'],
+      ['time', '2024-01-15', 'TIME'],
+    ] as const)('bq.%s() rejects "%s"', (helper, value, type) => {
+      expect(() => bq[helper](value)).toThrow(`Invalid ${type} value "${value}".`);
+    });
+
+    test('reject invalid Dates', () => {
+      expect(() => bq.date(new Date('nope'))).toThrow('Invalid DATE value "Invalid Date".');
+    });
+  });
+
+  describe('parameters', () => {
+    test('sends typed strings in the form the client reads', async () => {
+      await sql`select ${bq.param('2024-01-15', 'DATE')}, ${bq.param(['10:00:00'], 'ARRAY<TIME>')}, ${bq.param({ at: '2024-01-15T10:00:00Z' }, 'STRUCT<at TIMESTAMP>')}`.execute(
+        kysely,
+      );
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          params: [
+            { value: '2024-01-15' },
+            [{ value: '10:00:00' }],
+            { at: { value: '2024-01-15T10:00:00Z' } },
+          ],
+          types: ['DATE', ['TIME'], { at: 'TIMESTAMP' }],
+        }),
+      );
+    });
+
+    test('prepared values produce the expected query parameters in the client', async () => {
+      const { BigQuery } = await actualClient();
+      const toParameter = (value: unknown, type: any) =>
+        BigQuery.valueToQueryParameter_(toQueryValue(value, type), type);
+
+      expect(toParameter('2024-01-15', 'DATE').parameterValue).toEqual({ value: '2024-01-15' });
+      expect(toParameter(new Date('2024-01-15T10:00:00Z'), 'DATETIME').parameterValue).toEqual({
+        value: '2024-01-15 10:00:00.000',
+      });
+      expect(toParameter([new Date('2024-01-15T10:00:00Z')], ['TIMESTAMP']).parameterValue).toEqual(
+        { arrayValues: [{ value: '2024-01-15T10:00:00.000Z' }] },
+      );
+    });
+
+    test('sends client date and time objects with their type', async () => {
+      const { BigQuery } = await actualClient();
+
+      await sql`select ${BigQuery.date('2024-01-15')}, ${[BigQuery.time('10:00:00')]}, ${null}`.execute(
+        kysely,
+      );
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.objectContaining({ types: ['DATE', ['TIME'], 'STRING'] }),
+      );
+    });
+
+    test('types Dates by the DATE, DATETIME and TIME columns they are used with', async () => {
+      const db = new Kysely<any>({
+        dialect: new BigQueryDialect({
+          options: { projectId: 'test-project' },
+          columnTypes: {
+            'dataset.orders': { order_date: 'DATE', created_at: 'TIMESTAMP', local_time: 'DATETIME' },
+          },
+        }),
+      });
+      const date = new Date('2024-01-15T10:00:00Z');
+
+      await db
+        .selectFrom('dataset.orders')
+        .selectAll()
+        .where('order_date', '=', date)
+        .where('created_at', '<', date)
+        .where('local_time', '>', date)
+        .execute();
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          params: [{ value: '2024-01-15' }, date, { value: '2024-01-15 10:00:00.000' }],
+          types: ['DATE', undefined, 'DATETIME'],
+        }),
+      );
+    });
+  });
+
+  describe('dateTimeResults', () => {
+    const fields = [
+      { name: 'day', type: 'DATE' },
+      { name: 'at', type: 'DATETIME' },
+      { name: 'slots', type: 'TIME', mode: 'REPEATED' },
+      { name: 'meta', type: 'RECORD', fields: [{ name: 'since', type: 'DATE' }] },
+    ];
+    const rows = [
+      {
+        f: [
+          { v: '2024-01-15' },
+          { v: '2024-01-15T10:30:00.123456' },
+          { v: [{ v: '08:00:00' }] },
+          { v: { f: [{ v: '2023-12-31' }] } },
+        ],
+      },
+    ];
+
+    const query = async (dateTimeResults?: any) => {
+      const { BigQuery } = await actualClient();
+      mockQuery.mockResolvedValue([BigQuery.mergeSchemaWithRows_({ fields } as any, rows, {})]);
+      const db = new Kysely<any>({
+        dialect: new BigQueryDialect({ options: { projectId: 'test-project' }, dateTimeResults }),
+      });
+      return db.selectFrom('dataset.events').selectAll().executeTakeFirstOrThrow();
+    };
+
+    test('returns strings', async () => {
+      expect(await query('string')).toEqual({
+        day: '2024-01-15',
+        at: '2024-01-15T10:30:00.123456',
+        slots: ['08:00:00'],
+        meta: { since: '2023-12-31' },
+      });
+    });
+
+    test('returns Dates in UTC', async () => {
+      expect(await query('date')).toEqual({
+        day: new Date('2024-01-15T00:00:00Z'),
+        at: new Date('2024-01-15T10:30:00.123Z'),
+        slots: ['08:00:00'],
+        meta: { since: new Date('2023-12-31T00:00:00Z') },
+      });
+    });
+
+    test('calls a conversion function with the type', async () => {
+      expect(await query((value: string, type: string) => `${type}:${value}`)).toEqual({
+        day: 'DATE:2024-01-15',
+        at: 'DATETIME:2024-01-15T10:30:00.123456',
+        slots: ['TIME:08:00:00'],
+        meta: { since: 'DATE:2023-12-31' },
+      });
+    });
+
+    test('leaves the client objects unchanged by default', async () => {
+      const row = await query();
+
+      expect(row.day.constructor.name).toBe('BigQueryDate');
+      expect(row.day.value).toBe('2024-01-15');
+    });
+  });
+});
@@ -5,12 +5,19 @@ import { describe, expect, test, vi, beforeEach } from 'vitest';
 const mockQuery = vi.fn();
 const mockCreateQueryStream = vi.fn();
 const mockGetDatasets = vi.fn();
+const mockJob = vi.fn();
+const mockConstructor = vi.fn();
 
 vi.mock('@google-cloud/bigquery', () => {
   class MockBigQuery {
     query = mockQuery;
     createQueryStream = mockCreateQueryStream;
     getDatasets = mockGetDatasets;
+    job = mockJob;
+
+    constructor(options?: unknown) {
+      mockConstructor(options);
+    }
   }
 
   class MockDataset {
@@ -52,6 +59,7 @@ describe('BigQueryDialect Configuration', () => {
     const mockBigQuery = {
       query: vi.fn(),
       createQueryStream: vi.fn(),
+      createQueryJob: vi.fn(),
       getDatasets: vi.fn(),
     };
     
@@ -68,6 +76,7 @@ describe('BigQueryDialect Configuration', () => {
     const mockDataset = {
       query: vi.fn(),
       createQueryStream: vi.fn(),
+      createQueryJob: vi.fn(),
     };
     
     const dialect = new BigQueryDialect({
@@ -83,6 +92,7 @@ describe('BigQueryDialect Configuration', () => {
     const mockTable = {
       query: vi.fn(),
       createQueryStream: vi.fn(),
+      createQueryJob: vi.fn(),
     };
     
     const dialect = new BigQueryDialect({
@@ -94,10 +104,26 @@ describe('BigQueryDialect Configuration', () => {
     expect(driver).toBeDefined();
   });
 
+  test('shares one client created from options between connections', async () => {
+    const dialect = new BigQueryDialect({
+      options: { projectId: 'test-project' },
+    });
+
+    const driver = dialect.createDriver();
+    await driver.acquireConnection();
+    await driver.acquireConnection();
+    dialect.getQueryJob('job-1');
+    dialect.getQueryJob('job-2');
+
+    expect(mockConstructor).toHaveBeenCalledTimes(1);
+    expect(mockConstructor).toHaveBeenCalledWith({ projectId: 'test-project' });
+  });
+
   test('throws error when both options and bigquery are provided', () => {
     const mockBigQuery = {
       query: vi.fn(),
       createQueryStream: vi.fn(),
+      createQueryJob: vi.fn(),
     };
 
     expect(() => {
@@ -118,7 +144,7 @@ describe('BigQueryDialect Configuration', () => {
         bigquery: invalidInstance as any,
       });
     }).toThrow(
-      'Invalid bigquery instance provided. It must have query() and createQueryStream() methods.'
+      'Invalid bigquery instance provided. It must have query(), createQueryStream() and createQueryJob() methods.'
     );
   });
 
@@ -133,7 +159,23 @@ describe('BigQueryDialect Configuration', () => {
         bigquery: invalidInstance as any,
       });
     }).toThrow(
-      'Invalid bigquery instance provided. It must have query() and createQueryStream() methods.'
+      'Invalid bigquery instance provided. It must have query(), createQueryStream() and createQueryJob() methods.'
+    );
+  });
+
+  test('validates bigquery instance has createQueryJob method', () => {
+    const invalidInstance = {
+      query: vi.fn(),
+      createQueryStream: vi.fn(),
+      /* Missing createQueryJob */
+    };
+
+    expect(() => {
+      new BigQueryDialect({
+        bigquery: invalidInstance as any,
+      });
+    }).toThrow(
+      'Invalid bigquery instance provided. It must have query(), createQueryStream() and createQueryJob() methods.'
     );
   });
 
@@ -143,6 +185,7 @@ describe('BigQueryDialect Configuration', () => {
     const mockBigQuery = {
       query: mockQuery,
       createQueryStream: mockCreateQueryStream,
+      createQueryJob: vi.fn(),
     };
 
     const db = new Kysely<any>({
@@ -171,6 +214,7 @@ describe('BigQueryDialect Configuration', () => {
     const mockDataset = {
       query: mockQuery,
       createQueryStream: mockCreateQueryStream,
+      createQueryJob: vi.fn(),
     };
 
     const db = new Kysely<any>({
@@ -193,6 +237,7 @@ describe('BigQueryDialect Configuration', () => {
     const mockTable = {
       query: mockQuery,
       createQueryStream: mockCreateQueryStream,
+      createQueryJob: vi.fn(),
     };
 
     const db = new Kysely<any>({
@@ -213,6 +258,7 @@ describe('BigQueryDialect Configuration', () => {
     const mockBigQuery = {
       query: vi.fn(),
       createQueryStream: vi.fn(),
+      createQueryJob: vi.fn(),
       getDatasets: vi.fn(),
     };
     
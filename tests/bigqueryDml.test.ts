@@ -0,0 +1,163 @@
+import { CompiledQuery, Kysely } from 'kysely';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import { BigQueryConnection, BigQueryDialect } from '../src';
+import { createMockJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+const dmlJob = (numDmlAffectedRows?: string, dmlStats?: Record<string, string>) =>
+  createMockJob({ statistics: { query: { numDmlAffectedRows, dmlStats } } });
+
+interface Database {
+  'dataset.users': { id: string; name: string; active: boolean };
+  'dataset.staging_users': { id: string; name: string; active: boolean };
+}
+
+describe('BigQuery DML Results', () => {
+  let connection: BigQueryConnection;
+  let db: Kysely<Database>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    connection = new BigQueryConnection({ options: { projectId: 'test-project' } });
+    db = new Kysely<Database>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+  });
+
+  test('runs DML as a job and reports numAffectedRows', async () => {
+    mockCreateQueryJob.mockResolvedValue([dmlJob('3')]);
+
+    const result = await connection.executeQuery(
+      CompiledQuery.raw('DELETE FROM users WHERE active = ?', [false]),
+    );
+
+    expect(mockQuery).not.toHaveBeenCalled();
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
+      query: 'DELETE FROM users WHERE active = ?',
+      params: [false],
+      parseJSON: true,
+    });
+    expect(result.rows).toEqual([]);
+    expect(result.numAffectedRows).toBe(3n);
+  });
+
+  test('includes the dmlStats breakdown', async () => {
+    mockCreateQueryJob.mockResolvedValue([
+      dmlJob('5', { insertedRowCount: '2', updatedRowCount: '3' }),
+    ]);
+
+    const result = await connection.executeQuery(
+      CompiledQuery.raw('MERGE users t USING staging s ON t.id = s.id', []),
+    );
+
+    expect(result.numAffectedRows).toBe(5n);
+    expect(result.dmlStats).toEqual({
+      insertedRowCount: 2n,
+      updatedRowCount: 3n,
+      deletedRowCount: 0n,
+    });
+  });
+
+  test('leaves numAffectedRows undefined when BigQuery reports no statistics', async () => {
+    mockCreateQueryJob.mockResolvedValue([createMockJob()]);
+
+    const result = await connection.executeQuery(
+      CompiledQuery.raw('INSERT INTO users (id) VALUES (?)', ['1']),
+    );
+
+    expect(result.numAffectedRows).toBeUndefined();
+    expect(result.dmlStats).toBeUndefined();
+  });
+
+  test('detects DML in raw SQL with leading whitespace and lowercase keywords', async () => {
+    mockCreateQueryJob.mockResolvedValue([dmlJob('1')]);
+
+    await connection.executeQuery(CompiledQuery.raw('\n  update users set name = ?', ['x']));
+
+    expect(mockCreateQueryJob).toHaveBeenCalled();
+  });
+
+  test('SELECT queries still use the query API', async () => {
+    mockQuery.mockResolvedValue([[{ id: '1' }]]);
+
+    const result = await connection.executeQuery(
+      CompiledQuery.raw('SELECT * FROM updates_log', []),
+    );
+
+    expect(mockCreateQueryJob).not.toHaveBeenCalled();
+    expect(result.numAffectedRows).toBeUndefined();
+  });
+
+  test('job errors are wrapped like query errors', async () => {
+    mockCreateQueryJob.mockRejectedValue(new Error('Table not found: users'));
+
+    await expect(
+      connection.executeQuery(CompiledQuery.raw('DELETE FROM users WHERE true', [])),
+    ).rejects.toThrow('BigQuery query failed: Table not found: users');
+  });
+
+  test('executeTakeFirst reports numDeletedRows for deleteFrom', async () => {
+    mockCreateQueryJob.mockResolvedValue([dmlJob('42')]);
+
+    const result = await db
+      .deleteFrom('dataset.users')
+      .where('active', '=', false)
+      .executeTakeFirst();
+
+    expect(result.numDeletedRows).toBe(42n);
+  });
+
+  test('executeTakeFirst reports numUpdatedRows for updateTable', async () => {
+    mockCreateQueryJob.mockResolvedValue([dmlJob('7')]);
+
+    const result = await db
+      .updateTable('dataset.users')
+      .set({ active: true })
+      .where('name', 'like', 'a%')
+      .executeTakeFirst();
+
+    expect(result.numUpdatedRows).toBe(7n);
+  });
+
+  test('executeTakeFirst reports numInsertedOrUpdatedRows for insertInto', async () => {
+    mockCreateQueryJob.mockResolvedValue([dmlJob('2')]);
+
+    const result = await db
+      .insertInto('dataset.users')
+      .values([
+        { id: '1', name: 'a', active: true },
+        { id: '2', name: 'b', active: true },
+      ])
+      .executeTakeFirst();
+
+    expect(result.numInsertedOrUpdatedRows).toBe(2n);
+  });
+
+  test('executeTakeFirst reports numChangedRows for mergeInto', async () => {
+    mockCreateQueryJob.mockResolvedValue([dmlJob('4')]);
+
+    const result = await db
+      .mergeInto('dataset.users as t')
+      .using('dataset.staging_users as s', 's.id', 't.id')
+      .whenMatched()
+      .thenUpdateSet((eb) => ({ name: eb.ref('s.name') }))
+      .executeTakeFirst();
+
+    expect(result.numChangedRows).toBe(4n);
+  });
+});
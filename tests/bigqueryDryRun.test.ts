@@ -0,0 +1,156 @@
+import { CompiledQuery, Kysely, sql } from 'kysely';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import { BigQueryConnection, BigQueryDialect } from '../src';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+const TIB = 1024 ** 4;
+
+const dryRunResponse = (statistics: Record<string, unknown>) => [
+  { id: undefined },
+  { statistics },
+];
+
+interface Database {
+  'dataset.events': { id: string; payload: Record<string, unknown> | null };
+}
+
+describe('BigQuery Dry Run', () => {
+  let dialect: BigQueryDialect;
+  let db: Kysely<Database>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dialect = new BigQueryDialect({
+      options: { projectId: 'test-project' },
+      jsonColumns: { 'dataset.events': ['payload'] },
+    });
+    db = new Kysely<Database>({ dialect });
+  });
+
+  test('estimates the cost of a select builder', async () => {
+    mockCreateQueryJob.mockResolvedValue(
+      dryRunResponse({
+        totalBytesProcessed: String(2 * TIB),
+        query: {
+          totalBytesProcessed: String(2 * TIB),
+          referencedTables: [{ projectId: 'test-project', datasetId: 'dataset', tableId: 'events' }],
+          schema: { fields: [{ name: 'id', type: 'STRING' }] },
+        },
+      }),
+    );
+
+    const estimate = await dialect.estimateCost(
+      db.selectFrom('dataset.events').select('id').where('id', '=', 'a'),
+    );
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
+      query: 'select `id` from `dataset`.`events` where `id` = ?',
+      params: ['a'],
+      parseJSON: true,
+      dryRun: true,
+    });
+    expect(estimate).toEqual({
+      totalBytesProcessed: 2n * BigInt(TIB),
+      referencedTables: ['test-project.dataset.events'],
+      schema: [{ name: 'id', type: 'STRING' }],
+      estimatedCostUsd: 12.5,
+    });
+  });
+
+  test('uses a custom price per TiB', async () => {
+    mockCreateQueryJob.mockResolvedValue(
+      dryRunResponse({ query: { totalBytesProcessed: String(TIB) } }),
+    );
+
+    const estimate = await dialect.estimateCost(db.selectFrom('dataset.events').selectAll(), {
+      pricePerTiB: 5,
+    });
+
+    expect(estimate.estimatedCostUsd).toBe(5);
+  });
+
+  test('processes null and JSON parameters like a real run', async () => {
+    mockCreateQueryJob.mockResolvedValue(dryRunResponse({}));
+
+    await dialect.estimateCost(
+      db.insertInto('dataset.events').values({ id: 'a', payload: { kind: 'click' } }),
+    );
+    await dialect.estimateCost(
+      db.updateTable('dataset.events').set({ payload: null }).where('id', '=', 'a'),
+    );
+
+    expect(mockCreateQueryJob.mock.calls[0][0]).toMatchObject({
+      params: ['a', '{"kind":"click"}'],
+      dryRun: true,
+    });
+    expect(mockCreateQueryJob.mock.calls[1][0]).toMatchObject({
+      params: [null, 'a'],
+      types: ['STRING', 'STRING'],
+      dryRun: true,
+    });
+  });
+
+  test('accepts delete, merge and raw queries', async () => {
+    mockCreateQueryJob.mockResolvedValue(dryRunResponse({}));
+
+    await dialect.estimateCost(db.deleteFrom('dataset.events').where('id', '=', 'a'));
+    await dialect.estimateCost(
+      db
+        .mergeInto('dataset.events as t')
+        .using('dataset.events as s', 's.id', 't.id')
+        .whenMatched()
+        .thenDelete(),
+    );
+    await dialect.estimateCost(sql`SELECT 1`.compile(db));
+
+    expect(mockCreateQueryJob).toHaveBeenCalledTimes(3);
+    for (const [options] of mockCreateQueryJob.mock.calls) {
+      expect(options).toMatchObject({ dryRun: true });
+    }
+  });
+
+  test('returns empty defaults when BigQuery reports no statistics', async () => {
+    mockCreateQueryJob.mockResolvedValue(dryRunResponse({}));
+
+    const connection = new BigQueryConnection({ options: { projectId: 'test-project' } });
+    const estimate = await connection.dryRun(CompiledQuery.raw('SELECT 1', []));
+
+    expect(estimate).toEqual({
+      totalBytesProcessed: 0n,
+      referencedTables: [],
+      schema: [],
+      estimatedCostUsd: 0,
+    });
+  });
+
+  test('wraps dry run errors', async () => {
+    mockCreateQueryJob.mockRejectedValue(new Error('Syntax error: Unexpected end of script'));
+
+    await expect(dialect.estimateCost(CompiledQuery.raw('SELECT', []))).rejects.toThrow(
+      'BigQuery dry run failed: Syntax error: Unexpected end of script',
+    );
+  });
+
+  test('rethrows non-Error exceptions as-is', async () => {
+    mockCreateQueryJob.mockRejectedValue('String error');
+
+    await expect(dialect.estimateCost(CompiledQuery.raw('SELECT 1', []))).rejects.toBe(
+      'String error',
+    );
+  });
+});
@@ -1,16 +1,31 @@
 import { CompiledQuery } from 'kysely';
+import { Readable } from 'stream';
 import { describe, expect, test, vi, beforeEach } from 'vitest';
 
-import { BigQueryConnection, BigQueryDriver } from '../src';
+import {
+  BigQueryAccessDeniedError,
+  BigQueryConnection,
+  BigQueryDriver,
+  BigQueryDuplicateError,
+  BigQueryNotFoundError,
+  BigQueryQueryError,
+  BigQueryQuotaError,
+  BigQueryStreamingBufferError,
+  BigQuerySyntaxError,
+  createBigQueryError,
+} from '../src';
+import { createMockStreamJob } from './helpers';
 
 /* Mock BigQuery client */
 const mockQuery = vi.fn();
 const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
 
 vi.mock('@google-cloud/bigquery', () => {
   class MockBigQuery {
     query = mockQuery;
     createQueryStream = mockCreateQueryStream;
+    createQueryJob = mockCreateQueryJob;
   }
   return { BigQuery: MockBigQuery };
 });
@@ -70,21 +85,15 @@ describe('BigQuery Error Handling', () => {
   });
 
   describe('Transaction Errors', () => {
-    test('beginTransaction throws error', async () => {
-      await expect(connection.beginTransaction()).rejects.toThrow(
-        'Transactions are not supported.'
-      );
-    });
-
-    test('commitTransaction throws error', async () => {
+    test('commitTransaction throws without an active transaction', async () => {
       await expect(connection.commitTransaction()).rejects.toThrow(
-        'Transactions are not supported.'
+        'No transaction is in progress on this connection.'
       );
     });
 
-    test('rollbackTransaction throws error', async () => {
+    test('rollbackTransaction throws without an active transaction', async () => {
       await expect(connection.rollbackTransaction()).rejects.toThrow(
-        'Transactions are not supported.'
+        'No transaction is in progress on this connection.'
       );
     });
   });
@@ -100,24 +109,17 @@ describe('BigQuery Error Handling', () => {
       expect(conn).toBeInstanceOf(BigQueryConnection);
     });
 
-    test('beginTransaction throws error', async () => {
-      const conn = await driver.acquireConnection() as BigQueryConnection;
-      await expect(driver.beginTransaction(conn)).rejects.toThrow(
-        'Transactions are not supported.'
-      );
-    });
-
-    test('commitTransaction throws error', async () => {
+    test('commitTransaction throws without an active transaction', async () => {
       const conn = await driver.acquireConnection() as BigQueryConnection;
       await expect(driver.commitTransaction(conn)).rejects.toThrow(
-        'Transactions are not supported.'
+        'No transaction is in progress on this connection.'
       );
     });
 
-    test('rollbackTransaction throws error', async () => {
+    test('rollbackTransaction throws without an active transaction', async () => {
       const conn = await driver.acquireConnection() as BigQueryConnection;
       await expect(driver.rollbackTransaction(conn)).rejects.toThrow(
-        'Transactions are not supported.'
+        'No transaction is in progress on this connection.'
       );
     });
 
@@ -192,4 +194,135 @@ describe('BigQuery Error Handling', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe('Typed Errors', () => {
+    /**
+     * Builds an error shaped like the ApiError thrown by the BigQuery client.
+     */
+    const apiError = (message: string, reason: string, extra: Record<string, unknown> = {}) =>
+      Object.assign(new Error(message), {
+        code: 400,
+        errors: [{ reason, location: 'query', message }],
+        ...extra,
+      });
+
+    test.each([
+      ['invalidQuery', BigQuerySyntaxError],
+      ['rateLimitExceeded', BigQueryQuotaError],
+      ['quotaExceeded', BigQueryQuotaError],
+      ['notFound', BigQueryNotFoundError],
+      ['duplicate', BigQueryDuplicateError],
+      ['accessDenied', BigQueryAccessDeniedError],
+      ['backendError', BigQueryQueryError],
+    ])('maps reason %s to the matching error class', async (reason, ErrorClass) => {
+      mockQuery.mockRejectedValue(apiError('Something went wrong', reason));
+
+      const error = await connection
+        .executeQuery(CompiledQuery.raw('SELECT 1', []))
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ErrorClass);
+      expect(error).toBeInstanceOf(BigQueryQueryError);
+      expect((error as BigQueryQueryError).reason).toBe(reason);
+      expect((error as Error).name).toBe(ErrorClass.name);
+    });
+
+    test('keeps the original error and its structured fields', async () => {
+      const original = apiError('Syntax error: Unexpected identifier "FORM" at [2:3]', 'invalidQuery', {
+        response: { jobReference: { jobId: 'job_abc' } },
+      });
+      mockQuery.mockRejectedValue(original);
+
+      const sqlText = 'SELECT *\n  FORM users';
+      const error = (await connection
+        .executeQuery(CompiledQuery.raw(sqlText, []))
+        .catch((e: unknown) => e)) as BigQuerySyntaxError;
+
+      expect(error.message).toBe(
+        'BigQuery query failed: Syntax error: Unexpected identifier "FORM" at [2:3]',
+      );
+      expect(error.cause).toBe(original);
+      expect(error.code).toBe(400);
+      expect(error.errors).toEqual(original.errors);
+      expect(error.jobId).toBe('job_abc');
+      expect(error.sql).toBe(sqlText);
+      expect(error.position).toEqual({ line: 2, column: 3, offset: 11 });
+      expect(sqlText.slice(error.position!.offset)).toBe('FORM users');
+    });
+
+    test('detects streaming buffer conflicts before the reason code', async () => {
+      mockCreateQueryJob.mockRejectedValue(
+        apiError(
+          'UPDATE or DELETE statement over table dataset.users would affect rows in the streaming buffer, which is not supported',
+          'invalidQuery',
+        ),
+      );
+
+      await expect(
+        connection.executeQuery(CompiledQuery.raw('DELETE FROM dataset.users WHERE true', [])),
+      ).rejects.toBeInstanceOf(BigQueryStreamingBufferError);
+    });
+
+    test('classifies plain errors by their message', async () => {
+      mockQuery.mockRejectedValue(new Error('Not found: Table project:dataset.missing'));
+
+      await expect(
+        connection.executeQuery(CompiledQuery.raw('SELECT * FROM dataset.missing', [])),
+      ).rejects.toBeInstanceOf(BigQueryNotFoundError);
+    });
+
+    test('reports the job id of a failed DML job', async () => {
+      const job = {
+        id: 'job_dml',
+        getQueryResults: vi.fn().mockRejectedValue(apiError('Access Denied: Table users', 'accessDenied')),
+        getMetadata: vi.fn(),
+      };
+      mockCreateQueryJob.mockResolvedValue([job]);
+
+      const error = (await connection
+        .executeQuery(CompiledQuery.raw('DELETE FROM users WHERE true', []))
+        .catch((e: unknown) => e)) as BigQueryAccessDeniedError;
+
+      expect(error).toBeInstanceOf(BigQueryAccessDeniedError);
+      expect(error.message).toBe('BigQuery query failed: Access Denied: Table users');
+      expect(error.jobId).toBe('job_dml');
+    });
+
+    test('stream errors are typed', async () => {
+      mockCreateQueryJob.mockImplementation(async () => [
+        createMockStreamJob(
+          Readable.from(
+            (async function* () {
+              throw apiError('Exceeded rate limits', 'rateLimitExceeded');
+            })(),
+          ),
+        ),
+      ]);
+
+      const iterate = async () => {
+        for await (const _ of connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 1)) {
+          /* No rows */
+        }
+      };
+
+      await expect(iterate()).rejects.toBeInstanceOf(BigQueryQuotaError);
+      await expect(iterate()).rejects.toThrow('BigQuery stream error: Exceeded rate limits');
+    });
+
+    test('ignores error positions outside of the SQL', () => {
+      const error = createBigQueryError(
+        new Error('Syntax error at [5:1]'),
+        'BigQuery query failed',
+        { sql: 'SELECT 1' },
+      ) as BigQueryQueryError;
+
+      expect(error.position).toBeUndefined();
+    });
+
+    test('does not wrap errors that are already typed', () => {
+      const typed = new BigQueryQueryError('BigQuery query failed: boom', new Error('boom'));
+
+      expect(createBigQueryError(typed, 'BigQuery stream error')).toBe(typed);
+    });
+  });
+});
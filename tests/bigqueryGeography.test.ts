@@ -0,0 +1,268 @@
+import { Kysely, sql } from 'kysely';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import {
+  BigQueryDialect,
+  bq,
+  type GeoJsonGeometry,
+  geoJsonToWkt,
+  st,
+  toQueryValue,
+  wktToGeoJson,
+} from '../src';
+import { createMockJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+const actualClient = () =>
+  vi.importActual<typeof import('@google-cloud/bigquery')>('@google-cloud/bigquery');
+
+const depot: GeoJsonGeometry = { type: 'Point', coordinates: [-122.35, 47.62] };
+const zone: GeoJsonGeometry = {
+  type: 'Polygon',
+  coordinates: [
+    [
+      [0, 0],
+      [1, 0],
+      [1, 1],
+      [0, 0],
+    ],
+  ],
+};
+
+describe('BigQuery GEOGRAPHY Support', () => {
+  let kysely: Kysely<any>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockResolvedValue([[]]);
+    mockCreateQueryJob.mockResolvedValue([createMockJob()]);
+    kysely = new Kysely<any>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+  });
+
+  describe('bq.geography()', () => {
+    test('sends WKT and GeoJSON as GEOGRAPHY parameters', async () => {
+      await sql`select ST_CONTAINS(${bq.geography(zone)}, ${bq.geography('POINT(0.5 0.5)')})`.execute(
+        kysely,
+      );
+
+      expect(mockQuery).toHaveBeenCalledWith({
+        query: 'select ST_CONTAINS(?, ?)',
+        params: [{ value: 'POLYGON((0 0, 1 0, 1 1, 0 0))' }, { value: 'POINT(0.5 0.5)' }],
+        types: ['GEOGRAPHY', 'GEOGRAPHY'],
+        parseJSON: true,
+      });
+    });
+
+    test('rejects invalid WKT and GeoJSON', () => {
+      expect(() => bq.geography('POINT(1)')).toThrow(
+        'Invalid WKT "POINT(1)": expected a number but found ")".',
+      );
+      expect(() => bq.geography({ type: 'Point', coordinates: ['a', 1] } as never)).toThrow(
+        'Invalid GeoJSON geometry: {"type":"Point","coordinates":["a",1]}.',
+      );
+    });
+
+    test('prepared values produce the expected query parameter in the client', async () => {
+      const { BigQuery } = await actualClient();
+      const { value } = bq.geography(depot);
+
+      expect(
+        BigQuery.valueToQueryParameter_(toQueryValue(value, 'GEOGRAPHY'), 'GEOGRAPHY'),
+      ).toEqual({
+        parameterType: { type: 'GEOGRAPHY' },
+        parameterValue: { value: 'POINT(-122.35 47.62)' },
+      });
+    });
+
+    test('client Geography objects are sent with their type', async () => {
+      const { BigQuery } = await actualClient();
+
+      await sql`select ${BigQuery.geography('POINT(1 2)')}, ${null}`.execute(kysely);
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.objectContaining({ types: ['GEOGRAPHY', 'STRING'] }),
+      );
+    });
+  });
+
+  describe('st helpers', () => {
+    test('compile to geography functions with columns and parameters', async () => {
+      await kysely
+        .selectFrom('dataset.stops')
+        .select(['id', st.distance('stops.location', depot).as('meters')])
+        .where(st.dWithin('location', depot, 5000))
+        .where(st.contains(bq.geography(zone), 'location'))
+        .where(st.intersects(st.geogFromText('LINESTRING(0 0, 1 1)'), 'route'))
+        .execute();
+
+      expect(mockQuery).toHaveBeenCalledWith({
+        query:
+          'select `id`, ST_DISTANCE(`stops`.`location`, ?) as `meters` from `dataset`.`stops` where ST_DWITHIN(`location`, ?, ?) and ST_CONTAINS(?, `location`) and ST_INTERSECTS(ST_GEOGFROMTEXT(?), `route`)',
+        params: [
+          { value: 'POINT(-122.35 47.62)' },
+          { value: 'POINT(-122.35 47.62)' },
+          5000,
+          { value: 'POLYGON((0 0, 1 0, 1 1, 0 0))' },
+          'LINESTRING(0 0, 1 1)',
+        ],
+        types: ['GEOGRAPHY', 'GEOGRAPHY', undefined, 'GEOGRAPHY', undefined],
+        parseJSON: true,
+      });
+    });
+
+    test('build geographies from points and GeoJSON text', async () => {
+      await kysely
+        .selectFrom('dataset.stops')
+        .select([
+          st.asGeoJson(st.geogPoint(1.5, 2)).as('point'),
+          st.asText(st.geogFromGeoJson(depot)).as('wkt'),
+        ])
+        .execute();
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          query:
+            'select ST_ASGEOJSON(ST_GEOGPOINT(?, ?)) as `point`, ST_ASTEXT(ST_GEOGFROMGEOJSON(?)) as `wkt` from `dataset`.`stops`',
+          params: [1.5, 2, JSON.stringify(depot)],
+        }),
+      );
+    });
+  });
+
+  test('types WKT and GeoJSON used with known GEOGRAPHY columns', async () => {
+    const db = new Kysely<any>({
+      dialect: new BigQueryDialect({
+        options: { projectId: 'test-project' },
+        columnTypes: { 'dataset.zones': { name: 'STRING', area: 'GEOGRAPHY' } },
+      }),
+    });
+
+    await db.insertInto('dataset.zones').values({ name: 'north', area: zone }).execute();
+    await db.updateTable('dataset.zones').set({ area: 'POINT(1 2)' }).execute();
+
+    expect(mockCreateQueryJob).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        params: ['north', { value: 'POLYGON((0 0, 1 0, 1 1, 0 0))' }],
+        types: [undefined, 'GEOGRAPHY'],
+      }),
+    );
+    expect(mockCreateQueryJob).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ params: [{ value: 'POINT(1 2)' }], types: ['GEOGRAPHY'] }),
+    );
+  });
+
+  test('geographyAsGeoJson returns GeoJSON, including in STRUCTs and ARRAYs', async () => {
+    const { BigQuery } = await actualClient();
+    const fields = [
+      { name: 'area', type: 'GEOGRAPHY' },
+      {
+        name: 'stops',
+        type: 'RECORD',
+        mode: 'REPEATED',
+        fields: [{ name: 'location', type: 'GEOGRAPHY' }],
+      },
+    ];
+    const rows = [
+      {
+        f: [
+          { v: 'POLYGON((0 0, 1 0, 1 1, 0 0))' },
+          { v: [{ v: { f: [{ v: 'POINT(-122.35 47.62)' }] } }] },
+        ],
+      },
+    ];
+    mockQuery.mockResolvedValue([BigQuery.mergeSchemaWithRows_({ fields } as any, rows, {})]);
+    const db = new Kysely<any>({
+      dialect: new BigQueryDialect({
+        options: { projectId: 'test-project' },
+        geographyAsGeoJson: true,
+      }),
+    });
+
+    const result = await db.selectFrom('dataset.zones').selectAll().execute();
+
+    expect(result).toEqual([{ area: zone, stops: [{ location: depot }] }]);
+  });
+
+  describe('WKT and GeoJSON conversion', () => {
+    test.each<[string, GeoJsonGeometry]>([
+      ['POINT(1 2)', { type: 'Point', coordinates: [1, 2] }],
+      ['POINT EMPTY', { type: 'Point', coordinates: [] }],
+      ['LINESTRING(0 0, 1.5 -2)', { type: 'LineString', coordinates: [[0, 0], [1.5, -2]] }],
+      ['MULTIPOINT((1 2), (3 4))', { type: 'MultiPoint', coordinates: [[1, 2], [3, 4]] }],
+      [
+        'MULTILINESTRING((0 0, 1 1), (2 2, 3 3))',
+        {
+          type: 'MultiLineString',
+          coordinates: [
+            [[0, 0], [1, 1]],
+            [[2, 2], [3, 3]],
+          ],
+        },
+      ],
+      ['POLYGON((0 0, 1 0, 1 1, 0 0))', zone],
+      [
+        'MULTIPOLYGON(((0 0, 1 0, 1 1, 0 0)), ((5 5, 6 5, 6 6, 5 5)))',
+        {
+          type: 'MultiPolygon',
+          coordinates: [
+            zone.coordinates,
+            [[[5, 5], [6, 5], [6, 6], [5, 5]]],
+          ],
+        },
+      ],
+      [
+        'GEOMETRYCOLLECTION(POINT(1 2), LINESTRING(0 0, 1 1))',
+        {
+          type: 'GeometryCollection',
+          geometries: [
+            { type: 'Point', coordinates: [1, 2] },
+            { type: 'LineString', coordinates: [[0, 0], [1, 1]] },
+          ],
+        },
+      ],
+      ['GEOMETRYCOLLECTION EMPTY', { type: 'GeometryCollection', geometries: [] }],
+    ])('converts %s', (wkt, geoJson) => {
+      expect(wktToGeoJson(wkt)).toEqual(geoJson);
+      expect(geoJsonToWkt(geoJson)).toBe(wkt);
+    });
+
+    test('reads other WKT spellings', () => {
+      expect(wktToGeoJson('MultiPoint(1 2, 3 4)')).toEqual({
+        type: 'MultiPoint',
+        coordinates: [[1, 2], [3, 4]],
+      });
+      expect(wktToGeoJson('POINT Z (1 2 3)')).toEqual({ type: 'Point', coordinates: [1, 2] });
+      expect(wktToGeoJson('POINT(1e-7 -2.5E3)')).toEqual({
+        type: 'Point',
+        coordinates: [1e-7, -2500],
+      });
+    });
+
+    test.each([
+      ['CIRCLE(1 2)', 'unknown geometry type "CIRCLE"'],
+      ['POINT(1 2', 'unexpected end of text'],
+      ['POINT(1 2) x', 'unexpected "x"'],
+      ['LINESTRING 0 0', 'expected "(" but found "0"'],
+    ])('rejects %s', (wkt, reason) => {
+      expect(() => wktToGeoJson(wkt)).toThrow(`Invalid WKT "${wkt}": ${reason}.`);
+    });
+  });
+});
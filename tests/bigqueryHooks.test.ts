@@ -0,0 +1,352 @@
+import { CompiledQuery, Kysely } from 'kysely';
+import { Readable } from 'stream';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import {
+  BigQueryConnection,
+  BigQueryDialect,
+  type BigQueryDialectConfig,
+  type BigQuerySpan,
+  type BigQueryTracer,
+} from '../src';
+import { createMockJob, createMockStreamJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+/**
+ * No-op tracer that keeps the spans it starts so tests can inspect them.
+ */
+function createNoopTracer() {
+  const spans: Array<
+    BigQuerySpan & { name: string; options: unknown; [K: string]: any }
+  > = [];
+  const tracer: BigQueryTracer = {
+    startSpan: (name, options) => {
+      const span = {
+        name,
+        options,
+        setAttribute: vi.fn(),
+        addEvent: vi.fn(),
+        setStatus: vi.fn(),
+        recordException: vi.fn(),
+        end: vi.fn(),
+      };
+      spans.push(span);
+      return span;
+    },
+  };
+  return { tracer, spans };
+}
+
+const jobMetadata = {
+  jobReference: { jobId: 'job-123', location: 'EU' },
+  statistics: { query: { totalBytesBilled: '10485760', totalBytesProcessed: '2048' } },
+};
+
+const createConnection = (config: Partial<BigQueryDialectConfig>) =>
+  new BigQueryConnection({ options: { projectId: 'test-project' }, ...config });
+
+describe('BigQuery Query Hooks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('reports job creation and completion', async () => {
+    const onJobCreated = vi.fn();
+    const onJobDone = vi.fn();
+    const connection = createConnection({ hooks: { onJobCreated, onJobDone } });
+    mockCreateQueryJob.mockResolvedValue([
+      { ...createMockJob(jobMetadata, [{ id: 1 }]), location: 'EU' },
+      { status: { state: 'RUNNING' } },
+    ]);
+
+    const result = await connection.executeQuery(CompiledQuery.raw('SELECT 1', []));
+
+    expect(result.rows).toEqual([{ id: 1 }]);
+    expect(onJobCreated).toHaveBeenCalledWith({
+      sql: 'SELECT 1',
+      jobId: 'job-123',
+      location: 'EU',
+      state: 'RUNNING',
+    });
+    expect(onJobDone).toHaveBeenCalledWith({
+      sql: 'SELECT 1',
+      jobId: 'job-123',
+      durationMs: expect.any(Number),
+      statistics: expect.objectContaining({ totalBytesBilled: 10485760n }),
+    });
+    expect(result.statistics).toBeUndefined();
+  });
+
+  test('reports jobs that start running on creation', async () => {
+    const onJobRunning = vi.fn();
+    const connection = createConnection({ hooks: { onJobRunning } });
+    mockCreateQueryJob.mockResolvedValue([
+      { ...createMockJob(jobMetadata), location: 'EU' },
+      { status: { state: 'RUNNING' } },
+    ]);
+
+    await connection.executeQuery(CompiledQuery.raw('SELECT 1', []));
+
+    expect(onJobRunning).toHaveBeenCalledTimes(1);
+    expect(onJobRunning).toHaveBeenCalledWith({
+      sql: 'SELECT 1',
+      jobId: 'job-123',
+      location: 'EU',
+    });
+  });
+
+  test('polls pending jobs until they run', async () => {
+    vi.useFakeTimers();
+    try {
+      const events: string[] = [];
+      const connection = createConnection({
+        hooks: {
+          onJobRunning: () => events.push('running'),
+          onJobDone: () => events.push('done'),
+        },
+      });
+      const job = createMockJob(jobMetadata, [{ id: 1 }]);
+      let finish: (value: unknown) => void = () => undefined;
+      job.getQueryResults.mockReturnValue(new Promise((resolve) => (finish = resolve)));
+      job.getMetadata
+        .mockResolvedValueOnce([{ status: { state: 'PENDING' } }, {}])
+        .mockResolvedValueOnce([{ status: { state: 'RUNNING' } }, {}]);
+      mockCreateQueryJob.mockResolvedValue([job, { status: { state: 'PENDING' } }]);
+
+      const pending = connection.executeQuery(CompiledQuery.raw('SELECT 1', []));
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(events).toEqual([]);
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(events).toEqual(['running']);
+
+      finish([[{ id: 1 }]]);
+      await pending;
+      expect(events).toEqual(['running', 'done']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test('reports jobs that finish before a poll as running', async () => {
+    const events: string[] = [];
+    const connection = createConnection({
+      hooks: {
+        onJobRunning: () => events.push('running'),
+        onJobDone: () => events.push('done'),
+      },
+    });
+    mockCreateQueryJob.mockResolvedValue([
+      createMockJob(jobMetadata),
+      { status: { state: 'PENDING' } },
+    ]);
+
+    await connection.executeQuery(CompiledQuery.raw('SELECT 1', []));
+
+    expect(events).toEqual(['running', 'done']);
+  });
+
+  test('reports errors thrown by hooks without failing the query', async () => {
+    const onHookError = vi.fn();
+    const connection = createConnection({
+      hooks: {
+        onJobCreated: () => {
+          throw new Error('created failed');
+        },
+        onJobDone: () => {
+          throw new Error('done failed');
+        },
+        onHookError,
+      },
+      onQueryStatistics: () => {
+        throw new Error('statistics failed');
+      },
+    });
+    mockCreateQueryJob.mockResolvedValue([createMockJob(jobMetadata, [{ id: 1 }])]);
+
+    const result = await connection.executeQuery(CompiledQuery.raw('SELECT 1', []));
+
+    expect(result.rows).toEqual([{ id: 1 }]);
+    expect(onHookError.mock.calls.map(([event]) => [event.hook, event.error.message])).toEqual([
+      ['onJobCreated', 'created failed'],
+      ['onJobDone', 'done failed'],
+      ['onQueryStatistics', 'statistics failed'],
+    ]);
+    expect(onHookError).toHaveBeenCalledWith(expect.objectContaining({ sql: 'SELECT 1' }));
+  });
+
+  test('reports DML jobs', async () => {
+    const onJobDone = vi.fn();
+    const connection = createConnection({ hooks: { onJobDone } });
+    mockCreateQueryJob.mockResolvedValue([createMockJob(jobMetadata)]);
+
+    await connection.executeQuery(CompiledQuery.raw('DELETE FROM dataset.t WHERE true', []));
+
+    expect(onJobDone).toHaveBeenCalledWith(expect.objectContaining({ jobId: 'job-123' }));
+  });
+
+  test('reports retries and the final failure', async () => {
+    const onQueryRetry = vi.fn();
+    const onQueryFailed = vi.fn();
+    const connection = createConnection({
+      hooks: { onQueryRetry, onQueryFailed },
+      retry: { maxAttempts: 2, baseDelayMs: 0 },
+    });
+    mockCreateQueryJob.mockRejectedValue(
+      Object.assign(new Error('Backend error'), { errors: [{ reason: 'backendError' }] }),
+    );
+
+    await expect(connection.executeQuery(CompiledQuery.raw('SELECT 1', []))).rejects.toThrow(
+      'BigQuery query failed: Backend error',
+    );
+
+    expect(onQueryRetry).toHaveBeenCalledTimes(1);
+    expect(onQueryRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, sql: 'SELECT 1' }));
+    expect(onQueryFailed).toHaveBeenCalledTimes(1);
+    expect(onQueryFailed).toHaveBeenCalledWith({
+      sql: 'SELECT 1',
+      jobId: undefined,
+      durationMs: expect.any(Number),
+      error: expect.objectContaining({ reason: 'backendError' }),
+    });
+  });
+
+  test('reports the row count when a stream ends', async () => {
+    const onStreamEnd = vi.fn();
+    const connection = createConnection({ hooks: { onStreamEnd } });
+    mockCreateQueryJob.mockResolvedValue([
+      createMockStreamJob(Readable.from([{ id: 1 }, { id: 2 }, { id: 3 }])),
+    ]);
+
+    for await (const _ of connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 2)) {
+      /* drain */
+    }
+
+    expect(onStreamEnd).toHaveBeenCalledWith({
+      sql: 'SELECT 1',
+      jobId: 'job-123',
+      durationMs: expect.any(Number),
+      rowCount: 3,
+    });
+  });
+
+  test('reports the rows read when the consumer stops a stream early', async () => {
+    const onStreamEnd = vi.fn();
+    const connection = createConnection({ hooks: { onStreamEnd } });
+    mockCreateQueryJob.mockResolvedValue([
+      createMockStreamJob(Readable.from([{ id: 1 }, { id: 2 }, { id: 3 }])),
+    ]);
+
+    for await (const _ of connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 2)) {
+      break;
+    }
+
+    expect(onStreamEnd).toHaveBeenCalledWith(expect.objectContaining({ rowCount: 2 }));
+  });
+
+  test('reports jobs created by paged streams', async () => {
+    const onJobCreated = vi.fn();
+    const connection = createConnection({ hooks: { onJobCreated }, streamMode: 'pages' });
+    mockCreateQueryJob.mockResolvedValue([createMockJob({}, [{ id: 1 }])]);
+
+    for await (const _ of connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 10)) {
+      /* drain */
+    }
+
+    expect(onJobCreated).toHaveBeenCalledWith(expect.objectContaining({ jobId: 'job-123' }));
+  });
+});
+
+describe('BigQuery Tracing', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('records a span per query with job attributes', async () => {
+    const { tracer, spans } = createNoopTracer();
+    const kysely = new Kysely<any>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' }, tracer }),
+    });
+    mockCreateQueryJob.mockResolvedValue([
+      { ...createMockJob(jobMetadata, [{ id: 1 }]), location: 'EU' },
+    ]);
+
+    await kysely.selectFrom('dataset.events').selectAll().execute();
+
+    expect(spans).toHaveLength(1);
+    const span = spans[0]!;
+    expect(span.name).toBe('bigquery.query');
+    expect(span.options).toEqual({
+      kind: 2,
+      attributes: { 'db.system': 'bigquery', 'db.statement': 'select * from `dataset`.`events`' },
+    });
+    expect(span.setAttribute).toHaveBeenCalledWith('bigquery.job_id', 'job-123');
+    expect(span.setAttribute).toHaveBeenCalledWith('bigquery.location', 'EU');
+    expect(span.setAttribute).toHaveBeenCalledWith('bigquery.total_bytes_billed', 10485760);
+    expect(span.setAttribute).toHaveBeenCalledWith('bigquery.total_bytes_processed', 2048);
+    expect(span.setStatus).not.toHaveBeenCalled();
+    expect(span.end).toHaveBeenCalledTimes(1);
+  });
+
+  test('marks the span as failed', async () => {
+    const { tracer, spans } = createNoopTracer();
+    const connection = createConnection({ tracer });
+    mockCreateQueryJob.mockRejectedValue(new Error('Syntax error: Unexpected keyword'));
+
+    await expect(connection.executeQuery(CompiledQuery.raw('SELEC 1', []))).rejects.toThrow();
+
+    const span = spans[0]!;
+    expect(span.recordException).toHaveBeenCalledWith(expect.any(Error));
+    expect(span.setStatus).toHaveBeenCalledWith({
+      code: 2,
+      message: 'BigQuery query failed: Syntax error: Unexpected keyword',
+    });
+    expect(span.end).toHaveBeenCalledTimes(1);
+  });
+
+  test('records retries as span events', async () => {
+    const { tracer, spans } = createNoopTracer();
+    const connection = createConnection({ tracer, retry: { baseDelayMs: 0, jitter: false } });
+    mockCreateQueryJob
+      .mockRejectedValueOnce(
+        Object.assign(new Error('Rate limited'), { errors: [{ reason: 'rateLimitExceeded' }] }),
+      )
+      .mockResolvedValueOnce([createMockJob(jobMetadata)]);
+
+    await connection.executeQuery(CompiledQuery.raw('SELECT 1', []));
+
+    expect(spans[0]!.addEvent).toHaveBeenCalledWith('retry', {
+      attempt: 1,
+      delay_ms: 0,
+      reason: 'rateLimitExceeded',
+    });
+  });
+
+  test('records the row count of streams', async () => {
+    const { tracer, spans } = createNoopTracer();
+    const connection = createConnection({ tracer });
+    mockCreateQueryJob.mockResolvedValue([
+      createMockStreamJob(Readable.from([{ id: 1 }, { id: 2 }])),
+    ]);
+
+    for await (const _ of connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 10)) {
+      /* drain */
+    }
+
+    expect(spans[0]!.setAttribute).toHaveBeenCalledWith('bigquery.row_count', 2);
+    expect(spans[0]!.end).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,362 @@
+import { Kysely, sql } from 'kysely';
+import { Readable } from 'stream';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import {
+  BigQueryDialect,
+  BigQueryIntervalValue,
+  BigQueryRangeValue,
+  bq,
+  interval,
+  range,
+} from '../src';
+import { createMockJob, createMockStreamJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+/* Decodes a row the way the real client does */
+async function decodeRows(
+  fields: Record<string, unknown>[],
+  values: unknown[],
+): Promise<Record<string, unknown>[]> {
+  const { BigQuery } =
+    await vi.importActual<typeof import('@google-cloud/bigquery')>('@google-cloud/bigquery');
+  return BigQuery.mergeSchemaWithRows_(
+    { fields } as never,
+    [{ f: values.map((v) => ({ v })) }] as never,
+    {},
+  );
+}
+
+describe('BigQuery INTERVAL and RANGE Support', () => {
+  let kysely: Kysely<any>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockResolvedValue([[]]);
+    mockCreateQueryJob.mockResolvedValue([createMockJob()]);
+    kysely = new Kysely<any>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+  });
+
+  describe('BigQueryIntervalValue', () => {
+    test.each([
+      [
+        '1-2 3 4:5:6.789',
+        { years: 1, months: 2, days: 3, hours: 4, minutes: 5, seconds: 6, microseconds: 789000 },
+      ],
+      [
+        '0-0 0 0:0:0',
+        { years: 0, months: 0, days: 0, hours: 0, minutes: 0, seconds: 0, microseconds: 0 },
+      ],
+      [
+        '-1-6 -15 -100:30:0.000001',
+        {
+          years: -1,
+          months: -6,
+          days: -15,
+          hours: -100,
+          minutes: -30,
+          seconds: 0,
+          microseconds: -1,
+        },
+      ],
+    ])('parses and prints %s', (text, parts) => {
+      const value = BigQueryIntervalValue.parse(text);
+
+      expect({ ...value }).toEqual(parts);
+      expect(value.toString()).toBe(text);
+    });
+
+    test('normalizes parts within the year-month and time groups', () => {
+      const value = bq.interval({ months: 14, days: 40, minutes: 90, seconds: -1 });
+
+      expect({ ...value }).toEqual({
+        years: 1,
+        months: 2,
+        days: 40,
+        hours: 1,
+        minutes: 29,
+        seconds: 59,
+        microseconds: 0,
+      });
+      expect(value.toString()).toBe('1-2 40 1:29:59');
+    });
+
+    test('rejects invalid text and parts', () => {
+      expect(() => bq.interval('3 days')).toThrow('Invalid INTERVAL value "3 days".');
+      expect(() => bq.interval({ seconds: 1.5 })).toThrow(
+        'Invalid INTERVAL seconds "1.5". Parts must be integers.',
+      );
+    });
+  });
+
+  describe('INTERVAL expressions', () => {
+    test('sends interval values cast from their canonical text', async () => {
+      await kysely
+        .insertInto('dataset.plans')
+        .values({ id: 1, trial: bq.interval({ days: 14 }) })
+        .execute();
+
+      expect(mockCreateQueryJob).toHaveBeenCalledWith(
+        expect.objectContaining({
+          query: 'insert into `dataset`.`plans` (`id`, `trial`) values (?, CAST(? AS INTERVAL))',
+          params: [1, '0-0 14 0:0:0'],
+        }),
+      );
+    });
+
+    test('builds INTERVAL literals and MAKE_INTERVAL calls', async () => {
+      await kysely
+        .selectFrom('dataset.orders')
+        .select([
+          sql`TIMESTAMP_ADD(created_at, ${interval.of(3, 'DAY')})`.as('due'),
+          interval.make({ days: 1, hours: sql.ref('delay_hours') }).as('grace'),
+        ])
+        .execute();
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          query:
+            'select TIMESTAMP_ADD(created_at, INTERVAL ? DAY) as `due`, MAKE_INTERVAL(day => ?, hour => `delay_hours`) as `grace` from `dataset`.`orders`',
+          params: [3, 1],
+        }),
+      );
+    });
+
+    test('rejects unknown parts and fractional counts', () => {
+      expect(() => interval.of(1, 'FORTNIGHT' as never)).toThrow(
+        'Invalid INTERVAL part "FORTNIGHT".',
+      );
+      expect(() => interval.of(1.5, 'DAY')).toThrow(
+        'Invalid INTERVAL value "1.5 DAY". Counts must be integers.',
+      );
+    });
+  });
+
+  describe('bq.range()', () => {
+    test('sends bounds typed by the element type', async () => {
+      await sql`select ${bq.range('2024-01-01', null)}, ${bq.range(null, '2024-01-15 10:30:00')}`.execute(
+        kysely,
+      );
+
+      expect(mockQuery).toHaveBeenCalledWith({
+        query: 'select RANGE(?, ?), RANGE(?, ?)',
+        params: [{ value: '2024-01-01' }, null, null, { value: '2024-01-15 10:30:00' }],
+        types: ['DATE', 'DATE', 'DATETIME', 'DATETIME'],
+        parseJSON: true,
+      });
+    });
+
+    test('infers TIMESTAMP from Dates and accepts an explicit element type', () => {
+      const start = new Date('2024-01-01T00:00:00Z');
+
+      expect(bq.range(start, null)).toEqual(new BigQueryRangeValue(start, null, 'TIMESTAMP'));
+      expect(bq.range(start, '2024-02-01', 'DATE')).toEqual(
+        new BigQueryRangeValue(start, '2024-02-01', 'DATE'),
+      );
+    });
+
+    test('rejects mismatched bounds and ranges without a type', () => {
+      expect(() => bq.range('2024-01-01', new Date())).toThrow('Invalid RANGE<DATE> bound');
+      expect(() => bq.range('2024-01-01', '10:30', 'DATETIME')).toThrow(
+        'Invalid RANGE<DATETIME> bound "10:30".',
+      );
+      expect(() => bq.range(null, null)).toThrow(
+        'Cannot infer the element type of a RANGE without bounds. Pass the type.',
+      );
+    });
+  });
+
+  test('range helpers compile to RANGE functions', async () => {
+    await kysely
+      .selectFrom('dataset.bookings')
+      .select((eb) => [
+        range.of(eb.ref('check_in'), null).as('stay'),
+        range.start('period').as('starts'),
+      ])
+      .where(range.overlaps('period', bq.range('2024-01-01', '2024-02-01')))
+      .where(range.contains('period', bq.date('2024-01-10')))
+      .where((eb) => range.contains(range.intersect('period', 'blackout'), eb.ref('check_in')))
+      .execute();
+
+    expect(mockQuery).toHaveBeenCalledWith({
+      query:
+        'select RANGE(`check_in`, NULL) as `stay`, RANGE_START(`period`) as `starts` from `dataset`.`bookings` where RANGE_OVERLAPS(`period`, RANGE(?, ?)) and RANGE_CONTAINS(`period`, ?) and RANGE_CONTAINS(RANGE_INTERSECT(`period`, `blackout`), `check_in`)',
+      params: [{ value: '2024-01-01' }, { value: '2024-02-01' }, { value: '2024-01-10' }],
+      types: ['DATE', 'DATE', 'DATE'],
+      parseJSON: true,
+    });
+  });
+
+  test('sends string bounds as values typed by their format', async () => {
+    await kysely
+      .selectFrom('dataset.bookings')
+      .selectAll()
+      .where(range.overlaps('period', range.of('2024-01-01', '2024-02-01')))
+      .where(range.contains('stay', '2024-01-10 12:00:00'))
+      .where(range.contains('window', '2024-01-10T12:00:00Z'))
+      .execute();
+
+    expect(mockQuery).toHaveBeenCalledWith({
+      query:
+        'select * from `dataset`.`bookings` where RANGE_OVERLAPS(`period`, RANGE(?, ?)) and RANGE_CONTAINS(`stay`, ?) and RANGE_CONTAINS(`window`, ?)',
+      params: [
+        { value: '2024-01-01' },
+        { value: '2024-02-01' },
+        { value: '2024-01-10 12:00:00' },
+        { value: '2024-01-10T12:00:00Z' },
+      ],
+      types: ['DATE', 'DATE', 'DATETIME', 'TIMESTAMP'],
+      parseJSON: true,
+    });
+  });
+
+  test('casts strings and nulls for known INTERVAL and RANGE columns', async () => {
+    const db = new Kysely<any>({
+      dialect: new BigQueryDialect({
+        options: { projectId: 'test-project' },
+        columnTypes: { 'dataset.plans': { trial: 'INTERVAL', period: 'range<date>' } },
+      }),
+    });
+
+    await db
+      .updateTable('dataset.plans')
+      .set({ trial: '0-0 7 0:0:0', period: null })
+      .where('period', '=', '[2024-01-01, UNBOUNDED)')
+      .execute();
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query:
+          'update `dataset`.`plans` set `trial` = CAST(? AS INTERVAL), `period` = CAST(NULL AS RANGE<DATE>) where `period` = CAST(? AS RANGE<DATE>)',
+        params: ['0-0 7 0:0:0', '[2024-01-01, UNBOUNDED)'],
+      }),
+    );
+  });
+
+  describe('results', () => {
+    const fields = [
+      { name: 'trial', type: 'INTERVAL' },
+      { name: 'period', type: 'RANGE', rangeElementType: { type: 'DATE' } },
+      { name: 'name', type: 'STRING' },
+    ];
+    const values = ['0-1 2 3:4:5.5', '[2024-01-01, UNBOUNDED)', 'Trial'];
+
+    /* INTERVAL columns are found in the schema of the job's results */
+    const mockResults = async (rowValues: unknown[] = values) => {
+      const job = createMockJob();
+      job.getQueryResults.mockResolvedValue([
+        await decodeRows(fields, rowValues),
+        null,
+        { schema: { fields } },
+      ]);
+      mockCreateQueryJob.mockResolvedValue([job]);
+    };
+
+    test('parseIntervals and parseRanges return structured values', async () => {
+      await mockResults();
+      const db = new Kysely<any>({
+        dialect: new BigQueryDialect({
+          options: { projectId: 'test-project' },
+          parseIntervals: true,
+          parseRanges: true,
+          dateTimeResults: 'date',
+        }),
+      });
+
+      const [row] = await db.selectFrom('dataset.plans').selectAll().execute();
+
+      expect(row).toEqual({
+        trial: new BigQueryIntervalValue({
+          months: 1,
+          days: 2,
+          hours: 3,
+          minutes: 4,
+          seconds: 5,
+          microseconds: 500000,
+        }),
+        period: new BigQueryRangeValue(new Date('2024-01-01T00:00:00Z'), null, 'DATE'),
+        name: 'Trial',
+      });
+    });
+
+    test('INTERVAL and RANGE transformers receive the values as text', async () => {
+      await mockResults();
+      const db = new Kysely<any>({
+        dialect: new BigQueryDialect({
+          options: { projectId: 'test-project' },
+          parseRanges: true,
+          resultTransformers: { INTERVAL: (v) => `interval:${v}`, RANGE: (v) => `range:${v}` },
+        }),
+      });
+
+      const [row] = await db.selectFrom('dataset.plans').selectAll().execute();
+
+      expect(row).toEqual({
+        trial: 'interval:0-1 2 3:4:5.5',
+        period: 'range:[2024-01-01, UNBOUNDED)',
+        name: 'Trial',
+      });
+    });
+
+    test('leaves strings that look like intervals in other columns unchanged', async () => {
+      await mockResults(['0-0 1 0:0:0', null, '0-0 1 0:0:0']);
+      const db = new Kysely<any>({
+        dialect: new BigQueryDialect({
+          options: { projectId: 'test-project' },
+          parseIntervals: true,
+        }),
+      });
+
+      const [row] = await db.selectFrom('dataset.plans').selectAll().execute();
+
+      expect(row?.trial).toBeInstanceOf(BigQueryIntervalValue);
+      expect(row?.name).toBe('0-0 1 0:0:0');
+    });
+
+    test('reads the schema of streamed results', async () => {
+      const job = createMockStreamJob(Readable.from(await decodeRows(fields, values)));
+      job.getQueryResults.mockResolvedValue([[], null, { schema: { fields } }]);
+      mockCreateQueryJob.mockResolvedValue([job]);
+      const db = new Kysely<any>({
+        dialect: new BigQueryDialect({
+          options: { projectId: 'test-project' },
+          parseIntervals: true,
+        }),
+      });
+
+      const rows = [];
+      for await (const row of db.selectFrom('dataset.plans').selectAll().stream()) {
+        rows.push(row);
+      }
+
+      expect(job.getQueryResults).toHaveBeenCalledWith({ maxResults: 0 });
+      expect(rows[0]?.trial).toBeInstanceOf(BigQueryIntervalValue);
+    });
+
+    test('are left unchanged without the options', async () => {
+      const decoded = await decodeRows(fields, values);
+      mockQuery.mockResolvedValue([decoded]);
+
+      const [row] = await kysely.selectFrom('dataset.plans').selectAll().execute();
+
+      expect(row).toBe(decoded[0]);
+      expect(row.period.constructor.name).toBe('BigQueryRange');
+    });
+  });
+});
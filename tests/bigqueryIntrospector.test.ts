@@ -36,6 +36,7 @@ describe('BigQueryIntrospector', () => {
       const mockBigQueryInstance = {
         query: vi.fn(),
         createQueryStream: vi.fn(),
+        createQueryJob: vi.fn(),
         getDatasets: mockProvidedGetDatasets,
       };
 
@@ -56,6 +57,7 @@ describe('BigQueryIntrospector', () => {
       const mockDatasetInstance = {
         query: vi.fn(),
         createQueryStream: vi.fn(),
+        createQueryJob: vi.fn(),
       };
 
       mockGetDatasets.mockResolvedValue([[{ id: 'from_fallback' }]]);
@@ -0,0 +1,328 @@
+import { CamelCasePlugin, Kysely, sql } from 'kysely';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import {
+  BigQueryDialect,
+  BigQueryJobOptionsPlugin,
+  mergeJobOptions,
+  toQueryJobConfig,
+} from '../src';
+import { createMockJob, createMockStreamJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+interface Database {
+  'dataset.events': { id: string; team: string };
+}
+
+describe('BigQuery Job Options', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockResolvedValue([[]]);
+    mockCreateQueryJob.mockResolvedValue([createMockJob()]);
+  });
+
+  test('applies dialect jobDefaults to every query', async () => {
+    const db = new Kysely<Database>({
+      dialect: new BigQueryDialect({
+        options: { projectId: 'test-project' },
+        jobDefaults: {
+          labels: { team: 'finance' },
+          maximumBytesBilled: 1000000,
+          location: 'EU',
+        },
+      }),
+    });
+
+    await db.selectFrom('dataset.events').selectAll().execute();
+
+    expect(mockQuery).toHaveBeenCalledWith({
+      query: 'select * from `dataset`.`events`',
+      params: [],
+      parseJSON: true,
+      labels: { team: 'finance' },
+      maximumBytesBilled: '1000000',
+      location: 'EU',
+    });
+  });
+
+  test('plugin options override defaults and merge labels', async () => {
+    const db = new Kysely<Database>({
+      dialect: new BigQueryDialect({
+        options: { projectId: 'test-project' },
+        jobDefaults: { labels: { team: 'finance' }, priority: 'INTERACTIVE' },
+      }),
+    });
+
+    await db
+      .selectFrom('dataset.events')
+      .selectAll()
+      .withPlugin(
+        new BigQueryJobOptionsPlugin({
+          labels: { report: 'monthly' },
+          priority: 'BATCH',
+          useQueryCache: false,
+          jobTimeoutMs: 60000,
+        }),
+      )
+      .execute();
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        labels: { team: 'finance', report: 'monthly' },
+        priority: 'BATCH',
+        useQueryCache: false,
+        jobTimeoutMs: 60000,
+      }),
+    );
+  });
+
+  test('plugin options only apply to the query they are attached to', async () => {
+    const db = new Kysely<Database>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+
+    await db
+      .selectFrom('dataset.events')
+      .selectAll()
+      .withPlugin(new BigQueryJobOptionsPlugin({ priority: 'BATCH' }))
+      .execute();
+    await db.selectFrom('dataset.events').selectAll().execute();
+
+    expect(mockQuery.mock.calls[0][0]).toHaveProperty('priority', 'BATCH');
+    expect(mockQuery.mock.calls[1][0]).not.toHaveProperty('priority');
+  });
+
+  test('stacked plugins merge their options', async () => {
+    const db = new Kysely<Database>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+
+    await db
+      .selectFrom('dataset.events')
+      .selectAll()
+      .withPlugin(new BigQueryJobOptionsPlugin({ labels: { a: '1' }, priority: 'BATCH' }))
+      .withPlugin(new BigQueryJobOptionsPlugin({ labels: { b: '2' }, location: 'US' }))
+      .execute();
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        labels: { a: '1', b: '2' },
+        priority: 'BATCH',
+        location: 'US',
+      }),
+    );
+  });
+
+  test('plugin options apply to raw sql queries', async () => {
+    const db = new Kysely<Database>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+
+    await sql`SELECT 1`
+      .withPlugin(new BigQueryJobOptionsPlugin({ maximumBytesBilled: '5000' }))
+      .execute(db);
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      expect.objectContaining({ query: 'SELECT 1', maximumBytesBilled: '5000' }),
+    );
+  });
+
+  test('plugin options apply to DML jobs', async () => {
+    const db = new Kysely<Database>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+
+    await db
+      .deleteFrom('dataset.events')
+      .where('team', '=', 'old')
+      .withPlugin(new BigQueryJobOptionsPlugin({ labels: { job: 'cleanup' } }))
+      .execute();
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith(
+      expect.objectContaining({ labels: { job: 'cleanup' } }),
+    );
+  });
+
+  test('dry-run DML jobs are not waited on', async () => {
+    const job = createMockJob();
+    mockCreateQueryJob.mockResolvedValue([job]);
+    const db = new Kysely<Database>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+
+    const result = await db
+      .deleteFrom('dataset.events')
+      .where('team', '=', 'old')
+      .withPlugin(new BigQueryJobOptionsPlugin({ dryRun: true }))
+      .executeTakeFirst();
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith(expect.objectContaining({ dryRun: true }));
+    expect(job.getQueryResults).not.toHaveBeenCalled();
+    expect(result.numDeletedRows).toBe(0n);
+  });
+
+  test('plugin options apply to streamed queries', async () => {
+    mockCreateQueryJob.mockResolvedValue([createMockStreamJob((async function* () {})())]);
+    const db = new Kysely<Database>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+
+    for await (const _ of db
+      .selectFrom('dataset.events')
+      .selectAll()
+      .withPlugin(new BigQueryJobOptionsPlugin({ priority: 'BATCH' }))
+      .stream()) {
+      /* No rows */
+    }
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith(expect.objectContaining({ priority: 'BATCH' }));
+  });
+
+  test('transaction statements use the location and labels of the dialect jobDefaults', async () => {
+    mockCreateQueryJob.mockResolvedValue([
+      createMockJob({ statistics: { sessionInfo: { sessionId: 'session-1' } } }),
+    ]);
+    const db = new Kysely<Database>({
+      dialect: new BigQueryDialect({
+        options: { projectId: 'test-project' },
+        jobDefaults: { location: 'EU', labels: { team: 'finance' } },
+      }),
+    });
+
+    await db.transaction().execute(async () => {});
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
+      query: 'BEGIN TRANSACTION',
+      location: 'EU',
+      labels: { team: 'finance' },
+      createSession: true,
+    });
+  });
+
+  test('transaction statements ignore query-only jobDefaults such as dryRun', async () => {
+    mockCreateQueryJob.mockResolvedValue([
+      createMockJob({ statistics: { sessionInfo: { sessionId: 'session-1' } } }),
+    ]);
+    const db = new Kysely<Database>({
+      dialect: new BigQueryDialect({
+        options: { projectId: 'test-project' },
+        jobDefaults: { dryRun: true, maximumBytesBilled: 1000, priority: 'BATCH' },
+      }),
+    });
+
+    await db.transaction().execute(async () => {});
+
+    expect(mockCreateQueryJob.mock.calls.map((call) => call[0])).toEqual([
+      { query: 'BEGIN TRANSACTION', createSession: true },
+      {
+        query: 'COMMIT TRANSACTION',
+        connectionProperties: [{ key: 'session_id', value: 'session-1' }],
+      },
+      {
+        query: 'CALL BQ.ABORT_SESSION()',
+        connectionProperties: [{ key: 'session_id', value: 'session-1' }],
+      },
+    ]);
+  });
+
+  test('keeps the options when registered after plugins that rewrite the query', async () => {
+    const db = new Kysely<Database>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+      plugins: [new CamelCasePlugin()],
+    });
+
+    await db
+      .selectFrom('dataset.events')
+      .selectAll()
+      .withPlugin(new CamelCasePlugin({ upperCase: true }))
+      .withPlugin(new BigQueryJobOptionsPlugin({ labels: { report: 'monthly' } }))
+      .execute();
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      expect.objectContaining({ labels: { report: 'monthly' } }),
+    );
+  });
+
+  test('loses the options when a later plugin rewrites the query', async () => {
+    const db = new Kysely<Database>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+
+    await db
+      .selectFrom('dataset.events')
+      .selectAll()
+      .withPlugin(new BigQueryJobOptionsPlugin({ labels: { report: 'monthly' } }))
+      .withPlugin(new CamelCasePlugin())
+      .execute();
+
+    expect(mockQuery.mock.calls[0]?.[0]).not.toHaveProperty('labels');
+  });
+
+  test('plugin does not change the compiled SQL', () => {
+    const db = new Kysely<Database>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+    const query = db.selectFrom('dataset.events').select('id').where('team', '=', 'a');
+
+    const plain = query.compile();
+    const withOptions = query.withPlugin(new BigQueryJobOptionsPlugin({ dryRun: true })).compile();
+
+    expect(withOptions.sql).toBe(plain.sql);
+    expect(withOptions.parameters).toEqual(plain.parameters);
+  });
+
+  describe('mergeJobOptions', () => {
+    test('returns an empty object when nothing is set', () => {
+      expect(mergeJobOptions(undefined, undefined)).toEqual({});
+    });
+
+    test('does not add labels when neither side has them', () => {
+      expect(mergeJobOptions({ dryRun: true }, { location: 'US' })).toEqual({
+        dryRun: true,
+        location: 'US',
+      });
+    });
+  });
+
+  describe('toQueryJobConfig', () => {
+    test('converts every option', () => {
+      expect(
+        toQueryJobConfig({
+          labels: { team: 'a' },
+          maximumBytesBilled: 100,
+          priority: 'BATCH',
+          location: 'US',
+          useQueryCache: true,
+          jobTimeoutMs: 10,
+          dryRun: false,
+        }),
+      ).toEqual({
+        labels: { team: 'a' },
+        maximumBytesBilled: '100',
+        priority: 'BATCH',
+        location: 'US',
+        useQueryCache: true,
+        jobTimeoutMs: 10,
+        dryRun: false,
+      });
+    });
+
+    test('omits unset options', () => {
+      expect(toQueryJobConfig({})).toEqual({});
+    });
+  });
+});
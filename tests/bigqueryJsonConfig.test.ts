@@ -1,16 +1,19 @@
 import { Kysely } from 'kysely';
 import { BigQueryDialect } from '../src';
+import { createMockJob } from './helpers';
 import { describe, expect, test, vi, beforeEach } from 'vitest';
 
 /* Mock the BigQuery client */
 const mockQuery = vi.fn();
 const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
 
 vi.mock('@google-cloud/bigquery', () => {
   return {
     BigQuery: class MockBigQuery {
       query = mockQuery;
       createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
     },
   };
 });
@@ -35,6 +38,7 @@ interface Database {
 describe('BigQuery JSON Column Configuration', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockCreateQueryJob.mockResolvedValue([createMockJob()]);
   });
 
   test('should automatically serialize JSON when columns are configured', async () => {
@@ -57,9 +61,6 @@ describe('BigQuery JSON Column Configuration', () => {
       timezone: 'UTC'
     };
 
-    /* Mock successful response */
-    mockQuery.mockResolvedValue([[]]);
-
     /* This should automatically serialize the JSON objects */
     await kysely
       .insertInto('test_dataset.users')
@@ -73,8 +74,8 @@ describe('BigQuery JSON Column Configuration', () => {
       .execute();
 
     /* Verify the query was called with serialized JSON */
-    expect(mockQuery).toHaveBeenCalled();
-    const queryCall = mockQuery.mock.calls[0][0];
+    expect(mockCreateQueryJob).toHaveBeenCalled();
+    const queryCall = mockCreateQueryJob.mock.calls[0][0];
 
     /* Check that JSON objects were serialized (order-independent) */
     expect(queryCall.params).toContain(JSON.stringify(metadata));
@@ -96,8 +97,6 @@ describe('BigQuery JSON Column Configuration', () => {
       notifications: false
     };
 
-    mockQuery.mockResolvedValue([[]]);
-
     await kysely
       .insertInto('test_dataset.users')
       .values({
@@ -109,7 +108,7 @@ describe('BigQuery JSON Column Configuration', () => {
       })
       .execute();
 
-    const queryCall = mockQuery.mock.calls[0][0];
+    const queryCall = mockCreateQueryJob.mock.calls[0][0];
 
     /* metadata should be serialized (order-independent) */
     expect(queryCall.params).toContain(JSON.stringify(metadata));
@@ -132,8 +131,6 @@ describe('BigQuery JSON Column Configuration', () => {
       notifications: true
     };
 
-    mockQuery.mockResolvedValue([[]]);
-
     await kysely
       .updateTable('test_dataset.users')
       .set({
@@ -143,7 +140,7 @@ describe('BigQuery JSON Column Configuration', () => {
       .where('id', '=', 'test-1')
       .execute();
 
-    const queryCall = mockQuery.mock.calls[0][0];
+    const queryCall = mockCreateQueryJob.mock.calls[0][0];
     
     /* Both JSON fields should be serialized */
     expect(queryCall.params[0]).toBe(JSON.stringify(newMetadata));
@@ -197,8 +194,6 @@ describe('BigQuery JSON Column Configuration', () => {
       }),
     });
 
-    mockQuery.mockResolvedValue([[]]);
-
     await kysely
       .insertInto('test_dataset.users')
       .values({
@@ -210,7 +205,7 @@ describe('BigQuery JSON Column Configuration', () => {
       })
       .execute();
 
-    const queryCall = mockQuery.mock.calls[0][0];
+    const queryCall = mockCreateQueryJob.mock.calls[0][0];
 
     /* Null values should remain null (not serialized) */
     const nullCount = queryCall.params.filter((p: unknown) => p === null).length;
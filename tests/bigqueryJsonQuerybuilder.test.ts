@@ -2,12 +2,14 @@ import { CompiledQuery } from 'kysely';
 import { describe, expect, test, vi } from 'vitest';
 import { BigQueryConnection } from '../src/BigQueryConnection';
 import { BigQueryDialectConfig } from '../src';
+import { createMockJob } from './helpers';
 
 describe('BigQuery JSON Query Builder Handling', () => {
-  const mockQuery = vi.fn();
+  const mockCreateQueryJob = vi.fn().mockResolvedValue([createMockJob()]);
   const mockClient = {
-    query: mockQuery,
+    query: vi.fn(),
     createQueryStream: vi.fn(),
+    createQueryJob: mockCreateQueryJob,
   };
 
   const config: BigQueryDialectConfig = {
@@ -20,8 +22,6 @@ describe('BigQuery JSON Query Builder Handling', () => {
   const connection = new BigQueryConnection(config);
 
   test('should automatically stringify JSON fields in INSERT when column is JSON type', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const jsonData = {
       tags: ['test', 'bigquery'],
       settings: { theme: 'dark', notifications: true }
@@ -51,7 +51,7 @@ describe('BigQuery JSON Query Builder Handling', () => {
     await connection.executeQuery(compiledQuery);
 
     /* Should stringify the JSON object for the metadata column */
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'INSERT INTO users (id, name, metadata) VALUES (?, ?, ?)',
       params: [1, 'John', JSON.stringify(jsonData)],
       parseJSON: true,
@@ -59,8 +59,6 @@ describe('BigQuery JSON Query Builder Handling', () => {
   });
 
   test('should automatically stringify JSON fields in UPDATE when column is JSON type', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const newSettings = {
       preferences: { language: 'en', timezone: 'UTC' }
     };
@@ -93,7 +91,7 @@ describe('BigQuery JSON Query Builder Handling', () => {
     await connection.executeQuery(compiledQuery);
 
     /* Should stringify the JSON object for the settings column */
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'UPDATE users SET settings = ? WHERE id = ?',
       params: [JSON.stringify(newSettings), 1],
       parseJSON: true,
@@ -101,8 +99,6 @@ describe('BigQuery JSON Query Builder Handling', () => {
   });
 
   test('should handle mixed JSON and non-JSON columns in INSERT', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const tags = ['admin', 'user'];
     const metadata = { role: 'admin', permissions: ['read', 'write'] };
 
@@ -131,7 +127,7 @@ describe('BigQuery JSON Query Builder Handling', () => {
     await connection.executeQuery(compiledQuery);
 
     /* Should only stringify the metadata column (JSON), not tags (ARRAY) */
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'INSERT INTO users (id, name, tags, metadata) VALUES (?, ?, ?, ?)',
       params: [1, 'John', tags, JSON.stringify(metadata)],
       parseJSON: true,
@@ -139,8 +135,6 @@ describe('BigQuery JSON Query Builder Handling', () => {
   });
 
   test('should not stringify arrays for ARRAY columns', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const tags = ['tag1', 'tag2', 'tag3'];
 
     const compiledQuery: CompiledQuery = {
@@ -167,7 +161,7 @@ describe('BigQuery JSON Query Builder Handling', () => {
     await connection.executeQuery(compiledQuery);
 
     /* Should NOT stringify arrays - BigQuery handles them natively */
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'INSERT INTO products (id, name, tags) VALUES (?, ?, ?)',
       params: [1, 'Product', tags],
       parseJSON: true,
@@ -175,8 +169,6 @@ describe('BigQuery JSON Query Builder Handling', () => {
   });
 
   test('should handle null JSON values', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const compiledQuery: CompiledQuery = {
       sql: 'INSERT INTO users (id, name, metadata) VALUES (?, ?, ?)',
       parameters: [1, 'John', null],
@@ -201,7 +193,7 @@ describe('BigQuery JSON Query Builder Handling', () => {
     await connection.executeQuery(compiledQuery);
 
     /* Should handle null values with proper types */
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'INSERT INTO users (id, name, metadata) VALUES (?, ?, ?)',
       params: [1, 'John', null],
       types: ['INT64', 'STRING', 'STRING'],
@@ -210,8 +202,6 @@ describe('BigQuery JSON Query Builder Handling', () => {
   });
 
   test('should stringify JSON fields in multi-row INSERT', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const meta1 = { role: 'admin' };
     const meta2 = { role: 'user' };
 
@@ -239,7 +229,7 @@ describe('BigQuery JSON Query Builder Handling', () => {
     await connection.executeQuery(compiledQuery);
 
     /* Should stringify metadata in both rows */
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'INSERT INTO users (id, name, metadata) VALUES (?, ?, ?), (?, ?, ?)',
       params: [1, 'Alice', JSON.stringify(meta1), 2, 'Bob', JSON.stringify(meta2)],
       parseJSON: true,
@@ -247,8 +237,6 @@ describe('BigQuery JSON Query Builder Handling', () => {
   });
 
   test('should handle UPDATE with multiple JSON columns', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const settings = { theme: 'light' };
     const preferences = { lang: 'en' };
 
@@ -287,7 +275,7 @@ describe('BigQuery JSON Query Builder Handling', () => {
     await connection.executeQuery(compiledQuery);
 
     /* Should stringify both JSON objects */
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'UPDATE users SET settings = ?, preferences = ? WHERE id = ?',
       params: [JSON.stringify(settings), JSON.stringify(preferences), 1],
       parseJSON: true,
@@ -0,0 +1,170 @@
+import { Kysely } from 'kysely';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import { BigQueryDialect } from '../src';
+import { createMockJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+interface Database {
+  'dataset.users': { id: string; name: string; settings: unknown; score: number | null };
+  'dataset.staging_users': {
+    id: string;
+    name: string;
+    settings: unknown;
+    score: number | null;
+    deleted: boolean;
+  };
+}
+
+describe('BigQuery MERGE', () => {
+  let db: Kysely<Database>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateQueryJob.mockResolvedValue([createMockJob()]);
+    db = new Kysely<Database>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+  });
+
+  const merge = () =>
+    db.mergeInto('dataset.users as t').using('dataset.staging_users as s', 't.id', 's.id');
+
+  test('compiles every kind of WHEN clause', () => {
+    const { sql, parameters } = merge()
+      .whenMatchedAnd('s.deleted', '=', true)
+      .thenDelete()
+      .whenMatched()
+      .thenUpdateSet((eb) => ({ name: eb.ref('s.name'), score: 0 }))
+      .whenNotMatched()
+      .thenInsertValues((eb) => ({ id: eb.ref('s.id'), name: eb.ref('s.name') }))
+      .whenNotMatchedBySourceAnd('t.score', '<', 10)
+      .thenUpdateSet({ score: null })
+      .whenNotMatchedBySource()
+      .thenDelete()
+      .compile();
+
+    expect(sql).toBe(
+      'merge into `dataset`.`users` as `t` using `dataset`.`staging_users` as `s` on `t`.`id` = `s`.`id` ' +
+        'when matched and `s`.`deleted` = ? then delete ' +
+        'when matched then update set `name` = `s`.`name`, `score` = ? ' +
+        'when not matched then insert (`id`, `name`) values (`s`.`id`, `s`.`name`) ' +
+        'when not matched by source and `t`.`score` < ? then update set `score` = ? ' +
+        'when not matched by source then delete',
+    );
+    expect(parameters).toEqual([true, 0, 10, null]);
+  });
+
+  test('compiles an insert without columns to INSERT ROW', () => {
+    const { sql } = merge().whenNotMatched().thenInsertValues({}).compile();
+
+    expect(sql).toBe(
+      'merge into `dataset`.`users` as `t` using `dataset`.`staging_users` as `s` on `t`.`id` = `s`.`id` when not matched then insert row',
+    );
+  });
+
+  describe('DO NOTHING', () => {
+    test('is left out when no clause of the same kind follows', () => {
+      const { sql } = merge()
+        .whenMatched()
+        .thenDoNothing()
+        .whenNotMatched()
+        .thenInsertValues({})
+        .compile();
+
+      expect(sql).toBe(
+        'merge into `dataset`.`users` as `t` using `dataset`.`staging_users` as `s` on `t`.`id` = `s`.`id` when not matched then insert row',
+      );
+    });
+
+    test('is rejected when a clause of the same kind follows', () => {
+      const query = merge()
+        .whenMatchedAnd('s.deleted', '=', true)
+        .thenDoNothing()
+        .whenNotMatched()
+        .thenInsertValues({})
+        .whenMatched()
+        .thenDelete();
+
+      expect(() => query.compile()).toThrow(
+        'BigQuery MERGE does not support DO NOTHING. Leave out the clause, or add its condition negated to the later WHEN clauses of the same kind.',
+      );
+    });
+
+    test('is rejected when no other clause remains', () => {
+      const query = merge().whenNotMatched().thenDoNothing();
+
+      expect(() => query.compile()).toThrow(
+        'BigQuery MERGE needs at least one WHEN clause other than DO NOTHING.',
+      );
+    });
+  });
+
+  test('serializes JSON column values of INSERT and UPDATE SET actions', async () => {
+    const jsonDb = new Kysely<Database>({
+      dialect: new BigQueryDialect({
+        options: { projectId: 'test-project' },
+        jsonColumns: { 'dataset.users': ['settings'] },
+      }),
+    });
+    const settings = { theme: 'dark' };
+    const tags = ['a'];
+
+    await jsonDb
+      .mergeInto('dataset.users as t')
+      .using('dataset.staging_users as s', 't.id', 's.id')
+      .whenMatchedAnd('s.deleted', '=', false)
+      .thenUpdateSet({ settings, score: 1 })
+      .whenNotMatched()
+      .thenInsertValues({ id: 'x', name: 'New', settings: tags })
+      .execute();
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        params: [false, '{"theme":"dark"}', 1, 'x', 'New', '["a"]'],
+      }),
+    );
+  });
+
+  test('types nulls by the columns of the target table', async () => {
+    const typedDb = new Kysely<Database>({
+      dialect: new BigQueryDialect({
+        options: { projectId: 'test-project' },
+        columnTypes: {
+          'dataset.users': { name: 'STRING', score: 'INT64' },
+          'dataset.staging_users': { score: 'FLOAT64' },
+        },
+      }),
+    });
+
+    await typedDb
+      .mergeInto('dataset.users as t')
+      .using('dataset.staging_users as s', 't.id', 's.id')
+      .whenMatched()
+      .thenUpdateSet({ score: null })
+      .whenNotMatched()
+      .thenInsertValues({ id: 'x', name: 'New', score: null })
+      .execute();
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        params: [null, 'x', 'New', null],
+        types: ['INT64', undefined, undefined, 'INT64'],
+      }),
+    );
+  });
+});
@@ -0,0 +1,118 @@
+import { Kysely, sql } from 'kysely';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import { BigQueryDialect, bq } from '../src';
+import { createMockJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+describe('BigQuery Named Parameters', () => {
+  let kysely: Kysely<any>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockResolvedValue([[]]);
+    kysely = new Kysely<any>({
+      dialect: new BigQueryDialect({
+        options: { projectId: 'test-project' },
+        namedParameters: true,
+        jsonColumns: { 'dataset.users': ['metadata'] },
+      }),
+    });
+  });
+
+  test('compiles @p0, @p1, ... placeholders', () => {
+    const compiled = kysely
+      .selectFrom('dataset.users')
+      .selectAll()
+      .where('id', '=', 1)
+      .where('name', 'in', ['a', 'b'])
+      .compile();
+
+    expect(compiled.sql).toBe(
+      'select * from `dataset`.`users` where `id` = @p0 and `name` in (@p1, @p2)',
+    );
+    expect(compiled.parameters).toEqual([1, 'a', 'b']);
+  });
+
+  test('sends parameters as an object keyed by name', async () => {
+    await kysely.selectFrom('dataset.users').selectAll().where('id', '=', 1).execute();
+
+    expect(mockQuery).toHaveBeenCalledWith({
+      query: 'select * from `dataset`.`users` where `id` = @p0',
+      params: { p0: 1 },
+      parseJSON: true,
+    });
+  });
+
+  test('keys types by name when nulls are present', async () => {
+    mockCreateQueryJob.mockResolvedValue([createMockJob()]);
+
+    await kysely
+      .updateTable('dataset.users')
+      .set({ email: null, metadata: { theme: 'dark' } })
+      .where('id', '=', 7)
+      .execute();
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
+      query: 'update `dataset`.`users` set `email` = @p0, `metadata` = @p1 where `id` = @p2',
+      params: { p0: null, p1: '{"theme":"dark"}', p2: 7 },
+      types: { p0: 'STRING', p1: 'STRING', p2: 'INT64' },
+      parseJSON: true,
+    });
+  });
+
+  test('emits user-chosen names from sql templates and reuses them', async () => {
+    const since = bq.named('since', '2024-01-01');
+
+    await sql`select * from dataset.events where created_at >= ${since} or updated_at >= ${since} limit ${10}`.execute(
+      kysely,
+    );
+
+    expect(mockQuery).toHaveBeenCalledWith({
+      query:
+        'select * from dataset.events where created_at >= @since or updated_at >= @since limit @p1',
+      params: { since: '2024-01-01', p1: 10 },
+      parseJSON: true,
+    });
+  });
+
+  test('rejects a name used with different values', () => {
+    expect(() =>
+      sql`select ${bq.named('id', 1)}, ${bq.named('id', 2)}`.compile(kysely),
+    ).toThrow('Named parameter "@id" is used with different values.');
+  });
+
+  test('rejects invalid and reserved names', () => {
+    expect(() => bq.named('1st', 1)).toThrow('Invalid parameter name "1st"');
+    expect(() => bq.named('my-param', 1)).toThrow('Invalid parameter name "my-param"');
+    expect(() => bq.named('p3', 1)).toThrow('reserved for generated parameters');
+  });
+
+  test('sends named parameters positionally when the option is off', async () => {
+    const positional = new Kysely<any>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+
+    await sql`select * from dataset.events where id = ${bq.named('id', 5)}`.execute(positional);
+
+    expect(mockQuery).toHaveBeenCalledWith({
+      query: 'select * from dataset.events where id = ?',
+      params: [5],
+      parseJSON: true,
+    });
+  });
+});
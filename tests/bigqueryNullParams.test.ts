@@ -1,16 +1,19 @@
 import { CompiledQuery, Kysely } from 'kysely';
 import { describe, expect, test, vi, beforeEach } from 'vitest';
 import { BigQueryDialect, BigQueryConnection } from '../src';
+import { createMockJob } from './helpers';
 
 /* Mock the BigQuery client */
 const mockQuery = vi.fn();
 const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
 
 vi.mock('@google-cloud/bigquery', () => {
   return {
     BigQuery: class MockBigQuery {
       query = mockQuery;
       createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
     },
   };
 });
@@ -21,6 +24,7 @@ describe('BigQuery Null Parameter Handling', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mockCreateQueryJob.mockResolvedValue([createMockJob()]);
     connection = new BigQueryConnection({ options: { projectId: 'test-project' } });
     kysely = new Kysely<any>({
       dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
@@ -47,8 +51,6 @@ describe('BigQuery Null Parameter Handling', () => {
   });
 
   test('should handle multiple null parameters', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const compiledQuery = CompiledQuery.raw(
       'INSERT INTO users (name, email, phone) VALUES (?, ?, ?)',
       ['John', null, null]
@@ -56,7 +58,7 @@ describe('BigQuery Null Parameter Handling', () => {
 
     await connection.executeQuery(compiledQuery);
 
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'INSERT INTO users (name, email, phone) VALUES (?, ?, ?)',
       params: ['John', null, null],
       types: ['STRING', 'STRING', 'STRING'],
@@ -65,8 +67,6 @@ describe('BigQuery Null Parameter Handling', () => {
   });
 
   test('should handle query builder with null values', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     /* This simulates what Kysely generates */
     const compiledQuery = CompiledQuery.raw(
       'UPDATE users SET email = ?, updated_at = ? WHERE id = ?',
@@ -76,8 +76,8 @@ describe('BigQuery Null Parameter Handling', () => {
     await connection.executeQuery(compiledQuery);
 
     /* Verify the query was called */
-    expect(mockQuery).toHaveBeenCalled();
-    const callArgs = mockQuery.mock.calls[0][0];
+    expect(mockCreateQueryJob).toHaveBeenCalled();
+    const callArgs = mockCreateQueryJob.mock.calls[0][0];
     expect(callArgs.params).toEqual([null, new Date('2024-01-01'), 123]);
   });
 
@@ -98,8 +98,6 @@ describe('BigQuery Null Parameter Handling', () => {
   });
 
   test('should handle boolean parameters with type detection', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const compiledQuery = CompiledQuery.raw(
       'UPDATE users SET active = ?, verified = ? WHERE id = ?',
       [true, false, 123]
@@ -107,7 +105,7 @@ describe('BigQuery Null Parameter Handling', () => {
 
     await connection.executeQuery(compiledQuery);
 
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'UPDATE users SET active = ?, verified = ? WHERE id = ?',
       params: [true, false, 123],
       parseJSON: true,
@@ -115,8 +113,6 @@ describe('BigQuery Null Parameter Handling', () => {
   });
 
   test('should handle Buffer parameters with type detection', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const buffer = Buffer.from('binary data');
     const compiledQuery = CompiledQuery.raw(
       'INSERT INTO files (data, checksum) VALUES (?, ?)',
@@ -125,7 +121,7 @@ describe('BigQuery Null Parameter Handling', () => {
 
     await connection.executeQuery(compiledQuery);
 
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'INSERT INTO files (data, checksum) VALUES (?, ?)',
       params: [buffer, null],
       types: ['BYTES', 'STRING'],
@@ -134,8 +130,6 @@ describe('BigQuery Null Parameter Handling', () => {
   });
 
   test('should handle object parameters with type detection', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const jsonData = { key: 'value' };
     const arrayData = [1, 2, 3];
     const compiledQuery = CompiledQuery.raw(
@@ -145,17 +139,15 @@ describe('BigQuery Null Parameter Handling', () => {
 
     await connection.executeQuery(compiledQuery);
 
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'INSERT INTO data_table (json_col, array_col, null_col) VALUES (?, ?, ?)',
       params: [jsonData, arrayData, null],
-      types: ['STRING', 'ARRAY<INT64>', 'STRING'],
+      types: ['STRING', ['INT64'], 'STRING'],
       parseJSON: true,
     });
   });
 
   test('should handle mixed parameter types including all edge cases', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const buffer = Buffer.from('test');
     const date = new Date('2024-01-01');
     const object = { nested: true };
@@ -167,7 +159,7 @@ describe('BigQuery Null Parameter Handling', () => {
 
     await connection.executeQuery(compiledQuery);
 
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'INSERT INTO complex_table VALUES (?, ?, ?, ?, ?, ?, ?)',
       params: ['string', 42, true, date, buffer, object, null],
       types: ['STRING', 'INT64', 'BOOL', 'TIMESTAMP', 'BYTES', 'STRING', 'STRING'],
@@ -176,8 +168,6 @@ describe('BigQuery Null Parameter Handling', () => {
   });
 
   test('should handle floating point numbers with FLOAT64 type detection', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const compiledQuery = CompiledQuery.raw(
       'INSERT INTO measurements (value, price, ratio) VALUES (?, ?, ?)',
       [3.14159, 99.99, null]
@@ -185,7 +175,7 @@ describe('BigQuery Null Parameter Handling', () => {
 
     await connection.executeQuery(compiledQuery);
 
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'INSERT INTO measurements (value, price, ratio) VALUES (?, ?, ?)',
       params: [3.14159, 99.99, null],
       types: ['FLOAT64', 'FLOAT64', 'STRING'],
@@ -194,8 +184,6 @@ describe('BigQuery Null Parameter Handling', () => {
   });
 
   test('should distinguish between integers and floats in type detection', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const compiledQuery = CompiledQuery.raw(
       'UPDATE stats SET count = ?, average = ?, total = ? WHERE id = ?',
       [100, 75.5, 0.1, null]
@@ -203,7 +191,7 @@ describe('BigQuery Null Parameter Handling', () => {
 
     await connection.executeQuery(compiledQuery);
 
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'UPDATE stats SET count = ?, average = ?, total = ? WHERE id = ?',
       params: [100, 75.5, 0.1, null],
       types: ['INT64', 'FLOAT64', 'FLOAT64', 'STRING'],
@@ -212,8 +200,6 @@ describe('BigQuery Null Parameter Handling', () => {
   });
 
   test('should infer ARRAY<STRING> for string arrays alongside null', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const tags = ['admin', 'user'];
     const compiledQuery = CompiledQuery.raw(
       'INSERT INTO users (tags, notes) VALUES (?, ?)',
@@ -222,17 +208,15 @@ describe('BigQuery Null Parameter Handling', () => {
 
     await connection.executeQuery(compiledQuery);
 
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'INSERT INTO users (tags, notes) VALUES (?, ?)',
       params: [tags, null],
-      types: ['ARRAY<STRING>', 'STRING'],
+      types: [['STRING'], 'STRING'],
       parseJSON: true,
     });
   });
 
   test('should infer ARRAY<INT64> for integer arrays alongside null', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const ids = [1, 2, 3];
     const compiledQuery = CompiledQuery.raw(
       'INSERT INTO data (ids, label) VALUES (?, ?)',
@@ -241,17 +225,15 @@ describe('BigQuery Null Parameter Handling', () => {
 
     await connection.executeQuery(compiledQuery);
 
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'INSERT INTO data (ids, label) VALUES (?, ?)',
       params: [ids, null],
-      types: ['ARRAY<INT64>', 'STRING'],
+      types: [['INT64'], 'STRING'],
       parseJSON: true,
     });
   });
 
   test('should infer ARRAY<FLOAT64> for float arrays alongside null', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const scores = [1.5, 2.7, 3.14];
     const compiledQuery = CompiledQuery.raw(
       'INSERT INTO metrics (scores, label) VALUES (?, ?)',
@@ -260,17 +242,15 @@ describe('BigQuery Null Parameter Handling', () => {
 
     await connection.executeQuery(compiledQuery);
 
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'INSERT INTO metrics (scores, label) VALUES (?, ?)',
       params: [scores, null],
-      types: ['ARRAY<FLOAT64>', 'STRING'],
+      types: [['FLOAT64'], 'STRING'],
       parseJSON: true,
     });
   });
 
   test('should infer ARRAY<BOOL> for boolean arrays alongside null', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const flags = [true, false, true];
     const compiledQuery = CompiledQuery.raw(
       'INSERT INTO flags (values, label) VALUES (?, ?)',
@@ -279,17 +259,15 @@ describe('BigQuery Null Parameter Handling', () => {
 
     await connection.executeQuery(compiledQuery);
 
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'INSERT INTO flags (values, label) VALUES (?, ?)',
       params: [flags, null],
-      types: ['ARRAY<BOOL>', 'STRING'],
+      types: [['BOOL'], 'STRING'],
       parseJSON: true,
     });
   });
 
   test('should infer ARRAY<STRING> for empty arrays alongside null', async () => {
-    mockQuery.mockResolvedValue([[]]);
-
     const compiledQuery = CompiledQuery.raw(
       'INSERT INTO data (tags, label) VALUES (?, ?)',
       [[], null]
@@ -297,10 +275,10 @@ describe('BigQuery Null Parameter Handling', () => {
 
     await connection.executeQuery(compiledQuery);
 
-    expect(mockQuery).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'INSERT INTO data (tags, label) VALUES (?, ?)',
       params: [[], null],
-      types: ['ARRAY<STRING>', 'STRING'],
+      types: [['STRING'], 'STRING'],
       parseJSON: true,
     });
   });
@@ -0,0 +1,190 @@
+import { Kysely, sql } from 'kysely';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import { BigQueryDialect, bq } from '../src';
+import { createMockJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+/**
+ * Decodes rows the way the real client does, which returns NUMERIC and
+ * BIGNUMERIC values as Big.js instances.
+ */
+async function decodeRows(
+  fields: { name: string; type: string; mode?: string; fields?: unknown[] }[],
+  rows: unknown[],
+): Promise<Record<string, unknown>[]> {
+  const { BigQuery } =
+    await vi.importActual<typeof import('@google-cloud/bigquery')>('@google-cloud/bigquery');
+  return BigQuery.mergeSchemaWithRows_({ fields } as never, rows as never, {});
+}
+
+/* A Big.js instance, as returned by the client */
+async function big(value: string): Promise<unknown> {
+  const [row] = await decodeRows([{ name: 'v', type: 'BIGNUMERIC' }], [{ f: [{ v: value }] }]);
+  return row!.v;
+}
+
+describe('BigQuery NUMERIC Support', () => {
+  let kysely: Kysely<any>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockResolvedValue([[]]);
+    mockCreateQueryJob.mockResolvedValue([createMockJob()]);
+    kysely = new Kysely<any>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+  });
+
+  describe('bq.numeric() and bq.bignumeric()', () => {
+    test('send exact decimal strings with their type', async () => {
+      await kysely
+        .selectFrom('billing.invoices')
+        .selectAll()
+        .where('amount', '=', bq.numeric('19.99'))
+        .where('rate', '<', bq.bignumeric('0.00000000000000000000000000000000000001'))
+        .execute();
+
+      expect(mockQuery).toHaveBeenCalledWith({
+        query: 'select * from `billing`.`invoices` where `amount` = ? and `rate` < ?',
+        params: ['19.99', '0.00000000000000000000000000000000000001'],
+        types: ['NUMERIC', 'BIGNUMERIC'],
+        parseJSON: true,
+      });
+    });
+
+    test('accept numbers, bigints, decimal objects and null', async () => {
+      expect(bq.numeric(12.5).value).toBe('12.5');
+      expect(bq.numeric(-10n).value).toBe('-10');
+      expect(bq.numeric(await big('123456789.123456789')).value).toBe('123456789.123456789');
+      expect(bq.numeric(null)).toMatchObject({ value: null, type: 'NUMERIC' });
+    });
+
+    test.each([['abc'], ['1e21'], [Number.NaN], [1e21]])('reject %s', (value) => {
+      expect(() => bq.numeric(value)).toThrow(`Invalid decimal value "${String(value)}".`);
+    });
+
+    test('reject values that do not fit the type', () => {
+      expect(() => bq.numeric('0.0000000001')).toThrow(
+        'Decimal value "0.0000000001" does not fit NUMERIC, which allows 29 integer and 9 fractional digits. Use bq.bignumeric() instead.',
+      );
+      expect(() => bq.numeric('1'.repeat(30))).toThrow('does not fit NUMERIC');
+      expect(() => bq.bignumeric(`0.${'1'.repeat(39)}`)).toThrow(
+        'does not fit BIGNUMERIC, which allows 38 fractional digits.',
+      );
+      expect(bq.numeric('1.100000000000').value).toBe('1.100000000000');
+    });
+  });
+
+  describe('decimal objects', () => {
+    test('are sent as NUMERIC or BIGNUMERIC depending on their digits', async () => {
+      await sql`select ${await big('19.99')}, ${await big('0.0000000001')}, ${'a'}`.execute(kysely);
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          params: ['19.99', '0.0000000001', 'a'],
+          types: ['NUMERIC', 'BIGNUMERIC', undefined],
+        }),
+      );
+    });
+
+    test('recognizes decimal.js instances', async () => {
+      const decimal = { d: [1999000], e: 1, s: 1, toFixed: () => '19.99' };
+
+      await sql`select ${decimal}`.execute(kysely);
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.objectContaining({ params: ['19.99'], types: ['NUMERIC'] }),
+      );
+    });
+
+    test('are sent in arrays and typed STRUCT values', async () => {
+      const amounts = [await big('1.5'), await big('2.25')];
+
+      await sql`select * from unnest(${amounts}), ${bq.param({ amount: amounts[0] }, 'STRUCT<amount NUMERIC>')}`.execute(
+        kysely,
+      );
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.objectContaining({
+          params: [['1.5', '2.25'], { amount: '1.5' }],
+          types: [['NUMERIC'], { amount: 'NUMERIC' }],
+        }),
+      );
+    });
+
+    test('keep their type when nulls need inferred types', async () => {
+      await kysely
+        .insertInto('billing.invoices')
+        .values({ amount: await big('19.99'), note: null })
+        .execute();
+
+      expect(mockCreateQueryJob).toHaveBeenCalledWith(
+        expect.objectContaining({ params: ['19.99', null], types: ['NUMERIC', 'STRING'] }),
+      );
+    });
+  });
+
+  describe('parseNumeric', () => {
+    const fields = [
+      { name: 'amount', type: 'NUMERIC' },
+      { name: 'rates', type: 'BIGNUMERIC', mode: 'REPEATED' },
+      { name: 'line', type: 'RECORD', fields: [{ name: 'total', type: 'NUMERIC' }] },
+      { name: 'label', type: 'STRING' },
+    ];
+    const rows = [
+      {
+        f: [
+          { v: '12345678901234567890.123456789' },
+          { v: [{ v: '0.00000000000000000000000000000000000001' }] },
+          { v: { f: [{ v: '-0.5' }] } },
+          { v: 'x' },
+        ],
+      },
+    ];
+
+    test('converts top-level, nested and repeated decimals', async () => {
+      mockQuery.mockResolvedValue([await decodeRows(fields, rows)]);
+      const db = new Kysely<any>({
+        dialect: new BigQueryDialect({
+          options: { projectId: 'test-project' },
+          parseNumeric: (value) => `decimal:${value}`,
+        }),
+      });
+
+      const result = await db.selectFrom('billing.invoices').selectAll().execute();
+
+      expect(result).toEqual([
+        {
+          amount: 'decimal:12345678901234567890.123456789',
+          rates: ['decimal:0.00000000000000000000000000000000000001'],
+          line: { total: 'decimal:-0.5' },
+          label: 'x',
+        },
+      ]);
+    });
+
+    test('leaves the client decimals unchanged by default', async () => {
+      const decoded = await decodeRows(fields, rows);
+      mockQuery.mockResolvedValue([decoded]);
+
+      const result = await kysely.selectFrom('billing.invoices').selectAll().execute();
+
+      expect(result[0]!.amount).toBe(decoded[0]!.amount);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { Kysely, sql } from 'kysely';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import { BigQueryDialect, qualify } from '../src';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+interface Database {
+  'dataset.events': { id: string; ts: Date; kind: string; amount: number | null };
+}
+
+describe('BigQuery QUALIFY', () => {
+  let db: Kysely<Database>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockResolvedValue([[]]);
+    db = new Kysely<Database>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+  });
+
+  const latest = () =>
+    db.selectFrom('dataset.events').select((eb) => [
+      'id',
+      'kind',
+      eb.fn
+        .agg<number>('row_number')
+        .over((ob) => ob.partitionBy('id').orderBy('ts', 'desc'))
+        .as('rn'),
+    ]);
+
+  test('compiles after WHERE and before ORDER BY and LIMIT', async () => {
+    await latest()
+      .where('kind', '=', 'click')
+      .$call(qualify('rn', '=', 1))
+      .orderBy('id')
+      .limit(10)
+      .execute();
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query:
+          'select `id`, `kind`, row_number() over(partition by `id` order by `ts` desc) as `rn` from `dataset`.`events` where `kind` = ? qualify `rn` = ? order by `id` limit ?',
+        params: ['click', 1, 10],
+      }),
+    );
+  });
+
+  test('compiles after HAVING and before set operations', () => {
+    const { sql: compiled } = db
+      .selectFrom('dataset.events')
+      .select((eb) => [
+        'kind',
+        eb.fn.countAll<number>().as('total'),
+        eb.fn
+          .agg<number>('rank')
+          .over((ob) => ob.orderBy(eb.fn.countAll(), 'desc'))
+          .as('place'),
+      ])
+      .groupBy('kind')
+      .having((eb) => eb.fn.countAll(), '>', 1)
+      .$call(qualify((eb) => eb('place', '<=', 3)))
+      .unionAll(
+        db
+          .selectFrom('dataset.events')
+          .select(['kind', sql.lit(0).as('total'), sql.lit(0).as('place')]),
+      )
+      .compile();
+
+    expect(compiled).toBe(
+      'select `kind`, count(*) as `total`, rank() over(order by count(*) desc) as `place` from `dataset`.`events` group by `kind` having count(*) > ? qualify `place` <= ? union all select `kind`, 0 as `total`, 0 as `place` from `dataset`.`events`',
+    );
+  });
+
+  test('adds WHERE TRUE when the query has no other filter', () => {
+    const { sql: compiled } = latest()
+      .$call(qualify('rn', '=', 1))
+      .compile();
+
+    expect(compiled).toBe(
+      'select `id`, `kind`, row_number() over(partition by `id` order by `ts` desc) as `rn` from `dataset`.`events` where true qualify `rn` = ?',
+    );
+  });
+
+  test('combines conditions with AND and accepts window expressions', () => {
+    const { sql: compiled, parameters } = latest()
+      .where('amount', 'is not', null)
+      .$call(qualify((eb) => eb.or([eb('rn', '=', 1), eb('kind', '=', 'purchase')])))
+      .$call(
+        qualify((eb) =>
+          eb(
+            eb.fn.agg<number>('count').over((ob) => ob.partitionBy('id')),
+            '>',
+            2,
+          ),
+        ),
+      )
+      .compile();
+
+    expect(compiled).toBe(
+      'select `id`, `kind`, row_number() over(partition by `id` order by `ts` desc) as `rn` from `dataset`.`events` where `amount` is not null qualify (`rn` = ? or `kind` = ?) and (count() over(partition by `id`) > ?)',
+    );
+    expect(parameters).toEqual([1, 'purchase', 2]);
+  });
+
+  test('compiles QUALIFY in subqueries', () => {
+    const { sql: compiled } = db
+      .selectFrom(
+        latest()
+          .$call(qualify('rn', '=', 1))
+          .as('latest'),
+      )
+      .select('latest.id')
+      .compile();
+
+    expect(compiled).toBe(
+      'select `latest`.`id` from (select `id`, `kind`, row_number() over(partition by `id` order by `ts` desc) as `rn` from `dataset`.`events` where true qualify `rn` = ?) as `latest`',
+    );
+  });
+
+  test('infers the types of selected aliases', () => {
+    latest().$call(qualify('rn', '>', 1));
+    latest().$call(qualify((eb) => eb('rn', '=', 1)));
+
+    // @ts-expect-error - 'rank' is not selected or a column
+    latest().$call(qualify('rank', '=', 1));
+    // @ts-expect-error - 'rn' is a number
+    latest().$call(qualify('rn', '=', 'first'));
+  });
+});
@@ -0,0 +1,294 @@
+import { Kysely } from 'kysely';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import {
+  BigQueryCancelledError,
+  BigQueryConnection,
+  BigQueryDialect,
+  BigQueryQueryError,
+  BigQuerySyntaxError,
+} from '../src';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+const mockJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+      job = mockJob;
+    },
+  };
+});
+
+interface Database {
+  'dataset.events': { id: number; name: string; payload: { source: string } };
+}
+
+function createJob(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'job-123',
+    location: 'EU',
+    getMetadata: vi.fn().mockResolvedValue([{ status: { state: 'RUNNING' } }, {}]),
+    getQueryResults: vi.fn().mockResolvedValue([[], null, {}]),
+    cancel: vi.fn().mockResolvedValue([{}]),
+    ...overrides,
+  };
+}
+
+describe('BigQuery Query Jobs', () => {
+  let dialect: BigQueryDialect;
+  let kysely: Kysely<Database>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dialect = new BigQueryDialect({
+      options: { projectId: 'test-project' },
+      jsonColumns: { 'dataset.events': ['payload'] },
+    });
+    kysely = new Kysely<Database>({ dialect });
+  });
+
+  test('submits a query builder as a job and returns its id and location', async () => {
+    mockCreateQueryJob.mockResolvedValue([createJob()]);
+
+    const job = await dialect.submitQuery(
+      kysely.insertInto('dataset.events').values({ id: 1, name: 'a', payload: { source: 'web' } }),
+    );
+
+    expect(job.jobId).toBe('job-123');
+    expect(job.location).toBe('EU');
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
+      query: 'insert into `dataset`.`events` (`id`, `name`, `payload`) values (?, ?, ?)',
+      params: [1, 'a', '{"source":"web"}'],
+      parseJSON: true,
+    });
+  });
+
+  test('wraps submission errors', async () => {
+    mockCreateQueryJob.mockRejectedValue(
+      Object.assign(new Error('Syntax error: Unexpected end of script at [1:7]'), {
+        errors: [{ reason: 'invalidQuery' }],
+      }),
+    );
+
+    await expect(
+      dialect.submitQuery(kysely.selectFrom('dataset.events').selectAll()),
+    ).rejects.toBeInstanceOf(BigQuerySyntaxError);
+  });
+
+  test('reattaches to a job by id and location', () => {
+    const job = createJob();
+    mockJob.mockReturnValue(job);
+
+    const handle = dialect.getQueryJob('job-123', 'EU');
+
+    expect(mockJob).toHaveBeenCalledWith('job-123', { location: 'EU' });
+    expect(handle.jobId).toBe('job-123');
+  });
+
+  test('reattaches through the BigQuery client of a Dataset instance', () => {
+    const job = createJob();
+    const bigQuery = { job: vi.fn().mockReturnValue(job) };
+    const connection = new BigQueryConnection({
+      bigquery: {
+        bigQuery,
+        query: vi.fn(),
+        createQueryStream: vi.fn(),
+        createQueryJob: vi.fn(),
+      } as any,
+    });
+
+    connection.getQueryJob('job-123');
+
+    expect(bigQuery.job).toHaveBeenCalledWith('job-123', {});
+  });
+
+  describe('getStatus', () => {
+    test('reports the job state', async () => {
+      mockJob.mockReturnValue(createJob());
+
+      await expect(dialect.getQueryJob('job-123').getStatus()).resolves.toEqual({
+        state: 'RUNNING',
+      });
+    });
+
+    test('reports a failed job as a typed error', async () => {
+      mockJob.mockReturnValue(
+        createJob({
+          getMetadata: vi.fn().mockResolvedValue([
+            {
+              configuration: { query: { query: 'SELECT nope' } },
+              status: {
+                state: 'DONE',
+                errorResult: { reason: 'invalidQuery', message: 'Unrecognized name: nope at [1:8]' },
+              },
+            },
+            {},
+          ]),
+        }),
+      );
+
+      const status = await dialect.getQueryJob('job-123').getStatus();
+
+      expect(status.state).toBe('DONE');
+      expect(status.error).toBeInstanceOf(BigQuerySyntaxError);
+      expect(status.error).toMatchObject({
+        message: 'BigQuery job failed: Unrecognized name: nope at [1:8]',
+        jobId: 'job-123',
+        sql: 'SELECT nope',
+        position: { line: 1, column: 8, offset: 7 },
+      });
+    });
+  });
+
+  describe('wait', () => {
+    test('polls until the job is done', async () => {
+      const getMetadata = vi
+        .fn()
+        .mockResolvedValueOnce([{ status: { state: 'PENDING' } }, {}])
+        .mockResolvedValueOnce([{ status: { state: 'RUNNING' } }, {}])
+        .mockResolvedValueOnce([{ status: { state: 'DONE' } }, {}]);
+      mockJob.mockReturnValue(createJob({ getMetadata }));
+
+      await dialect.getQueryJob('job-123').wait({ pollIntervalMs: 0 });
+
+      expect(getMetadata).toHaveBeenCalledTimes(3);
+    });
+
+    test('throws when the job failed', async () => {
+      mockJob.mockReturnValue(
+        createJob({
+          getMetadata: vi.fn().mockResolvedValue([
+            { status: { state: 'DONE', errorResult: { reason: 'backendError', message: 'Boom' } } },
+            {},
+          ]),
+        }),
+      );
+
+      await expect(dialect.getQueryJob('job-123').wait()).rejects.toThrow(
+        'BigQuery job failed: Boom',
+      );
+    });
+
+    test('gives up after timeoutMs', async () => {
+      vi.useFakeTimers();
+      const getMetadata = vi.fn().mockResolvedValue([{ status: { state: 'RUNNING' } }, {}]);
+      mockJob.mockReturnValue(createJob({ getMetadata }));
+
+      const wait = dialect
+        .getQueryJob('job-123')
+        .wait({ pollIntervalMs: 1000, timeoutMs: 2500 })
+        .catch((error: unknown) => error);
+      await vi.advanceTimersByTimeAsync(2500);
+      const error = await wait;
+
+      expect(error).toBeInstanceOf(BigQueryCancelledError);
+      expect(error).toMatchObject({
+        message: 'BigQuery job wait timed out after 2500 ms',
+        jobId: 'job-123',
+      });
+      expect(getMetadata).toHaveBeenCalledTimes(3);
+      expect(vi.getTimerCount()).toBe(0);
+
+      vi.useRealTimers();
+    });
+
+    test('stops waiting when the signal aborts', async () => {
+      const controller = new AbortController();
+      mockJob.mockReturnValue(createJob());
+
+      const wait = dialect
+        .getQueryJob('job-123')
+        .wait({ pollIntervalMs: 60_000, signal: controller.signal });
+      controller.abort('shutting down');
+
+      await expect(wait).rejects.toBeInstanceOf(BigQueryCancelledError);
+      await expect(wait).rejects.toMatchObject({ cause: 'shutting down' });
+    });
+
+    test('does not poll when the signal is already aborted', async () => {
+      const getMetadata = vi.fn();
+      mockJob.mockReturnValue(createJob({ getMetadata }));
+
+      await expect(
+        dialect.getQueryJob('job-123').wait({ signal: AbortSignal.abort() }),
+      ).rejects.toThrow('BigQuery job wait was cancelled');
+      expect(getMetadata).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getResults', () => {
+    test('reads a page of processed rows', async () => {
+      const job = createJob({
+        getQueryResults: vi
+          .fn()
+          .mockResolvedValue([
+            [{ id: 1, name: 'a', payload: '{"source":"web"}' }],
+            { pageToken: 'page-2' },
+            { totalRows: '3' },
+          ]),
+      });
+      mockJob.mockReturnValue(job);
+
+      const page = await dialect
+        .getQueryJob<Database['dataset.events']>('job-123')
+        .getResults({ maxResults: 1 });
+
+      expect(page).toEqual({
+        rows: [{ id: 1, name: 'a', payload: { source: 'web' } }],
+        pageToken: 'page-2',
+        totalRows: 3n,
+      });
+      expect(job.getQueryResults).toHaveBeenCalledWith({
+        parseJSON: true,
+        autoPaginate: false,
+        maxResults: 1,
+      });
+    });
+
+    test('reads the page for a token and reports the last page', async () => {
+      const job = createJob({
+        getQueryResults: vi.fn().mockResolvedValue([[{ id: 3 }], null, { totalRows: '3' }]),
+      });
+      mockJob.mockReturnValue(job);
+
+      const page = await dialect.getQueryJob('job-123').getResults({ pageToken: 'page-2' });
+
+      expect(page.pageToken).toBeUndefined();
+      expect(job.getQueryResults).toHaveBeenCalledWith({
+        parseJSON: true,
+        autoPaginate: false,
+        pageToken: 'page-2',
+      });
+    });
+
+    test('wraps errors with the job id', async () => {
+      mockJob.mockReturnValue(
+        createJob({ getQueryResults: vi.fn().mockRejectedValue(new Error('Job failed')) }),
+      );
+
+      const error = await dialect
+        .getQueryJob('job-123')
+        .getResults()
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(BigQueryQueryError);
+      expect(error).toMatchObject({ message: 'BigQuery query failed: Job failed', jobId: 'job-123' });
+    });
+  });
+
+  test('cancels the job', async () => {
+    const job = createJob();
+    mockJob.mockReturnValue(job);
+
+    await dialect.getQueryJob('job-123').cancel();
+
+    expect(job.cancel).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,160 @@
+import { CompiledQuery, Kysely } from 'kysely';
+import { Readable } from 'stream';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import {
+  BigQueryConnection,
+  type BigQueryDialectConfig,
+  BigQueryDialect,
+  standardResultTransformers,
+} from '../src';
+import { createMockStreamJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+const fields = [
+  { name: 'created_at', type: 'TIMESTAMP' },
+  { name: 'day', type: 'DATE' },
+  { name: 'amount', type: 'NUMERIC' },
+  { name: 'location', type: 'GEOGRAPHY' },
+  {
+    name: 'visits',
+    type: 'RECORD',
+    mode: 'REPEATED',
+    fields: [
+      { name: 'at', type: 'TIMESTAMP' },
+      { name: 'places', type: 'GEOGRAPHY', mode: 'REPEATED' },
+    ],
+  },
+  { name: 'name', type: 'STRING' },
+];
+
+const rows = [
+  {
+    f: [
+      { v: '1705314600123456' },
+      { v: '2024-01-15' },
+      { v: '19.99' },
+      { v: 'POINT(-122.35 47.62)' },
+      {
+        v: [
+          {
+            v: {
+              f: [{ v: '1705314600000000' }, { v: [{ v: 'POINT(1 2)' }] }],
+            },
+          },
+        ],
+      },
+      { v: 'Ann' },
+    ],
+  },
+];
+
+/* Decodes the rows the way the real client does, into its wrapper objects */
+async function decodeRows(): Promise<Record<string, unknown>[]> {
+  const { BigQuery } =
+    await vi.importActual<typeof import('@google-cloud/bigquery')>('@google-cloud/bigquery');
+  return BigQuery.mergeSchemaWithRows_({ fields } as never, rows as never, {});
+}
+
+const standardRow = {
+  created_at: new Date('2024-01-15T10:30:00.123Z'),
+  day: '2024-01-15',
+  amount: '19.99',
+  location: 'POINT(-122.35 47.62)',
+  visits: [{ at: new Date('2024-01-15T10:30:00Z'), places: ['POINT(1 2)'] }],
+  name: 'Ann',
+};
+
+describe('BigQuery Result Transformers', () => {
+  const createConnection = (config: Partial<BigQueryDialectConfig>) =>
+    new BigQueryConnection({ options: { projectId: 'test-project' }, ...config });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('standard transformers replace wrappers, including in STRUCTs and ARRAYs', async () => {
+    mockQuery.mockResolvedValue([await decodeRows()]);
+    const db = new Kysely<any>({
+      dialect: new BigQueryDialect({
+        options: { projectId: 'test-project' },
+        resultTransformers: standardResultTransformers,
+      }),
+    });
+
+    const result = await db.selectFrom('dataset.visits').selectAll().execute();
+
+    expect(result).toEqual([standardRow]);
+  });
+
+  test('are applied to streamed rows', async () => {
+    mockCreateQueryJob.mockResolvedValue([createMockStreamJob(Readable.from(await decodeRows()))]);
+    const connection = createConnection({ resultTransformers: standardResultTransformers });
+
+    const streamed: unknown[] = [];
+    for await (const chunk of connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 10)) {
+      streamed.push(...chunk.rows);
+    }
+
+    expect(streamed).toEqual([standardRow]);
+  });
+
+  test('passes the INT64 transformer to the client as integerTypeCastFunction', async () => {
+    mockQuery.mockResolvedValue([[]]);
+    const toText = (value: string) => `int:${value}`;
+
+    await createConnection({
+      int64AsBigInt: true,
+      resultTransformers: { INT64: toText },
+    }).executeQuery(CompiledQuery.raw('SELECT 1', []));
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      expect.objectContaining({ wrapIntegers: { integerTypeCastFunction: toText } }),
+    );
+  });
+
+  test('take precedence over parseNumeric and dateTimeResults', async () => {
+    mockQuery.mockResolvedValue([await decodeRows()]);
+
+    const { rows } = await createConnection({
+      parseNumeric: () => 'from parseNumeric',
+      dateTimeResults: 'date',
+      resultTransformers: { NUMERIC: (value) => `numeric:${value}` },
+    }).executeQuery<Record<string, unknown>>(CompiledQuery.raw('SELECT 1', []));
+
+    expect(rows[0]).toMatchObject({
+      amount: 'numeric:19.99',
+      day: new Date('2024-01-15T00:00:00Z'),
+    });
+  });
+
+  test('leave wrappers without a transformer and rows without transformers unchanged', async () => {
+    const decoded = await decodeRows();
+    mockQuery.mockResolvedValue([decoded]);
+
+    const { rows: partial } = await createConnection({
+      resultTransformers: { GEOGRAPHY: (value) => value },
+    }).executeQuery<Record<string, any>>(CompiledQuery.raw('SELECT 1', []));
+    const { rows: untouched } = await createConnection({}).executeQuery(
+      CompiledQuery.raw('SELECT 1', []),
+    );
+
+    expect(partial[0]!.location).toBe('POINT(-122.35 47.62)');
+    expect(partial[0]!.created_at.constructor.name).toBe('BigQueryTimestamp');
+    expect(untouched[0]).toBe(decoded[0]);
+  });
+});
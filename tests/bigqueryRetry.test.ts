@@ -0,0 +1,316 @@
+import { CompiledQuery } from 'kysely';
+import { Readable } from 'stream';
+import { describe, expect, test, vi, beforeEach, afterEach } from 'vitest';
+
+import {
+  BigQueryCancelledError,
+  BigQueryConnection,
+  BigQueryQueryError,
+  BigQueryQuotaError,
+  BigQueryRetryPolicy,
+  type BigQueryRetryEvent,
+  type BigQueryRetryOptions,
+} from '../src';
+import { createMockJob, createMockStreamJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+/**
+ * Builds an error shaped like the ApiError thrown by the BigQuery client.
+ */
+const apiError = (reason: string, message = `${reason} happened`) =>
+  Object.assign(new Error(message), { errors: [{ reason, message }] });
+
+const createConnection = (retry: BigQueryRetryOptions) =>
+  new BigQueryConnection({
+    options: { projectId: 'test-project' },
+    retry: { baseDelayMs: 0, jitter: false, ...retry },
+  });
+
+const select = CompiledQuery.raw('SELECT * FROM dataset.events', []);
+const dml = CompiledQuery.raw('DELETE FROM dataset.events WHERE true', []);
+
+async function collect(iterator: AsyncIterableIterator<unknown>): Promise<unknown[]> {
+  const results: unknown[] = [];
+  for await (const result of iterator) {
+    results.push(result);
+  }
+  return results;
+}
+
+describe('BigQuery Retry', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('executeQuery', () => {
+    test('retries retryable errors and reports each retry', async () => {
+      const events: BigQueryRetryEvent[] = [];
+      const connection = createConnection({ onRetry: (event) => events.push(event) });
+      mockQuery
+        .mockRejectedValueOnce(apiError('rateLimitExceeded'))
+        .mockRejectedValueOnce(apiError('backendError'))
+        .mockResolvedValueOnce([[{ id: 1 }]]);
+
+      const result = await connection.executeQuery(select);
+
+      expect(result.rows).toEqual([{ id: 1 }]);
+      expect(mockQuery).toHaveBeenCalledTimes(3);
+      expect(events.map((e) => [e.attempt, e.error.reason, e.sql])).toEqual([
+        [1, 'rateLimitExceeded', select.sql],
+        [2, 'backendError', select.sql],
+      ]);
+      expect(events[0]?.error).toBeInstanceOf(BigQueryQuotaError);
+    });
+
+    test('gives up after maxAttempts', async () => {
+      const connection = createConnection({ maxAttempts: 2 });
+      mockQuery.mockRejectedValue(apiError('backendError'));
+
+      await expect(connection.executeQuery(select)).rejects.toThrow(
+        'BigQuery query failed: backendError happened',
+      );
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+
+    test('does not retry non-retryable errors', async () => {
+      const connection = createConnection({});
+      mockQuery.mockRejectedValue(apiError('invalidQuery'));
+
+      await expect(connection.executeQuery(select)).rejects.toBeInstanceOf(BigQueryQueryError);
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    test('honors custom retryable reasons', async () => {
+      const connection = createConnection({ retryableReasons: ['quotaExceeded'] });
+      mockQuery
+        .mockRejectedValueOnce(apiError('quotaExceeded'))
+        .mockResolvedValueOnce([[]]);
+
+      await connection.executeQuery(select);
+
+      expect(mockQuery).toHaveBeenCalledTimes(2);
+    });
+
+    test('does not retry DML unless retryDml is enabled', async () => {
+      mockCreateQueryJob.mockRejectedValue(apiError('backendError'));
+
+      await expect(createConnection({}).executeQuery(dml)).rejects.toThrow('backendError');
+      expect(mockCreateQueryJob).toHaveBeenCalledTimes(1);
+    });
+
+    test('retries concurrent DML conflicts without retryDml', async () => {
+      const connection = createConnection({});
+      mockCreateQueryJob
+        .mockRejectedValueOnce(
+          new Error(
+            'Could not serialize access to table dataset.events due to concurrent update',
+          ),
+        )
+        .mockResolvedValueOnce([
+          createMockJob({ statistics: { query: { numDmlAffectedRows: '2' } } }),
+        ]);
+
+      const result = await connection.executeQuery(dml);
+
+      expect(result.numAffectedRows).toBe(2n);
+      expect(mockCreateQueryJob).toHaveBeenCalledTimes(2);
+    });
+
+    test('stops waiting for a retry when the query is aborted', async () => {
+      const controller = new AbortController();
+      const connection = new BigQueryConnection({
+        options: { projectId: 'test-project' },
+        jobDefaults: { signal: controller.signal },
+        retry: { baseDelayMs: 60_000, jitter: false },
+      });
+      mockCreateQueryJob.mockRejectedValue(apiError('backendError'));
+
+      const query = connection.executeQuery(select);
+      await vi.waitFor(() => expect(mockCreateQueryJob).toHaveBeenCalledTimes(1));
+      controller.abort('shutting down');
+
+      const error = await query.catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(BigQueryCancelledError);
+      expect((error as BigQueryCancelledError).cause).toBe('shutting down');
+      expect(mockCreateQueryJob).toHaveBeenCalledTimes(1);
+    });
+
+    test('keeps retrying when onRetry throws and reports the error as a hook error', async () => {
+      const hookErrors: unknown[] = [];
+      const connection = new BigQueryConnection({
+        options: { projectId: 'test-project' },
+        retry: {
+          baseDelayMs: 0,
+          jitter: false,
+          onRetry: () => {
+            throw new Error('metrics backend down');
+          },
+        },
+        hooks: { onHookError: (event) => hookErrors.push([event.hook, event.error]) },
+      });
+      /* With hooks, queries run as jobs so their lifecycle can be reported */
+      mockCreateQueryJob
+        .mockRejectedValueOnce(apiError('backendError'))
+        .mockResolvedValueOnce([createMockJob({}, [{ id: 1 }])]);
+
+      const result = await connection.executeQuery(select);
+
+      expect(result.rows).toEqual([{ id: 1 }]);
+      expect(mockCreateQueryJob).toHaveBeenCalledTimes(2);
+      expect(hookErrors).toEqual([['onRetry', new Error('metrics backend down')]]);
+    });
+
+    test('does not retry inside a transaction', async () => {
+      const connection = createConnection({});
+      mockCreateQueryJob.mockResolvedValue([
+        createMockJob({ statistics: { sessionInfo: { sessionId: 'session-1' } } }),
+      ]);
+      mockQuery.mockRejectedValue(apiError('backendError'));
+
+      await connection.beginTransaction();
+      await expect(connection.executeQuery(select)).rejects.toThrow('backendError');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+
+    test('does not retry when no retry policy is configured', async () => {
+      const connection = new BigQueryConnection({ options: { projectId: 'test-project' } });
+      mockQuery.mockRejectedValue(apiError('backendError'));
+
+      await expect(connection.executeQuery(select)).rejects.toThrow('backendError');
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('streamQuery', () => {
+    test('retries errors raised before the first row', async () => {
+      const connection = createConnection({});
+      mockCreateQueryJob
+        .mockResolvedValueOnce([
+          createMockStreamJob(
+            Readable.from(
+              (async function* () {
+                throw apiError('backendError');
+              })(),
+            ),
+          ),
+        ])
+        .mockResolvedValueOnce([createMockStreamJob(Readable.from([{ id: 1 }]))]);
+
+      const results = await collect(connection.streamQuery(select, 1));
+
+      expect(results).toEqual([{ rows: [{ id: 1 }] }]);
+      expect(mockCreateQueryJob).toHaveBeenCalledTimes(2);
+    });
+
+    test('retries errors thrown while creating the job', async () => {
+      const connection = createConnection({});
+      mockCreateQueryJob
+        .mockRejectedValueOnce(apiError('rateLimitExceeded'))
+        .mockResolvedValueOnce([createMockStreamJob(Readable.from([{ id: 1 }]))]);
+
+      const results = await collect(connection.streamQuery(select, 1));
+
+      expect(results).toHaveLength(1);
+    });
+
+    test('does not retry once rows have been yielded', async () => {
+      const connection = createConnection({});
+      mockCreateQueryJob.mockResolvedValue([
+        createMockStreamJob(
+          Readable.from(
+            (async function* () {
+              yield { id: 1 };
+              throw apiError('backendError');
+            })(),
+          ),
+        ),
+      ]);
+
+      await expect(collect(connection.streamQuery(select, 1))).rejects.toThrow(
+        'BigQuery stream error: backendError happened',
+      );
+      expect(mockCreateQueryJob).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('BigQueryRetryPolicy', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    test('doubles the delay up to maxDelayMs', () => {
+      const policy = new BigQueryRetryPolicy({ baseDelayMs: 100, maxDelayMs: 500, jitter: false });
+
+      expect([1, 2, 3, 4].map((attempt) => policy.getDelay(attempt))).toEqual([
+        100, 200, 400, 500,
+      ]);
+    });
+
+    test('applies full jitter', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      const policy = new BigQueryRetryPolicy({ baseDelayMs: 100 });
+
+      expect(policy.getDelay(2)).toBe(100);
+    });
+
+    test('only retries typed errors', () => {
+      const policy = new BigQueryRetryPolicy();
+
+      expect(policy.shouldRetry(new Error('backendError'), 1, false)).toBe(false);
+    });
+
+    test('waits before resolving', async () => {
+      vi.useFakeTimers();
+      const policy = new BigQueryRetryPolicy({ baseDelayMs: 1000, jitter: false });
+      const error = new BigQueryQueryError('failed', apiError('backendError'));
+      let waited = false;
+
+      const backoff = policy.backoff(error, 1, 'SELECT 1').then(() => {
+        waited = true;
+      });
+      await vi.advanceTimersByTimeAsync(999);
+      expect(waited).toBe(false);
+      await vi.advanceTimersByTimeAsync(1);
+      await backoff;
+      expect(waited).toBe(true);
+
+      vi.useRealTimers();
+    });
+
+    test('does not wait when the signal is already aborted', async () => {
+      const policy = new BigQueryRetryPolicy({ baseDelayMs: 60_000 });
+      const error = new BigQueryQueryError('failed', apiError('backendError'));
+
+      await expect(
+        policy.backoff(error, 1, 'SELECT 1', { signal: AbortSignal.abort() }),
+      ).rejects.toBeInstanceOf(BigQueryCancelledError);
+    });
+
+    test('retries serialization conflicts of DML regardless of retryDml', () => {
+      const policy = new BigQueryRetryPolicy({ retryDml: false });
+      const conflict = new BigQueryQueryError(
+        'Could not serialize access to table dataset.events due to concurrent update',
+        new Error('conflict'),
+      );
+
+      expect(policy.shouldRetry(conflict, 1, true)).toBe(true);
+      expect(
+        policy.shouldRetry(new BigQueryQueryError('failed', apiError('backendError')), 1, true),
+      ).toBe(false);
+    });
+  });
+});
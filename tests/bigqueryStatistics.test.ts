@@ -0,0 +1,171 @@
+import { CompiledQuery, Kysely } from 'kysely';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import { BigQueryConnection, BigQueryDialect, type BigQueryQueryResult } from '../src';
+import { createMockJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+const jobMetadata = {
+  jobReference: { jobId: 'job-123', location: 'US' },
+  configuration: { labels: { team: 'finance' } },
+  statistics: {
+    creationTime: '1700000000000',
+    startTime: '1700000000100',
+    endTime: '1700000002600',
+    totalBytesProcessed: '2048',
+    query: {
+      totalBytesProcessed: '2048',
+      totalBytesBilled: '10485760',
+      totalSlotMs: '3500',
+      cacheHit: false,
+      numDmlAffectedRows: '4',
+    },
+  },
+};
+
+const expectedStatistics = {
+  jobId: 'job-123',
+  location: 'US',
+  sql: 'SELECT * FROM dataset.events',
+  labels: { team: 'finance' },
+  totalBytesProcessed: 2048n,
+  totalBytesBilled: 10485760n,
+  totalSlotMs: 3500n,
+  cacheHit: false,
+  creationTime: new Date(1700000000000),
+  startTime: new Date(1700000000100),
+  endTime: new Date(1700000002600),
+  executionTimeMs: 2500,
+};
+
+describe('BigQuery Query Statistics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('does not read job metadata unless statistics are requested', async () => {
+    const connection = new BigQueryConnection({ options: { projectId: 'test-project' } });
+    mockQuery.mockResolvedValue([[{ id: 1 }]]);
+
+    const result = await connection.executeQuery(CompiledQuery.raw('SELECT 1', []));
+
+    expect(result).toEqual({ rows: [{ id: 1 }] });
+    expect(mockCreateQueryJob).not.toHaveBeenCalled();
+  });
+
+  test('attaches statistics to SELECT results', async () => {
+    const connection = new BigQueryConnection({
+      options: { projectId: 'test-project' },
+      queryStatistics: true,
+    });
+    mockCreateQueryJob.mockResolvedValue([createMockJob(jobMetadata, [{ id: 1 }])]);
+
+    const result = await connection.executeQuery(
+      CompiledQuery.raw('SELECT * FROM dataset.events', []),
+    );
+
+    expect(result.rows).toEqual([{ id: 1 }]);
+    expect(result.statistics).toEqual(expectedStatistics);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  test('attaches statistics to DML results', async () => {
+    const connection = new BigQueryConnection({
+      options: { projectId: 'test-project' },
+      queryStatistics: true,
+    });
+    mockCreateQueryJob.mockResolvedValue([createMockJob(jobMetadata)]);
+
+    const result = await connection.executeQuery(
+      CompiledQuery.raw('DELETE FROM dataset.events WHERE true', []),
+    );
+
+    expect(result.numAffectedRows).toBe(4n);
+    expect(result.statistics).toMatchObject({ jobId: 'job-123', totalBytesBilled: 10485760n });
+  });
+
+  test('reports cache hits and missing timings', async () => {
+    const connection = new BigQueryConnection({
+      options: { projectId: 'test-project' },
+      queryStatistics: true,
+    });
+    mockCreateQueryJob.mockResolvedValue([
+      createMockJob({ statistics: { query: { cacheHit: true, totalBytesBilled: '0' } } }),
+    ]);
+
+    const result = await connection.executeQuery(CompiledQuery.raw('SELECT 1', []));
+
+    expect(result.statistics).toMatchObject({
+      jobId: 'job-123',
+      labels: {},
+      cacheHit: true,
+      totalBytesBilled: 0n,
+      totalBytesProcessed: undefined,
+      executionTimeMs: undefined,
+    });
+  });
+
+  test('sends statistics to onQueryStatistics with the compiled query', async () => {
+    const onQueryStatistics = vi.fn();
+    const kysely = new Kysely<any>({
+      dialect: new BigQueryDialect({
+        options: { projectId: 'test-project' },
+        onQueryStatistics,
+      }),
+    });
+    mockCreateQueryJob.mockResolvedValue([createMockJob(jobMetadata, [{ id: 1 }])]);
+
+    const rows = await kysely.selectFrom('dataset.events').selectAll().execute();
+
+    expect(rows).toEqual([{ id: 1 }]);
+    expect(onQueryStatistics).toHaveBeenCalledTimes(1);
+    const [statistics, compiledQuery] = onQueryStatistics.mock.calls[0];
+    expect(statistics).toMatchObject({ jobId: 'job-123', totalSlotMs: 3500n });
+    expect(compiledQuery.sql).toBe('select * from `dataset`.`events`');
+  });
+
+  test('does not attach statistics when only the callback is set', async () => {
+    const connection = new BigQueryConnection({
+      options: { projectId: 'test-project' },
+      onQueryStatistics: vi.fn(),
+    });
+    mockCreateQueryJob.mockResolvedValue([createMockJob(jobMetadata)]);
+
+    const result: BigQueryQueryResult<unknown> = await connection.executeQuery(
+      CompiledQuery.raw('SELECT 1', []),
+    );
+
+    expect(result.statistics).toBeUndefined();
+  });
+
+  test('wraps job errors with the job id', async () => {
+    const connection = new BigQueryConnection({
+      options: { projectId: 'test-project' },
+      queryStatistics: true,
+    });
+    const job = createMockJob();
+    job.getQueryResults.mockRejectedValue(new Error('Resources exceeded'));
+    mockCreateQueryJob.mockResolvedValue([job]);
+
+    await expect(
+      connection.executeQuery(CompiledQuery.raw('SELECT 1', [])),
+    ).rejects.toMatchObject({
+      message: 'BigQuery query failed: Resources exceeded',
+      jobId: 'job-123',
+    });
+  });
+});
@@ -0,0 +1,387 @@
+import {
+  Field,
+  Int64,
+  List,
+  type RecordBatch,
+  Table,
+  Utf8,
+  tableToIPC,
+  vectorFromArray,
+} from 'apache-arrow';
+import { CompiledQuery } from 'kysely';
+import { PassThrough, Readable } from 'stream';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import {
+  BigQueryCancelledError,
+  BigQueryConnection,
+  BigQueryDialect,
+  type BigQueryStorageApiClient,
+  type BigQueryStorageReadClient,
+  type BigQueryStorageReadOptions,
+  createStorageReadClient,
+} from '../src';
+import { createMockJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+/**
+ * Fake read stream that hands out the given decoded batches one at a time.
+ */
+function createFakeStream(batches: Record<string, unknown>[][]) {
+  const iterator = {
+    next: vi.fn(async () =>
+      batches.length > 0
+        ? { done: false as const, value: batches.shift() as Record<string, unknown>[] }
+        : { done: true as const, value: undefined },
+    ),
+    return: vi.fn(async () => ({ done: true as const, value: undefined })),
+  };
+  return {
+    iterator,
+    readRows: (_signal?: AbortSignal) => ({ [Symbol.asyncIterator]: () => iterator }),
+  };
+}
+
+function createFakeClient(streams: ReturnType<typeof createFakeStream>[]) {
+  return {
+    createReadSession: vi.fn(async () => ({ streams })),
+  } satisfies BigQueryStorageReadClient;
+}
+
+const destinationJob = () =>
+  createMockJob({
+    configuration: {
+      query: {
+        destinationTable: { projectId: 'test-project', datasetId: '_anon', tableId: 'anon123' },
+      },
+    },
+  });
+
+const createConnection = (storageRead: BigQueryStorageReadOptions, jsonColumns = {}) =>
+  new BigQueryConnection({
+    options: { projectId: 'test-project' },
+    streamMode: 'storage',
+    storageRead,
+    jsonColumns,
+  });
+
+async function collect(stream: AsyncIterableIterator<any>) {
+  const results: any[] = [];
+  for await (const result of stream) {
+    results.push(result);
+  }
+  return results;
+}
+
+describe('BigQuery Storage Read streaming', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('reads the destination table from every stream in batches of chunkSize', async () => {
+    const job = destinationJob();
+    mockCreateQueryJob.mockResolvedValue([job]);
+    const client = createFakeClient([
+      createFakeStream([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]),
+      createFakeStream([[{ id: 4 }, { id: 5 }]]),
+    ]);
+    const connection = createConnection({ client, maxStreams: 2 });
+
+    const results = await collect(
+      connection.streamQuery(CompiledQuery.raw('SELECT * FROM dataset.events WHERE id > ?', [0]), 2),
+    );
+
+    const rows = results.flatMap((result) => result.rows);
+    expect(rows).toHaveLength(5);
+    expect(rows).toEqual(expect.arrayContaining([{ id: 1 }, { id: 3 }, { id: 4 }, { id: 5 }]));
+    expect(results.map((result) => result.rows.length)).toEqual([2, 2, 1]);
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
+      query: 'SELECT * FROM dataset.events WHERE id > ?',
+      params: [0],
+      parseJSON: true,
+    });
+    expect(job.getQueryResults).toHaveBeenCalledWith({ maxResults: 0 });
+    expect(client.createReadSession).toHaveBeenCalledWith({
+      table: 'projects/test-project/datasets/_anon/tables/anon123',
+      dataFormat: 'ARROW',
+      maxStreams: 2,
+    });
+    expect(mockCreateQueryStream).not.toHaveBeenCalled();
+  });
+
+  test('passes the requested data format and defaults maxStreams to 0', async () => {
+    mockCreateQueryJob.mockResolvedValue([destinationJob()]);
+    const client = createFakeClient([]);
+    const connection = createConnection({ client, dataFormat: 'AVRO' });
+
+    const results = await collect(connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 10));
+
+    expect(results).toEqual([]);
+    expect(client.createReadSession).toHaveBeenCalledWith(
+      expect.objectContaining({ dataFormat: 'AVRO', maxStreams: 0 }),
+    );
+  });
+
+  test('parses registered JSON columns', async () => {
+    mockCreateQueryJob.mockResolvedValue([destinationJob()]);
+    const client = createFakeClient([createFakeStream([[{ id: 1, metadata: '{"a":1}' }]])]);
+    const connection = createConnection({ client }, { 'dataset.events': ['metadata'] });
+
+    const results = await collect(
+      connection.streamQuery(CompiledQuery.raw('SELECT * FROM dataset.events', []), 10),
+    );
+
+    expect(results).toEqual([{ rows: [{ id: 1, metadata: { a: 1 } }] }]);
+  });
+
+  test('closes open streams when the consumer stops early', async () => {
+    mockCreateQueryJob.mockResolvedValue([destinationJob()]);
+    const first = createFakeStream([[{ id: 1 }], [{ id: 2 }]]);
+    const second = createFakeStream([[{ id: 3 }], [{ id: 4 }]]);
+    const connection = createConnection({ client: createFakeClient([first, second]) });
+
+    for await (const _ of connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 1)) {
+      break;
+    }
+
+    expect(first.iterator.return).toHaveBeenCalled();
+    expect(second.iterator.return).toHaveBeenCalled();
+  });
+
+  test('wraps read errors with the job id', async () => {
+    mockCreateQueryJob.mockResolvedValue([destinationJob()]);
+    const failing = createFakeStream([]);
+    failing.iterator.next.mockRejectedValueOnce(new Error('Stream reset'));
+    const connection = createConnection({ client: createFakeClient([failing]) });
+
+    await expect(
+      collect(connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 10)),
+    ).rejects.toMatchObject({ message: 'BigQuery stream error: Stream reset', jobId: 'job-123' });
+  });
+
+  test('fails when the job has no destination table', async () => {
+    mockCreateQueryJob.mockResolvedValue([createMockJob({ configuration: { query: {} } })]);
+    const client = createFakeClient([]);
+    const connection = createConnection({ client });
+
+    await expect(
+      collect(connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 10)),
+    ).rejects.toThrow(
+      'BigQuery storage read failed: The query job has no destination table to read from.',
+    );
+    expect(client.createReadSession).not.toHaveBeenCalled();
+  });
+
+  test('wraps read session errors', async () => {
+    mockCreateQueryJob.mockResolvedValue([destinationJob()]);
+    const client = createFakeClient([]);
+    client.createReadSession.mockRejectedValue(new Error('Permission denied'));
+    const connection = createConnection({ client });
+
+    await expect(
+      collect(connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 10)),
+    ).rejects.toMatchObject({
+      message: 'BigQuery storage read failed: Permission denied',
+      jobId: 'job-123',
+    });
+  });
+
+  test('interrupts a read in flight when the signal aborts', async () => {
+    mockCreateQueryJob.mockResolvedValue([destinationJob()]);
+    const stalled = createFakeStream([]);
+    stalled.iterator.next.mockReturnValue(new Promise(() => undefined));
+    const readRows = vi.spyOn(stalled, 'readRows');
+    const controller = new AbortController();
+    const connection = new BigQueryConnection({
+      options: { projectId: 'test-project' },
+      streamMode: 'storage',
+      storageRead: { client: createFakeClient([stalled]) },
+      jobDefaults: { signal: controller.signal },
+    });
+
+    const pending = collect(connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 10));
+    await vi.waitFor(() => expect(stalled.iterator.next).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(BigQueryCancelledError);
+    expect(readRows.mock.calls[0]?.[0]?.aborted).toBe(true);
+    expect(stalled.iterator.return).toHaveBeenCalled();
+  });
+
+  test('aborts pending reads when the consumer stops early without a signal', async () => {
+    mockCreateQueryJob.mockResolvedValue([destinationJob()]);
+    const stalled = createFakeStream([]);
+    stalled.iterator.next.mockReturnValue(new Promise(() => undefined));
+    const readRows = vi.spyOn(stalled, 'readRows');
+    const connection = createConnection({
+      client: createFakeClient([createFakeStream([[{ id: 1 }]]), stalled]),
+    });
+
+    for await (const _ of connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 1)) {
+      break;
+    }
+
+    expect(readRows.mock.calls[0]?.[0]?.aborted).toBe(true);
+  });
+
+  test('re-chunks record batches larger than the argument limit of a call', async () => {
+    mockCreateQueryJob.mockResolvedValue([destinationJob()]);
+    const batch = Array.from({ length: 200_000 }, (_, id) => ({ id }));
+    const connection = createConnection({ client: createFakeClient([createFakeStream([batch])]) });
+
+    const results = await collect(
+      connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 75_000),
+    );
+
+    expect(results.map((result) => result.rows.length)).toEqual([75_000, 75_000, 50_000]);
+    expect(results[2].rows[49_999]).toEqual({ id: 199_999 });
+  });
+
+  test('requires storageRead options in the dialect config', () => {
+    expect(
+      () => new BigQueryDialect({ options: { projectId: 'test-project' }, streamMode: 'storage' }),
+    ).toThrow('The "storage" stream mode requires the storageRead option.');
+  });
+});
+
+describe('createStorageReadClient', () => {
+  const table = new Table({
+    id: vectorFromArray([1n, 2n], new Int64()),
+    tags: vectorFromArray([['a'], ['b', 'c']], new List(new Field('item', new Utf8()))),
+  });
+
+  /* The Read API sends the schema once and each record batch without it */
+  const schemaBytes = tableToIPC(new Table(table.schema), 'stream').subarray(0, -8);
+  const batchBytes = (batch: RecordBatch) =>
+    tableToIPC(new Table([batch]), 'stream').subarray(schemaBytes.length, -8);
+
+  function createApiClient(responses: Readable) {
+    const stream = Object.assign(responses, {
+      cancel: vi.fn(() => responses.destroy(new Error('CANCELLED'))),
+    });
+    const client = {
+      createReadSession: vi.fn(
+        async (): ReturnType<BigQueryStorageApiClient['createReadSession']> => [
+          { streams: [{ name: 'streams/0' }], arrowSchema: { serializedSchema: schemaBytes } },
+        ],
+      ),
+      readRows: vi.fn(() => stream),
+    } satisfies BigQueryStorageApiClient;
+    return { client, stream };
+  }
+
+  test('opens a session and decodes Arrow record batches', async () => {
+    mockCreateQueryJob.mockResolvedValue([destinationJob()]);
+    const { client, stream } = createApiClient(
+      Readable.from(
+        table.batches.map((batch) => ({
+          arrowRecordBatch: { serializedRecordBatch: batchBytes(batch) },
+        })),
+      ),
+    );
+    const connection = createConnection({ client: createStorageReadClient(client), maxStreams: 2 });
+
+    const results = await collect(connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 10));
+
+    expect(results).toEqual([
+      {
+        rows: [
+          { id: 1n, tags: ['a'] },
+          { id: 2n, tags: ['b', 'c'] },
+        ],
+      },
+    ]);
+    expect(client.createReadSession).toHaveBeenCalledWith({
+      parent: 'projects/test-project',
+      readSession: {
+        table: 'projects/test-project/datasets/_anon/tables/anon123',
+        dataFormat: 'ARROW',
+      },
+      maxStreamCount: 2,
+    });
+    expect(client.readRows).toHaveBeenCalledWith({ readStream: 'streams/0', offset: 0 });
+    expect(stream.cancel).toHaveBeenCalled();
+  });
+
+  test('cancels the read call right away when the consumer stops early', async () => {
+    mockCreateQueryJob.mockResolvedValue([destinationJob()]);
+    const responses = new PassThrough({ objectMode: true });
+    responses.write({ arrowRecordBatch: { serializedRecordBatch: batchBytes(table.batches[0]!) } });
+    const { client, stream } = createApiClient(responses);
+    const connection = createConnection({ client: createStorageReadClient(client) });
+
+    for await (const _ of connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 1)) {
+      break;
+    }
+
+    expect(stream.cancel).toHaveBeenCalled();
+  });
+
+  test('leaves Arrow values to result transformers untouched', async () => {
+    mockCreateQueryJob.mockResolvedValue([destinationJob()]);
+    const { client } = createApiClient(
+      Readable.from(
+        table.batches.map((batch) => ({
+          arrowRecordBatch: { serializedRecordBatch: batchBytes(batch) },
+        })),
+      ),
+    );
+    const connection = new BigQueryConnection({
+      options: { projectId: 'test-project' },
+      streamMode: 'storage',
+      storageRead: { client: createStorageReadClient(client) },
+      resultTransformers: { INT64: (value) => `int:${value}` },
+    });
+
+    const results = await collect(connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 10));
+
+    expect(results[0].rows[0]).toEqual({ id: 1n, tags: ['a'] });
+  });
+
+  test('cancels the read call when the signal aborts', async () => {
+    mockCreateQueryJob.mockResolvedValue([destinationJob()]);
+    const { client, stream } = createApiClient(new PassThrough({ objectMode: true }));
+    const controller = new AbortController();
+    const connection = new BigQueryConnection({
+      options: { projectId: 'test-project' },
+      streamMode: 'storage',
+      storageRead: { client: createStorageReadClient(client) },
+      jobDefaults: { signal: controller.signal },
+    });
+
+    const pending = collect(connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 10));
+    await vi.waitFor(() => expect(client.readRows).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(BigQueryCancelledError);
+    expect(stream.cancel).toHaveBeenCalled();
+  });
+
+  test('rejects sessions in the AVRO format', async () => {
+    const { client } = createApiClient(Readable.from([]));
+
+    await expect(
+      createStorageReadClient(client).createReadSession({
+        table: 'projects/p/datasets/d/tables/t',
+        dataFormat: 'AVRO',
+        maxStreams: 0,
+      }),
+    ).rejects.toThrow('createStorageReadClient() only decodes ARROW data.');
+    expect(client.createReadSession).not.toHaveBeenCalled();
+  });
+});
@@ -3,16 +3,19 @@ import { describe, expect, test, vi, beforeEach } from 'vitest';
 import { Readable } from 'stream';
 
 import { BigQueryDialect, BigQueryConnection } from '../src';
+import { createMockStreamJob } from './helpers';
 
 /* Mock the BigQuery client */
 const mockQuery = vi.fn();
 const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
 
 vi.mock('@google-cloud/bigquery', () => {
   return {
     BigQuery: class MockBigQuery {
       query = mockQuery;
       createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
     },
   };
 });
@@ -45,7 +48,7 @@ describe('BigQuery Streaming', () => {
       },
     });
 
-    mockCreateQueryStream.mockReturnValue(mockStream);
+    mockCreateQueryJob.mockResolvedValue([createMockStreamJob(mockStream)]);
 
     const compiledQuery = CompiledQuery.raw('SELECT * FROM users', []);
 
@@ -61,7 +64,7 @@ describe('BigQuery Streaming', () => {
     expect(results[1]).toEqual({ rows: [{ id: 2, name: 'Bob' }] });
     expect(results[2]).toEqual({ rows: [{ id: 3, name: 'Charlie' }] });
 
-    expect(mockCreateQueryStream).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'SELECT * FROM users',
       params: [],
       parseJSON: true,
@@ -76,7 +79,7 @@ describe('BigQuery Streaming', () => {
       },
     });
 
-    mockCreateQueryStream.mockReturnValue(mockStream);
+    mockCreateQueryJob.mockResolvedValue([createMockStreamJob(mockStream)]);
 
     const compiledQuery = CompiledQuery.raw('SELECT * FROM users WHERE 1=0', []);
 
@@ -91,9 +94,7 @@ describe('BigQuery Streaming', () => {
   });
 
   test('streamQuery handles stream creation errors', async () => {
-    mockCreateQueryStream.mockImplementation(() => {
-      throw new Error('Failed to create stream');
-    });
+    mockCreateQueryJob.mockRejectedValue(new Error('Failed to create stream'));
 
     const compiledQuery = CompiledQuery.raw('SELECT * FROM invalid_table', []);
 
@@ -122,7 +123,7 @@ describe('BigQuery Streaming', () => {
       },
     });
 
-    mockCreateQueryStream.mockReturnValue(mockStream);
+    mockCreateQueryJob.mockResolvedValue([createMockStreamJob(mockStream)]);
 
     const compiledQuery = CompiledQuery.raw('SELECT * FROM users', []);
 
@@ -148,7 +149,7 @@ describe('BigQuery Streaming', () => {
       },
     });
 
-    mockCreateQueryStream.mockReturnValue(mockStream);
+    mockCreateQueryJob.mockResolvedValue([createMockStreamJob(mockStream)]);
 
     const compiledQuery = CompiledQuery.raw('SELECT * FROM users WHERE age > ?', [21]);
 
@@ -159,7 +160,7 @@ describe('BigQuery Streaming', () => {
       results.push(result);
     }
 
-    expect(mockCreateQueryStream).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'SELECT * FROM users WHERE age > ?',
       params: [21],
       parseJSON: true,
@@ -168,9 +169,7 @@ describe('BigQuery Streaming', () => {
   });
 
   test('streamQuery handles non-Error exceptions', async () => {
-    mockCreateQueryStream.mockImplementation(() => {
-      throw 'String error';
-    });
+    mockCreateQueryJob.mockRejectedValue('String error');
 
     const compiledQuery = CompiledQuery.raw('SELECT * FROM users', []);
 
@@ -211,7 +210,7 @@ describe('BigQuery Streaming', () => {
       },
     });
 
-    mockCreateQueryStream.mockReturnValue(mockStream);
+    mockCreateQueryJob.mockResolvedValue([createMockStreamJob(mockStream)]);
 
     const compiledQuery = CompiledQuery.raw('SELECT * FROM users', []);
     const results: any[] = [];
@@ -249,7 +248,7 @@ describe('BigQuery Streaming', () => {
       },
     });
 
-    mockCreateQueryStream.mockReturnValue(mockStream);
+    mockCreateQueryJob.mockResolvedValue([createMockStreamJob(mockStream)]);
 
     const compiledQuery = CompiledQuery.raw('SELECT * FROM users', []);
     const results: any[] = [];
@@ -283,7 +282,7 @@ describe('BigQuery Streaming', () => {
       },
     });
 
-    mockCreateQueryStream.mockReturnValue(mockStream);
+    mockCreateQueryJob.mockResolvedValue([createMockStreamJob(mockStream)]);
 
     const compiledQuery = CompiledQuery.raw('SELECT * FROM users', []);
     const results: any[] = [];
@@ -314,7 +313,7 @@ describe('BigQuery Streaming', () => {
       },
     });
 
-    mockCreateQueryStream.mockReturnValue(mockStream);
+    mockCreateQueryJob.mockResolvedValue([createMockStreamJob(mockStream)]);
 
     const compiledQuery = CompiledQuery.raw('SELECT * FROM users', []);
     const stream = connection.streamQuery(compiledQuery, 1);
@@ -340,7 +339,7 @@ describe('BigQuery Streaming', () => {
       },
     });
 
-    mockCreateQueryStream.mockReturnValue(mockStream);
+    mockCreateQueryJob.mockResolvedValue([createMockStreamJob(mockStream)]);
 
     const compiledQuery = CompiledQuery.raw(
       'SELECT * FROM users WHERE email = ? OR status = ?',
@@ -354,7 +353,7 @@ describe('BigQuery Streaming', () => {
       results.push(result);
     }
 
-    expect(mockCreateQueryStream).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'SELECT * FROM users WHERE email = ? OR status = ?',
       params: [null, 'active'],
       types: ['STRING', 'STRING'],
@@ -376,7 +375,7 @@ describe('BigQuery Streaming', () => {
       },
     });
 
-    mockCreateQueryStream.mockReturnValue(mockStream);
+    mockCreateQueryJob.mockResolvedValue([createMockStreamJob(mockStream)]);
 
     const buffer = Buffer.from('test');
     const date = new Date('2024-01-01');
@@ -392,7 +391,7 @@ describe('BigQuery Streaming', () => {
       results.push(result);
     }
 
-    expect(mockCreateQueryStream).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'INSERT INTO test_table VALUES (?, ?, ?, ?, ?, ?, ?)',
       params: ['string', 42, true, date, buffer, { key: 'value' }, null],
       types: ['STRING', 'INT64', 'BOOL', 'TIMESTAMP', 'BYTES', 'STRING', 'STRING'],
@@ -414,7 +413,7 @@ describe('BigQuery Streaming', () => {
       },
     });
 
-    mockCreateQueryStream.mockReturnValue(mockStream);
+    mockCreateQueryJob.mockResolvedValue([createMockStreamJob(mockStream)]);
 
     const compiledQuery = CompiledQuery.raw(
       'SELECT * FROM measurements WHERE value > ? AND price < ? AND ratio = ?',
@@ -428,7 +427,7 @@ describe('BigQuery Streaming', () => {
       results.push(result);
     }
 
-    expect(mockCreateQueryStream).toHaveBeenCalledWith({
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
       query: 'SELECT * FROM measurements WHERE value > ? AND price < ? AND ratio = ?',
       params: [3.14159, 99.99, null],
       types: ['FLOAT64', 'FLOAT64', 'STRING'],
@@ -461,7 +460,7 @@ describe('BigQuery Streaming', () => {
       },
     });
 
-    mockCreateQueryStream.mockReturnValue(mockStream);
+    mockCreateQueryJob.mockResolvedValue([createMockStreamJob(mockStream)]);
 
     const compiledQuery = CompiledQuery.raw('SELECT * FROM users', []);
 
@@ -481,4 +480,157 @@ describe('BigQuery Streaming', () => {
     /* Malformed JSON should remain as string */
     expect(row.settings).toBe('{"malformed": json}');
   });
-});
\ No newline at end of file
+});
+
+describe('BigQuery Streaming Batches', () => {
+  const rowsOf = (count: number) => Array.from({ length: count }, (_, i) => ({ id: i + 1 }));
+
+  const collect = async (stream: AsyncIterableIterator<any>) => {
+    const results: any[] = [];
+    for await (const result of stream) {
+      results.push(result);
+    }
+    return results;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  test('streamQuery buffers rows into chunks of chunkSize', async () => {
+    const connection = new BigQueryConnection({ options: { projectId: 'test-project' } });
+    mockCreateQueryJob.mockResolvedValue([createMockStreamJob(Readable.from(rowsOf(5)))]);
+
+    const results = await collect(
+      connection.streamQuery(CompiledQuery.raw('SELECT * FROM users', []), 2),
+    );
+
+    expect(results.map((result) => result.rows)).toEqual([
+      [{ id: 1 }, { id: 2 }],
+      [{ id: 3 }, { id: 4 }],
+      [{ id: 5 }],
+    ]);
+  });
+
+  test('streamQuery rejects invalid chunk sizes', async () => {
+    const connection = new BigQueryConnection({ options: { projectId: 'test-project' } });
+
+    await expect(
+      collect(connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 0)),
+    ).rejects.toThrow('chunkSize must be a positive integer');
+    expect(mockCreateQueryJob).not.toHaveBeenCalled();
+  });
+
+  test('Kysely stream() still yields individual rows', async () => {
+    const kysely = new Kysely<any>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+    mockCreateQueryJob.mockResolvedValue([createMockStreamJob(Readable.from(rowsOf(3)))]);
+
+    const rows: any[] = [];
+    for await (const row of kysely.selectFrom('dataset.users').selectAll().stream(2)) {
+      rows.push(row);
+    }
+
+    expect(rows).toEqual(rowsOf(3));
+  });
+
+  describe('pages mode', () => {
+    const createPagedJob = (pages: Record<string, unknown>[][]) => ({
+      id: 'job-123',
+      getQueryResults: vi.fn(async ({ pageToken }: { pageToken?: string }) => {
+        const index = pageToken ? Number(pageToken) : 0;
+        const next = index + 1 < pages.length ? { pageToken: String(index + 1) } : null;
+        return [pages[index], next, {}];
+      }),
+      cancel: vi.fn().mockResolvedValue([{}]),
+    });
+
+    test('yields one result per page and requests pages of chunkSize rows', async () => {
+      const connection = new BigQueryConnection({
+        options: { projectId: 'test-project' },
+        streamMode: 'pages',
+      });
+      const job = createPagedJob([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+      mockCreateQueryJob.mockResolvedValue([job]);
+
+      const results = await collect(
+        connection.streamQuery(CompiledQuery.raw('SELECT * FROM users WHERE id > ?', [0]), 2),
+      );
+
+      expect(results.map((result) => result.rows)).toEqual([[{ id: 1 }, { id: 2 }], [{ id: 3 }]]);
+      expect(mockCreateQueryJob).toHaveBeenCalledWith({
+        query: 'SELECT * FROM users WHERE id > ?',
+        params: [0],
+        parseJSON: true,
+      });
+      expect(job.getQueryResults.mock.calls).toEqual([
+        [{ parseJSON: true, maxResults: 2, autoPaginate: false }],
+        [{ parseJSON: true, maxResults: 2, autoPaginate: false, pageToken: '1' }],
+      ]);
+      expect(mockCreateQueryStream).not.toHaveBeenCalled();
+    });
+
+    test('only fetches the next page when the consumer asks for it', async () => {
+      const connection = new BigQueryConnection({
+        options: { projectId: 'test-project' },
+        streamMode: 'pages',
+      });
+      const job = createPagedJob([[{ id: 1 }], [{ id: 2 }], [{ id: 3 }]]);
+      mockCreateQueryJob.mockResolvedValue([job]);
+
+      const stream = connection.streamQuery(CompiledQuery.raw('SELECT * FROM users', []), 1);
+      await stream.next();
+      expect(job.getQueryResults).toHaveBeenCalledTimes(1);
+
+      await stream.return?.();
+      expect(job.getQueryResults).toHaveBeenCalledTimes(1);
+      expect(job.cancel).toHaveBeenCalled();
+    });
+
+    test('parses registered JSON columns in each page', async () => {
+      const connection = new BigQueryConnection({
+        options: { projectId: 'test-project' },
+        jsonColumns: { 'dataset.users': ['metadata'] },
+        streamMode: 'pages',
+      });
+      mockCreateQueryJob.mockResolvedValue([createPagedJob([[{ id: 1, metadata: '{"a":1}' }]])]);
+
+      const results = await collect(
+        connection.streamQuery(CompiledQuery.raw('SELECT * FROM users', []), 10),
+      );
+
+      expect(results).toEqual([{ rows: [{ id: 1, metadata: { a: 1 } }] }]);
+    });
+
+    test('wraps page errors with the job id', async () => {
+      const connection = new BigQueryConnection({
+        options: { projectId: 'test-project' },
+        streamMode: 'pages',
+      });
+      mockCreateQueryJob.mockResolvedValue([
+        {
+          id: 'job-456',
+          getQueryResults: vi.fn().mockRejectedValue(new Error('Page failed')),
+          cancel: vi.fn().mockResolvedValue([{}]),
+        },
+      ]);
+
+      await expect(
+        collect(connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 10)),
+      ).rejects.toMatchObject({ message: 'BigQuery stream error: Page failed', jobId: 'job-456' });
+    });
+
+    test('wraps job creation errors', async () => {
+      const connection = new BigQueryConnection({
+        options: { projectId: 'test-project' },
+        streamMode: 'pages',
+      });
+      mockCreateQueryJob.mockRejectedValue(new Error('Invalid query'));
+
+      await expect(
+        collect(connection.streamQuery(CompiledQuery.raw('SELEC 1', []), 10)),
+      ).rejects.toThrow('BigQuery stream query failed: Invalid query');
+    });
+  });
+});
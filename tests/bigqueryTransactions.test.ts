@@ -0,0 +1,280 @@
+import { CompiledQuery, Kysely } from 'kysely';
+import { Readable } from 'stream';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import { BigQueryConnection, BigQueryDialect, BigQueryDriver } from '../src';
+import { createMockJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+const sessionJob = (sessionId?: string) =>
+  createMockJob({ statistics: sessionId ? { sessionInfo: { sessionId } } : {} });
+
+const statements = () =>
+  mockCreateQueryJob.mock.calls.map((call) => (call[0] as { query: string }).query);
+
+describe('BigQuery Transactions', () => {
+  let connection: BigQueryConnection;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateQueryJob.mockResolvedValue([sessionJob('session-123')]);
+    mockQuery.mockResolvedValue([[]]);
+    connection = new BigQueryConnection({ options: { projectId: 'test-project' } });
+  });
+
+  test('beginTransaction creates a session and begins a transaction', async () => {
+    await connection.beginTransaction();
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith({
+      query: 'BEGIN TRANSACTION',
+      createSession: true,
+    });
+  });
+
+  test('queries inside a transaction are pinned to the session', async () => {
+    await connection.beginTransaction();
+    await connection.executeQuery(CompiledQuery.raw('SELECT 1', []));
+
+    expect(mockQuery).toHaveBeenCalledWith({
+      query: 'SELECT 1',
+      params: [],
+      parseJSON: true,
+      connectionProperties: [{ key: 'session_id', value: 'session-123' }],
+    });
+  });
+
+  test('streamed queries inside a transaction are pinned to the session', async () => {
+    mockCreateQueryJob.mockResolvedValue([
+      { ...sessionJob('session-123'), getQueryResultsStream: vi.fn(() => Readable.from([])) },
+    ]);
+
+    await connection.beginTransaction();
+    for await (const _ of connection.streamQuery(CompiledQuery.raw('SELECT 1', []), 1)) {
+      /* No rows */
+    }
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        connectionProperties: [{ key: 'session_id', value: 'session-123' }],
+      }),
+    );
+  });
+
+  test('commitTransaction commits inside the session', async () => {
+    await connection.beginTransaction();
+    await connection.commitTransaction();
+
+    expect(mockCreateQueryJob).toHaveBeenLastCalledWith({
+      query: 'COMMIT TRANSACTION',
+      connectionProperties: [{ key: 'session_id', value: 'session-123' }],
+    });
+  });
+
+  test('rollbackTransaction rolls back and aborts the session', async () => {
+    await connection.beginTransaction();
+    await connection.rollbackTransaction();
+
+    expect(statements()).toEqual([
+      'BEGIN TRANSACTION',
+      'ROLLBACK TRANSACTION',
+      'CALL BQ.ABORT_SESSION()',
+    ]);
+
+    /* Later queries are no longer pinned to the aborted session */
+    await connection.executeQuery(CompiledQuery.raw('SELECT 1', []));
+    expect(mockQuery).toHaveBeenLastCalledWith({ query: 'SELECT 1', params: [], parseJSON: true });
+  });
+
+  test('rollbackTransaction ignores a failed rollback and still aborts the session', async () => {
+    await connection.beginTransaction();
+    mockCreateQueryJob.mockRejectedValueOnce(new Error('Transaction already ended'));
+
+    await expect(connection.rollbackTransaction()).resolves.toBeUndefined();
+    expect(statements()).toEqual([
+      'BEGIN TRANSACTION',
+      'ROLLBACK TRANSACTION',
+      'CALL BQ.ABORT_SESSION()',
+    ]);
+  });
+
+  test('db.transaction() keeps the callback error when BigQuery already aborted the transaction', async () => {
+    const db = new Kysely<any>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+    mockCreateQueryJob.mockImplementation(async ({ query }: { query: string }) => {
+      if (query === 'ROLLBACK TRANSACTION') {
+        throw new Error('Transaction was aborted');
+      }
+      return [sessionJob('session-123')];
+    });
+
+    await expect(
+      db.transaction().execute(async () => {
+        throw new Error('Division by zero');
+      }),
+    ).rejects.toThrow('Division by zero');
+    expect(statements()).toContain('CALL BQ.ABORT_SESSION()');
+  });
+
+  test('releaseSession aborts an open session', async () => {
+    await connection.beginTransaction();
+    await connection.releaseSession();
+
+    expect(mockCreateQueryJob).toHaveBeenLastCalledWith({
+      query: 'CALL BQ.ABORT_SESSION()',
+      connectionProperties: [{ key: 'session_id', value: 'session-123' }],
+    });
+  });
+
+  test('db.transaction() resolves after a commit when aborting the session fails', async () => {
+    const failures: unknown[] = [];
+    const db = new Kysely<any>({
+      dialect: new BigQueryDialect({
+        options: { projectId: 'test-project' },
+        hooks: { onQueryFailed: (event) => failures.push(event.error) },
+      }),
+    });
+    mockCreateQueryJob.mockImplementation(async ({ query }: { query: string }) => {
+      if (query === 'CALL BQ.ABORT_SESSION()') {
+        throw new Error('Session not found');
+      }
+      return [sessionJob('session-123')];
+    });
+
+    await expect(db.transaction().execute(async () => 'done')).resolves.toBe('done');
+    expect(statements()).toEqual([
+      'BEGIN TRANSACTION',
+      'COMMIT TRANSACTION',
+      'CALL BQ.ABORT_SESSION()',
+    ]);
+    expect(failures).toHaveLength(1);
+    expect(String(failures[0])).toContain('Session not found');
+  });
+
+  test('db.transaction() keeps the callback error when aborting the session fails', async () => {
+    const db = new Kysely<any>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+    mockCreateQueryJob.mockImplementation(async ({ query }: { query: string }) => {
+      if (query === 'CALL BQ.ABORT_SESSION()') {
+        throw new Error('Session not found');
+      }
+      return [sessionJob('session-123')];
+    });
+
+    await expect(
+      db.transaction().execute(async () => {
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+  });
+
+  test('releaseSession forgets the session when the abort fails', async () => {
+    await connection.beginTransaction();
+    mockCreateQueryJob.mockRejectedValueOnce(new Error('Session not found'));
+
+    await expect(connection.releaseSession()).resolves.toBeUndefined();
+    await connection.executeQuery(CompiledQuery.raw('SELECT 1', []));
+    expect(mockQuery).toHaveBeenLastCalledWith({ query: 'SELECT 1', params: [], parseJSON: true });
+  });
+
+  test('releaseSession is a no-op without a session', async () => {
+    await connection.releaseSession();
+
+    expect(mockCreateQueryJob).not.toHaveBeenCalled();
+  });
+
+  test('beginTransaction rejects nested transactions', async () => {
+    await connection.beginTransaction();
+
+    await expect(connection.beginTransaction()).rejects.toThrow(
+      'A transaction is already in progress on this connection.',
+    );
+  });
+
+  test('beginTransaction fails when BigQuery returns no session id', async () => {
+    mockCreateQueryJob.mockResolvedValue([sessionJob()]);
+
+    await expect(connection.beginTransaction()).rejects.toThrow(
+      'BigQuery did not return a session id for the transaction.',
+    );
+  });
+
+  test('transaction statement errors are wrapped', async () => {
+    mockCreateQueryJob.mockRejectedValue(new Error('Access denied'));
+
+    await expect(connection.beginTransaction()).rejects.toThrow(
+      'BigQuery transaction failed: Access denied',
+    );
+  });
+
+  test('non-Error exceptions from transaction statements are rethrown as-is', async () => {
+    mockCreateQueryJob.mockRejectedValue('String error');
+
+    await expect(connection.beginTransaction()).rejects.toBe('String error');
+  });
+
+  test('driver releaseConnection aborts the session', async () => {
+    const driver = new BigQueryDriver({ options: { projectId: 'test-project' } });
+    const conn = (await driver.acquireConnection()) as BigQueryConnection;
+
+    await driver.beginTransaction(conn);
+    await driver.releaseConnection(conn);
+
+    expect(statements()).toEqual(['BEGIN TRANSACTION', 'CALL BQ.ABORT_SESSION()']);
+  });
+
+  test('db.transaction() runs all statements in one session', async () => {
+    const db = new Kysely<any>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+
+    await db.transaction().execute(async (trx) => {
+      await trx.selectFrom('dataset.users').selectAll().execute();
+    });
+
+    expect(statements()).toEqual([
+      'BEGIN TRANSACTION',
+      'COMMIT TRANSACTION',
+      'CALL BQ.ABORT_SESSION()',
+    ]);
+    expect(mockQuery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query: 'select * from `dataset`.`users`',
+        connectionProperties: [{ key: 'session_id', value: 'session-123' }],
+      }),
+    );
+  });
+
+  test('db.transaction() rolls back when the callback throws', async () => {
+    const db = new Kysely<any>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+
+    await expect(
+      db.transaction().execute(async () => {
+        throw new Error('boom');
+      }),
+    ).rejects.toThrow('boom');
+
+    expect(statements()).toEqual([
+      'BEGIN TRANSACTION',
+      'ROLLBACK TRANSACTION',
+      'CALL BQ.ABORT_SESSION()',
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { Kysely, sql } from 'kysely';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import { BigQueryDialect, bq, parseParameterType } from '../src';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+describe('BigQuery Typed Parameters', () => {
+  let kysely: Kysely<any>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockResolvedValue([[]]);
+    kysely = new Kysely<any>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+  });
+
+  test('sends the explicit type of a null', async () => {
+    await kysely
+      .selectFrom('dataset.orders')
+      .selectAll()
+      .where('amount', '=', bq.param(null, 'NUMERIC'))
+      .where('status', '=', 'open')
+      .execute();
+
+    expect(mockQuery).toHaveBeenCalledWith({
+      query: 'select * from `dataset`.`orders` where `amount` = ? and `status` = ?',
+      params: [null, 'open'],
+      types: ['NUMERIC', undefined],
+      parseJSON: true,
+    });
+  });
+
+  test('keeps explicit types when other nulls need inferred types', async () => {
+    await sql`select ${bq.param([], 'ARRAY<INT64>')}, ${null}, ${1.5}`.execute(kysely);
+
+    expect(mockQuery).toHaveBeenCalledWith({
+      query: 'select ?, ?, ?',
+      params: [[], null, 1.5],
+      types: [['INT64'], 'STRING', 'FLOAT64'],
+      parseJSON: true,
+    });
+  });
+
+  test('sends STRUCT descriptors as field types', async () => {
+    const value = { id: 1, tags: ['a'], owner: { name: 'x' } };
+
+    await sql`select ${bq.param(value, 'STRUCT<id INT64, tags ARRAY<STRING>, owner STRUCT<name STRING>>')}.id`.execute(
+      kysely,
+    );
+
+    expect(mockQuery).toHaveBeenCalledWith({
+      query: 'select ?.id',
+      params: [value],
+      types: [{ id: 'INT64', tags: ['STRING'], owner: { name: 'STRING' } }],
+      parseJSON: true,
+    });
+  });
+
+  test('combines with named parameters', async () => {
+    const named = new Kysely<any>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' }, namedParameters: true }),
+    });
+
+    await sql`select * from dataset.t where id in unnest(${bq.named('ids', bq.param([], 'ARRAY<INT64>'))}) and name = ${'a'}`.execute(
+      named,
+    );
+
+    expect(mockQuery).toHaveBeenCalledWith({
+      query: 'select * from dataset.t where id in unnest(@ids) and name = @p1',
+      params: { ids: [], p1: 'a' },
+      types: { ids: ['INT64'] },
+      parseJSON: true,
+    });
+  });
+
+  describe('parseParameterType', () => {
+    test.each([
+      ['INT64', 'INT64'],
+      ['numeric(10, 2)', 'NUMERIC'],
+      ['STRING(64)', 'STRING'],
+      ['ARRAY<STRUCT<a INT64, b STRING>>', [{ a: 'INT64', b: 'STRING' }]],
+      ['struct<point struct<x float64, y float64>>', { point: { x: 'FLOAT64', y: 'FLOAT64' } }],
+    ])('parses %s', (descriptor, expected) => {
+      expect(parseParameterType(descriptor)).toEqual(expected);
+    });
+
+    test.each([
+      ['INT32', 'unknown type "INT32"'],
+      ['ARRAY<ARRAY<INT64>>', 'BigQuery does not support arrays of arrays'],
+      ['STRUCT<INT64>', 'STRUCT fields need a name and a type'],
+      ['ARRAY<INT64', 'unexpected end of type'],
+      ['INT64>', 'unexpected ">"'],
+    ])('rejects %s', (descriptor, reason) => {
+      expect(() => bq.param(null, descriptor)).toThrow(
+        `Invalid parameter type "${descriptor}": ${reason}.`,
+      );
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { Kysely, sql } from 'kysely';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import { BigQueryDialect, bq, unnest } from '../src';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+interface Database {
+  'dataset.posts': { id: number; author_id: number; tags: string[]; scores: number[] | null };
+}
+
+describe('BigQuery UNNEST', () => {
+  let db: Kysely<Database>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuery.mockResolvedValue([[]]);
+    db = new Kysely<Database>({
+      dialect: new BigQueryDialect({ options: { projectId: 'test-project' } }),
+    });
+  });
+
+  test('cross joins the elements of an array column with their offset', async () => {
+    await db
+      .selectFrom('dataset.posts as p')
+      .crossJoin((eb) => unnest(eb.ref('p.tags')).as('tag').withOffset('position'))
+      .select(['p.id', 'tag', 'position'])
+      .where('tag', '!=', 'draft')
+      .execute();
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query:
+          'select `p`.`id`, `tag`, `position` from `dataset`.`posts` as `p` cross join UNNEST(`p`.`tags`) as `tag` with offset as `position` where `tag` != ?',
+        params: ['draft'],
+      }),
+    );
+  });
+
+  test('selects from and joins UNNEST of column references', () => {
+    const fromList = db
+      .selectFrom(['dataset.posts as p', unnest(sql.ref<string[]>('p.tags')).as('tag')])
+      .select(['p.id', 'tag'])
+      .compile();
+    const joined = db
+      .selectFrom('dataset.posts as p')
+      .innerJoin(
+        (eb) => unnest(eb, 'p.tags').as('tag'),
+        (join) => join.onTrue(),
+      )
+      .leftJoin(
+        (eb) => unnest(eb.ref('p.scores')).as('score'),
+        (join) => join.onTrue(),
+      )
+      .select(['tag', 'score'])
+      .compile();
+
+    expect(fromList.sql).toBe(
+      'select `p`.`id`, `tag` from `dataset`.`posts` as `p`, UNNEST(`p`.`tags`) as `tag`',
+    );
+    expect(joined.sql).toBe(
+      'select `tag`, `score` from `dataset`.`posts` as `p` inner join UNNEST(`p`.`tags`) as `tag` on true left join UNNEST(`p`.`scores`) as `score` on true',
+    );
+  });
+
+  test('sends array values as a parameter in IN predicates', async () => {
+    await db
+      .selectFrom('dataset.posts')
+      .selectAll()
+      .where('author_id', 'in', unnest([1, 2, 3]))
+      .where('id', 'not in', unnest<number>(bq.param([], 'ARRAY<INT64>')))
+      .execute();
+
+    expect(mockQuery).toHaveBeenCalledWith({
+      query:
+        'select * from `dataset`.`posts` where `author_id` in UNNEST(?) and `id` not in UNNEST(?)',
+      params: [[1, 2, 3], []],
+      types: [undefined, ['INT64']],
+      parseJSON: true,
+    });
+  });
+
+  test('infers element types from array columns and values', async () => {
+    const rows = await db
+      .selectFrom('dataset.posts as p')
+      .crossJoin((eb) => unnest(eb.ref('p.scores')).as('score').withOffset('i'))
+      .select(['score', 'i'])
+      .execute();
+    const row: { score: number; i: number } | undefined = rows[0];
+
+    expect(row).toBeUndefined();
+
+    const posts = db.selectFrom('dataset.posts').selectAll();
+    posts.where('id', 'in', unnest([1, 2]));
+    // @ts-expect-error - the elements are strings, ids are numbers
+    posts.where('id', 'in', unnest(['a']));
+
+    const tagged = db
+      .selectFrom('dataset.posts as p')
+      .crossJoin((eb) => unnest(eb.ref('p.tags')).as('tag'));
+    tagged.where('tag', '=', 'news');
+    // @ts-expect-error - 'tag' is a string
+    tagged.where('tag', '=', 1);
+
+    const scored = db
+      .selectFrom('dataset.posts as p')
+      .crossJoin((eb) => unnest(eb, 'p.scores').as('score'));
+    scored.where('score', '>', 1);
+    // @ts-expect-error - 'score' is a number
+    scored.where('score', '=', 'high');
+    // @ts-expect-error - 'p.missing' is not a column of the query
+    db.selectFrom('dataset.posts as p').crossJoin((eb) => unnest(eb, 'p.missing').as('x'));
+  });
+});
@@ -0,0 +1,293 @@
+import { Kysely, sql } from 'kysely';
+import { describe, expect, test, vi, beforeEach } from 'vitest';
+
+import { BigQueryDialect, BigQueryJobOptionsPlugin } from '../src';
+import { createMockJob } from './helpers';
+
+/* Mock the BigQuery client */
+const mockQuery = vi.fn();
+const mockCreateQueryStream = vi.fn();
+const mockCreateQueryJob = vi.fn();
+
+vi.mock('@google-cloud/bigquery', () => {
+  return {
+    BigQuery: class MockBigQuery {
+      query = mockQuery;
+      createQueryStream = mockCreateQueryStream;
+      createQueryJob = mockCreateQueryJob;
+    },
+  };
+});
+
+interface Database {
+  'dataset.users': {
+    id: number;
+    name: string;
+    visits: number | null;
+    settings: unknown;
+    joined: Date | null;
+  };
+  'dataset.orders': { id: number; user_id: number };
+}
+
+describe('BigQuery upserts', () => {
+  let db: Kysely<Database>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateQueryJob.mockResolvedValue([createMockJob()]);
+    db = new Kysely<Database>({
+      dialect: new BigQueryDialect({
+        options: { projectId: 'test-project' },
+        primaryKeys: { 'dataset.users': ['id'] },
+      }),
+    });
+  });
+
+  describe('onConflict()', () => {
+    test('compiles doUpdateSet to a MERGE over the rows', () => {
+      const { sql, parameters } = db
+        .insertInto('dataset.users')
+        .values([
+          { id: 1, name: 'Ada', visits: 1 },
+          { id: 2, name: 'Grace', visits: 1 },
+        ])
+        .onConflict((oc) =>
+          oc
+            .column('id')
+            .doUpdateSet((eb) => ({
+              name: eb.ref('excluded.name'),
+              visits: eb('visits', '+', 1),
+            }))
+            .where('name', '!=', 'Root'),
+        )
+        .compile();
+
+      expect(sql).toBe(
+        'merge into `dataset`.`users` as `users` ' +
+          'using (select ? as `id`, ? as `name`, ? as `visits` union all select ? as `id`, ? as `name`, ? as `visits`) as `excluded` ' +
+          'on `users`.`id` = `excluded`.`id` ' +
+          'when matched and `users`.`name` != ? then update set `name` = `excluded`.`name`, `visits` = `users`.`visits` + ? ' +
+          'when not matched then insert (`id`, `name`, `visits`) values (`excluded`.`id`, `excluded`.`name`, `excluded`.`visits`)',
+      );
+      expect(parameters).toEqual([1, 'Ada', 1, 2, 'Grace', 1, 'Root', 1]);
+    });
+
+    test('compiles doNothing to a MERGE that only inserts', () => {
+      const compiled = db
+        .insertInto('dataset.users')
+        .values({ id: 1, name: sql`UPPER(${'ada'})` })
+        .onConflict((oc) => oc.columns(['id', 'name']).doNothing())
+        .compile();
+
+      expect(compiled.sql).toBe(
+        'merge into `dataset`.`users` as `users` using (select ? as `id`, UPPER(?) as `name`) as `excluded` ' +
+          'on `users`.`id` = `excluded`.`id` and `users`.`name` = `excluded`.`name` ' +
+          'when not matched then insert (`id`, `name`) values (`excluded`.`id`, `excluded`.`name`)',
+      );
+      expect(compiled.parameters).toEqual([1, 'ada']);
+    });
+
+    test('rejects conflict targets other than columns', () => {
+      const query = db
+        .insertInto('dataset.users')
+        .values({ id: 1, name: 'Ada' })
+        .onConflict((oc) => oc.constraint('users_pkey').doNothing());
+
+      expect(() => query.compile()).toThrow(
+        'BigQuery upserts can only match rows on conflict columns. Use onConflict((oc) => oc.columns([...])).',
+      );
+    });
+  });
+
+  describe('onDuplicateKeyUpdate()', () => {
+    test('matches rows on the registered primary key', async () => {
+      await db
+        .insertInto('dataset.users')
+        .values({ id: 1, name: 'Ada' })
+        .onDuplicateKeyUpdate({ name: 'Ada L.' })
+        .execute();
+
+      expect(mockCreateQueryJob).toHaveBeenCalledWith(
+        expect.objectContaining({
+          query:
+            'merge into `dataset`.`users` as `users` using (select ? as `id`, ? as `name`) as `excluded` ' +
+            'on `users`.`id` = `excluded`.`id` when matched then update set `name` = ? ' +
+            'when not matched then insert (`id`, `name`) values (`excluded`.`id`, `excluded`.`name`)',
+          params: [1, 'Ada', 'Ada L.'],
+        }),
+      );
+    });
+
+    test('compiles VALUES(column) to the column of the inserted rows', () => {
+      const compiled = db
+        .insertInto('dataset.users')
+        .values({ id: 1, name: 'Ada', visits: 1 })
+        .onDuplicateKeyUpdate((eb) => ({
+          name: eb.fn<string>('values', [eb.ref('name')]),
+          visits: eb('visits', '+', eb.fn<number>('VALUES', [eb.ref('visits')])),
+        }))
+        .compile();
+
+      expect(compiled.sql).toBe(
+        'merge into `dataset`.`users` as `users` using (select ? as `id`, ? as `name`, ? as `visits`) as `excluded` ' +
+          'on `users`.`id` = `excluded`.`id` ' +
+          'when matched then update set `name` = `excluded`.`name`, `visits` = `users`.`visits` + `excluded`.`visits` ' +
+          'when not matched then insert (`id`, `name`, `visits`) values (`excluded`.`id`, `excluded`.`name`, `excluded`.`visits`)',
+      );
+    });
+
+    test('rejects VALUES() it cannot compile', () => {
+      const raw = db
+        .insertInto('dataset.users')
+        .values({ id: 1, name: 'Ada' })
+        .onDuplicateKeyUpdate({ name: sql<string>`VALUES(name)` });
+      const expression = db
+        .insertInto('dataset.users')
+        .values({ id: 1, name: 'Ada' })
+        .onDuplicateKeyUpdate((eb) => ({ name: eb.fn<string>('values', [eb.val('x')]) }));
+
+      expect(() => raw.compile()).toThrow(
+        'BigQuery upserts do not support VALUES() in raw SQL. Refer to the inserted values as excluded.column instead.',
+      );
+      expect(() => expression.compile()).toThrow(
+        'BigQuery upserts only support VALUES() of a single column. Refer to the inserted values as excluded.column instead.',
+      );
+    });
+
+    test('rejects tables without key columns', () => {
+      const query = db
+        .insertInto('dataset.orders')
+        .values({ id: 1, user_id: 1 })
+        .onDuplicateKeyUpdate({ user_id: 2 });
+
+      expect(() => query.compile()).toThrow(
+        'Cannot upsert into "dataset.orders" without its key columns. Register them in the primaryKeys dialect option, or name them with onConflict((oc) => oc.columns([...])).',
+      );
+    });
+  });
+
+  test('rejects upserts without the key column or without rows of values', () => {
+    const withoutKey = db
+      .insertInto('dataset.users')
+      .values({ name: 'Ada' } as never)
+      .onDuplicateKeyUpdate({ name: 'Ada' });
+    const fromQuery = db
+      .insertInto('dataset.users')
+      .columns(['id', 'name'])
+      .expression(db.selectFrom('dataset.users').select(['id', 'name']))
+      .onDuplicateKeyUpdate({ name: 'Ada' });
+    const missingValue = db
+      .insertInto('dataset.users')
+      .values([{ id: 1, name: 'Ada' }, { id: 2 } as never])
+      .onDuplicateKeyUpdate({ name: 'Ada' });
+
+    expect(() => withoutKey.compile()).toThrow(
+      'Upsert into "dataset.users" does not insert its key column "id".',
+    );
+    expect(() => fromQuery.compile()).toThrow(
+      'BigQuery upserts need rows of values. Use mergeInto() to upsert the rows of a query.',
+    );
+    expect(() => missingValue.compile()).toThrow(
+      'Every row of an upsert into "dataset.users" must set "name".',
+    );
+  });
+
+  test('runs with the job options attached by BigQueryJobOptionsPlugin', async () => {
+    await db
+      .insertInto('dataset.users')
+      .values({ id: 1, name: 'Ada' })
+      .onConflict((oc) => oc.column('id').doUpdateSet({ name: 'Ada L.' }))
+      .withPlugin(
+        new BigQueryJobOptionsPlugin({
+          labels: { team: 'growth' },
+          maximumBytesBilled: 1000,
+          location: 'EU',
+        }),
+      )
+      .execute();
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        query: expect.stringMatching(/^merge into /),
+        labels: { team: 'growth' },
+        maximumBytesBilled: '1000',
+        location: 'EU',
+      }),
+    );
+  });
+
+  test('serializes JSON column values in the rows and updates', async () => {
+    const jsonDb = new Kysely<Database>({
+      dialect: new BigQueryDialect({
+        options: { projectId: 'test-project' },
+        jsonColumns: { 'dataset.users': ['settings'] },
+      }),
+    });
+
+    await jsonDb
+      .insertInto('dataset.users')
+      .values([
+        { id: 1, name: 'Ada', settings: { theme: 'dark' } },
+        { id: 2, name: 'Grace', settings: ['a'] },
+      ])
+      .onConflict((oc) => oc.column('id').doUpdateSet({ settings: { theme: 'light' } }))
+      .execute();
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        params: [1, 'Ada', '{"theme":"dark"}', 2, 'Grace', '["a"]', '{"theme":"light"}'],
+      }),
+    );
+  });
+
+  test('types nulls of multi-row upserts by the values of the other rows', async () => {
+    const joined = new Date('2024-01-15T00:00:00Z');
+
+    await db
+      .insertInto('dataset.users')
+      .values([
+        { id: 1, name: 'Ada', visits: null, joined },
+        { id: 2, name: 'Grace', visits: 3, joined: null },
+        { id: 3, name: 'Edsger', visits: null, joined: null },
+      ])
+      .onDuplicateKeyUpdate({ name: 'Anonymous' })
+      .execute();
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        params: [1, 'Ada', null, joined, 2, 'Grace', 3, null, 3, 'Edsger', null, null, 'Anonymous'],
+        types: [
+          ...[undefined, undefined, 'INT64', undefined],
+          ...[undefined, undefined, undefined, 'TIMESTAMP'],
+          ...[undefined, undefined, 'INT64', 'TIMESTAMP'],
+          undefined,
+        ],
+      }),
+    );
+  });
+
+  test('types null and Date values by the columns they are inserted into', async () => {
+    const typedDb = new Kysely<Database>({
+      dialect: new BigQueryDialect({
+        options: { projectId: 'test-project' },
+        primaryKeys: { 'dataset.users': ['id'] },
+        columnTypes: { 'dataset.users': { visits: 'INT64', joined: 'DATE' } },
+      }),
+    });
+    const joined = new Date('2024-01-15T00:00:00Z');
+
+    await typedDb
+      .insertInto('dataset.users')
+      .values({ id: 1, name: 'Ada', visits: null, joined })
+      .onDuplicateKeyUpdate({ visits: null })
+      .execute();
+
+    expect(mockCreateQueryJob).toHaveBeenCalledWith(
+      expect.objectContaining({
+        params: [1, 'Ada', null, { value: '2024-01-15' }, null],
+        types: [undefined, undefined, 'INT64', 'DATE', 'INT64'],
+      }),
+    );
+  });
+});
@@ -1,4 +1,5 @@
 import { Kysely, sql } from 'kysely';
+import { vi } from 'vitest';
 
 import { BigQueryDialect } from '../src';
 
@@ -69,6 +70,26 @@ export const expectedSimpleSelectCompiled = {
   sql: 'select * from `features`.`metadata` where `id` > ? limit ?',
 };
 
+/**
+ * Create a fake finished BigQuery job for unit tests that mock createQueryJob.
+ */
+export function createMockJob(metadata: Record<string, unknown> = {}, rows: unknown[] = []) {
+  return {
+    id: 'job-123',
+    getQueryResults: vi.fn().mockResolvedValue([rows]),
+    getMetadata: vi.fn().mockResolvedValue([metadata, {}]),
+    cancel: vi.fn().mockResolvedValue([{}]),
+  };
+}
+
+/**
+ * Create a fake BigQuery job whose results are read as a row stream, as
+ * streamQuery does by default.
+ */
+export function createMockStreamJob(stream: unknown) {
+  return { ...createMockJob(), getQueryResultsStream: vi.fn(() => stream) };
+}
+
 /* Test data fixtures */
 export const testUsers = [
   {